@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction } from 'express';
+import User from '../models/User';
+import { normalizeDefaultAddresses, MAX_SAVED_ADDRESSES } from '../services/addressService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Fields a customer may set on a saved address
+const ADDRESS_FIELDS = [
+  'label',
+  'name',
+  'street',
+  'landmark',
+  'city',
+  'state',
+  'zipCode',
+  'country',
+  'phone',
+  'isDefaultShipping',
+  'isDefaultBilling'
+];
+
+// Helper to pick the address fields from the request body
+const pickAddressFields = (body: any): any => {
+  const fields: any = {};
+  ADDRESS_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  });
+  return fields;
+};
+
+// ==================== ADDRESS BOOK ====================
+
+// Get the logged in user's saved addresses
+export const getMyAddresses = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const user = await User.findById(req.user._id, { addresses: 1 });
+
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: user.addresses
+  });
+});
+
+// Get one of the logged in user's saved addresses
+export const getMyAddressById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const user = await User.findById(req.user._id, { addresses: 1 });
+  const address = user?.addresses.id(req.params.addressId);
+
+  if (!address) {
+    return next(new AppError('Address not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: address
+  });
+});
+
+// Add an address to the logged in user's address book
+export const addAddress = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const user = await User.findById(req.user._id);
+
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+
+  if (user.addresses.length >= MAX_SAVED_ADDRESSES) {
+    return next(new AppError(`You can save up to ${MAX_SAVED_ADDRESSES} addresses`, 400));
+  }
+
+  user.addresses.push(pickAddressFields(req.body));
+  const address = user.addresses[user.addresses.length - 1];
+  normalizeDefaultAddresses(user, address);
+  await user.save();
+
+  res.status(201).json({
+    success: true,
+    message: 'Address added successfully',
+    data: address
+  });
+});
+
+// Update one of the logged in user's saved addresses
+export const updateAddress = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const user = await User.findById(req.user._id);
+  const address = user?.addresses.id(req.params.addressId);
+
+  if (!user || !address) {
+    return next(new AppError('Address not found', 404));
+  }
+
+  address.set(pickAddressFields(req.body));
+  normalizeDefaultAddresses(user, address);
+  await user.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Address updated successfully',
+    data: address
+  });
+});
+
+// Remove an address from the logged in user's address book
+export const deleteAddress = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const user = await User.findById(req.user._id);
+  const address = user?.addresses.id(req.params.addressId);
+
+  if (!user || !address) {
+    return next(new AppError('Address not found', 404));
+  }
+
+  // Orders keep their own copy of the address, so removing it does not affect them
+  address.deleteOne();
+  normalizeDefaultAddresses(user);
+  await user.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Address deleted successfully',
+    data: user.addresses
+  });
+});
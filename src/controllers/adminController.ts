@@ -11,6 +11,10 @@ import User, { UserRole, UserStatus } from '../models/User';
 import GlobalProduct from '../models/globalProduct';
 import VendorPayment from '../models/vendorPayment';
 import Order from '../models/order';
+import { getActiveQuantity } from '../services/orderLifecycle';
+import { getLinePayoutAmount, getSellingPrice } from '../services/pricingService';
+import { notify } from '../services/notificationService';
+import { postToInbox } from '../services/inboxService';
 import { generateAdminToken } from '../utils/tokenUtils';
 import { AppError, catchAsyncError } from '../utils/errorHandler';
 import { uploadBrandImages, uploadProductImages, uploadCategoryImages } from '../utils/cloudinary';
@@ -847,9 +851,17 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
       discount = 0, // Discount percentage (0-100), applied only to product price
       shippingPrice = 0,
       stock, 
+      batches, // Optional batch/lot breakdown of the stock
       sku, 
       globalProductId, 
       globalProductName,
+      requiresPrescription,
+      isReturnable,
+      hsnCode,
+      gstRate,
+      weightGrams,
+      requiresColdChain,
+      composition,
       isActive,
       isOnSale,
       isBestSeller,
@@ -952,6 +964,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
         subCategory, // Add subCategory to product data
         brand,
         images: processedImages,
+        requiresPrescription: requiresPrescription || false,
+        isReturnable: isReturnable !== undefined ? isReturnable : true,
+        hsnCode,
+        gstRate,
+        weightGrams,
+        requiresColdChain: requiresColdChain || false,
+        composition,
         isActive: true,
         globalProduct: globalProductId
       };
@@ -1046,6 +1065,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
           subCategory, // Add subCategory to product data
           brand,
           images: processedImages,
+          requiresPrescription: requiresPrescription || false,
+          isReturnable: isReturnable !== undefined ? isReturnable : true,
+          hsnCode,
+          gstRate,
+          weightGrams,
+          requiresColdChain: requiresColdChain || false,
+          composition,
           isActive: true
         };
         
@@ -1086,6 +1112,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
           subCategory, // Add subCategory to product data
           brand,
           images: processedImages,
+          requiresPrescription: requiresPrescription || false,
+          isReturnable: isReturnable !== undefined ? isReturnable : true,
+          hsnCode,
+          gstRate,
+          weightGrams,
+          requiresColdChain: requiresColdChain || false,
+          composition,
           isActive: true
         };
         
@@ -1134,7 +1167,7 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
     }
     
     // Calculate total price based on price, discount, and shippingPrice
-    const discountedPrice = (price || 0) * (1 - (discount || 0) / 100);
+    const discountedPrice = getSellingPrice(price || 0, discount || 0);
     const calculatedTotalPrice = Math.round((discountedPrice + (shippingPrice || 0)) * 100) / 100;
     
     // Create vendor product with approved status since admin is adding it
@@ -1146,6 +1179,7 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
       shippingPrice: shippingPrice || 0, // Default to 0 if not provided
       totalPrice: calculatedTotalPrice, // Calculate total price
       stock: stock || 0, // Default to 0 if not provided
+      batches: batches || [], // Stock is recalculated from non-expired batches when provided
       sku: sku || `SKU-${Date.now()}`, // Generate a default SKU if not provided
       status: 'approved', // Approved by default since admin is adding it
       isActive: isActive !== undefined ? isActive : true, // Use provided isActive or default to true
@@ -1378,7 +1412,7 @@ export const updateAdminUploadedProducts = catchAsyncError(async (req: Request,
     const newShippingPrice = shippingPrice !== undefined ? shippingPrice : vendorProduct.shippingPrice;
     
     // Calculate discounted price (discount applied only to product price)
-    const discountedPrice = newPrice * (1 - (newDiscount || 0) / 100);
+    const discountedPrice = getSellingPrice(newPrice, newDiscount);
     // Calculate total price (discounted price + shipping)
     vendorProduct.totalPrice = Math.round((discountedPrice + newShippingPrice) * 100) / 100;
   }
@@ -1473,6 +1507,12 @@ export const updateVendorStatus = catchAsyncError(async (req: Request, res: Resp
     return next(new AppError('Vendor not found', 404));
   }
   
+  // Sent in the background; never fails the status change
+  notify('vendor.status_changed', { id: vendor._id as mongoose.Types.ObjectId, role: 'vendor' }, {
+    businessName: vendor.businessName,
+    status
+  });
+  
   res.status(200).json({ 
     message: `Vendor status updated to ${status} successfully`, 
     vendor 
@@ -1592,16 +1632,31 @@ export const updateVendorProductStatus = catchAsyncError(async (req: Request, re
   if (status !== undefined) updateFields.status = status;
   if (isActive !== undefined) updateFields.isActive = isActive
   
+  const previous = await VendorProduct.findById(req.params.id, { status: 1 });
+  
   const vendorProduct = await VendorProduct.findByIdAndUpdate(
     req.params.id,
     updateFields,
     { new: true }
-  );
+  ).populate('productId', 'name');
   
-  if (!vendorProduct) {
+  if (!previous || !vendorProduct) {
     return next(new AppError('Vendor product not found', 404));
   }
   
+  // Tell the vendor when a review decision is made (admin listings have no vendor to tell)
+  const isReviewed = (vendorProduct.status === 'approved' || vendorProduct.status === 'rejected')
+    && vendorProduct.status !== previous.status;
+  if (isReviewed && await Vendor.exists({ _id: vendorProduct.vendorId })) {
+    const productName = (vendorProduct.productId as any)?.name || 'Your product';
+    await postToInbox([{ id: vendorProduct.vendorId, role: 'vendor' }], {
+      type: `product.${vendorProduct.status}`,
+      title: vendorProduct.status === 'approved' ? 'Product approved' : 'Product rejected',
+      message: `${productName} was ${vendorProduct.status} by the marketplace team`,
+      data: { vendorProductId: vendorProduct._id }
+    });
+  }
+  
   res.status(200).json({ 
     message: `Product updated successfully`, 
     vendorProduct 
@@ -1683,7 +1738,11 @@ export const getVendorSales = catchAsyncError(async (req: Request, res: Response
     'vendorProducts.vendorProductId': { $in: vendorProductIds },
     createdAt: { $gte: start, $lte: end },
     paymentStatus: 'completed',
-    orderStatus:'delivered'
+    // Only the vendor's own fulfilment group has to be delivered (legacy orders use the order status)
+    $or: [
+      { vendorGroups: { $elemMatch: { vendorId: new mongoose.Types.ObjectId(vendorId as string), status: 'delivered' } } },
+      { 'vendorGroups.0': { $exists: false }, orderStatus: 'delivered' }
+    ]
   });
   
   // Calculate total sales
@@ -1696,7 +1755,10 @@ export const getVendorSales = catchAsyncError(async (req: Request, res: Response
     order.vendorProducts.forEach(item => {
       // Check if the vendor product ID is in our list
       if (vendorProductIds.some(id => (id as mongoose.Types.ObjectId).equals(item.vendorProductId))) {
-        const itemTotal = item.price * item.quantity;
+        // Cancelled and refunded units are not part of the vendor's sales
+        // Vendor-funded coupon discounts come out of the vendor's sales
+        const quantity = getActiveQuantity(item);
+        const itemTotal = getLinePayoutAmount(order, item, quantity);
         totalSales += itemTotal;
         
         // Get product name from vendor product
@@ -1711,7 +1773,7 @@ export const getVendorSales = catchAsyncError(async (req: Request, res: Response
             sales: 0
           };
         }
-        salesByProduct[productName].quantity += item.quantity;
+        salesByProduct[productName].quantity += quantity;
         salesByProduct[productName].sales += itemTotal;
       }
     });
@@ -1781,15 +1843,17 @@ export const generateVendorPayment = catchAsyncError(async (req: Request, res: R
   const orders = await Order.find({
     'vendorProducts.vendorProductId': { $in: vendorProductIds },
     createdAt: { $gte: start, $lte: end },
-    paymentStatus: 'completed'
+    paymentStatus: 'completed',
+    // Skip orders where this vendor's fulfilment group was cancelled
+    vendorGroups: { $not: { $elemMatch: { vendorId: new mongoose.Types.ObjectId(vendorId), status: 'cancelled' } } }
   });
   
   // Calculate total sales
   let totalSales = 0;
   orders.forEach(order => {
     order.vendorProducts.forEach(item => {
-      if (vendorProductIds.includes(item.vendorProductId)) {
-        totalSales += item.price * item.quantity;
+      if (vendorProductIds.some(id => (id as mongoose.Types.ObjectId).equals(item.vendorProductId))) {
+        totalSales += getLinePayoutAmount(order, item, getActiveQuantity(item)); // Refunded units and vendor-funded discounts are excluded from payouts
       }
     });
   });
@@ -1851,6 +1915,13 @@ export const processVendorPayment = catchAsyncError(async (req: Request, res: Re
   
   await vendorPayment.save();
   
+  await postToInbox([{ id: vendorPayment.vendor, role: 'vendor' }], {
+    type: 'payout.processed',
+    title: 'Payout processed',
+    message: `A payout of ₹${vendorPayment.amount} has been processed${transactionId ? ` (transaction ${transactionId})` : ''}`,
+    data: { vendorPaymentId: vendorPayment._id }
+  });
+  
   res.status(200).json({
     message: 'Vendor payment processed successfully',
     payment: vendorPayment
@@ -3,27 +3,76 @@ import mongoose from 'mongoose';
 import Cart, { ICart } from '../models/cart';
 import VendorProduct from '../models/vendorProduct';
 import { catchAsyncError, AppError } from '../utils/errorHandler';
-
-// Helper function to calculate cart totals dynamically
-const calculateCartTotals = async (cart: ICart) => {
-  let totalAmount = 0;
-  let shippingPrice = 0;
+import { getAvailableStock } from '../services/inventoryService';
+import { evaluateCoupon, CouponLine } from '../services/couponService';
+import { priceLine, summarizePricing, LinePricing } from '../services/pricingService';
+import { quoteShipping, ShippingLine } from '../services/shippingService';
+
+// Helper function to calculate cart totals dynamically, including the applied coupon and per-vendor shipping
+const calculateCartTotals = async (cart: ICart, pincode?: string) => {
+  const itemPricing: Array<LinePricing & { vendorProductId: mongoose.Types.ObjectId }> = [];
+  const couponLines: CouponLine[] = [];
+  const shippingLines: ShippingLine[] = [];
   
-  // Calculate totals based on current vendor product prices
+  // Price each line from the current listing (list price, listing discount, shipping, tax)
   for (const item of cart.items) {
-    const vendorProduct = await VendorProduct.findById(item.vendorProductId);
+    const vendorProduct = await VendorProduct.findById(item.vendorProductId).populate('productId', 'category brand gstRate weightGrams requiresColdChain');
     if (vendorProduct) {
-      totalAmount += vendorProduct.price * item.quantity;
-      shippingPrice += vendorProduct.shippingPrice;
+      const pricing = priceLine(vendorProduct, item.quantity, (vendorProduct.productId as any)?.gstRate || 0);
+      itemPricing.push({ vendorProductId: vendorProduct._id as mongoose.Types.ObjectId, ...pricing });
+      couponLines.push({
+        vendorProductId: vendorProduct._id as mongoose.Types.ObjectId,
+        vendorId: vendorProduct.vendorId,
+        category: (vendorProduct.productId as any)?.category,
+        brand: (vendorProduct.productId as any)?.brand,
+        price: pricing.sellingPrice,
+        quantity: item.quantity
+      });
+      shippingLines.push({
+        vendorId: vendorProduct.vendorId,
+        quantity: item.quantity,
+        itemsValue: pricing.sellingPrice * item.quantity,
+        weightGrams: (vendorProduct.productId as any)?.weightGrams,
+        requiresColdChain: (vendorProduct.productId as any)?.requiresColdChain,
+        legacyShippingPrice: pricing.shippingPrice
+      });
+    }
+  }
+  const { listTotal, discountTotal, totalAmount, taxTotal } = summarizePricing(itemPricing);
+  
+  // Shipping is charged per vendor group; zone surcharges need the delivery pincode
+  const shipping = await quoteShipping(shippingLines, pincode);
+  const shippingPrice = shipping.total;
+  
+  // A coupon that stopped applying (cart changed, expired, used up) is reported rather than failing the cart
+  let discountAmount = 0;
+  let couponError: string | undefined;
+  if (cart.couponCode && couponLines.length > 0) {
+    try {
+      const evaluation = await evaluateCoupon(cart.couponCode, cart.userId, couponLines);
+      discountAmount = evaluation.discountAmount;
+    } catch (error: any) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      couponError = error.message;
     }
   }
   
-  const grandTotal = totalAmount + shippingPrice;
+  const grandTotal = totalAmount - discountAmount + shippingPrice;
   
   return {
+    listTotal,
+    listingDiscount: discountTotal,
     totalAmount,
     shippingPrice,
-    grandTotal
+    shippingQuotes: shipping.quotes,
+    taxAmount: taxTotal,
+    itemPricing,
+    discountAmount,
+    grandTotal,
+    couponCode: cart.couponCode,
+    couponError
   };
 };
 
@@ -50,22 +99,21 @@ export const getCart = catchAsyncError(async (req: Request, res: Response, next:
         ...newCart.toObject(),
         totalAmount: 0,
         shippingPrice: 0,
+        discountAmount: 0,
         grandTotal: 0
       }
     });
     return;
   }
 
-  // Calculate totals dynamically
-  const { totalAmount, shippingPrice, grandTotal } = await calculateCartTotals(cart);
+  // Calculate totals dynamically (pass ?pincode= to include zone surcharges)
+  const totals = await calculateCartTotals(cart, req.query.pincode as string | undefined);
 
   res.status(200).json({
     success: true,
     data: {
       ...cart.toObject(),
-      totalAmount,
-      shippingPrice,
-      grandTotal
+      ...totals
     }
   });
 });
@@ -90,8 +138,9 @@ export const addItemToCart = catchAsyncError(async (req: Request, res: Response,
     return next(new AppError('Vendor product not found', 404));
   }
 
-  if (vendorProduct.stock < quantity) {
-    return next(new AppError(`Only ${vendorProduct.stock} items available in stock`, 400));
+  const availableStock = getAvailableStock(vendorProduct);
+  if (availableStock < quantity) {
+    return next(new AppError(`Only ${availableStock} items available in stock`, 400));
   }
 
   // Find or create cart for user
@@ -134,15 +183,13 @@ export const addItemToCart = catchAsyncError(async (req: Request, res: Response,
   });
 
   // Calculate totals dynamically
-  const { totalAmount, shippingPrice, grandTotal } = await calculateCartTotals(cart);
+  const totals = await calculateCartTotals(cart);
 
   res.status(200).json({
     success: true,
     data: {
       ...cart.toObject(),
-      totalAmount,
-      shippingPrice,
-      grandTotal
+      ...totals
     }
   });
 });
@@ -188,8 +235,9 @@ export const updateCartItem = catchAsyncError(async (req: Request, res: Response
     return next(new AppError('Vendor product not found', 404));
   }
 
-  if (vendorProduct.stock < quantity) {
-    return next(new AppError(`Only ${vendorProduct.stock} items available in stock`, 400));
+  const availableStock = getAvailableStock(vendorProduct);
+  if (availableStock < quantity) {
+    return next(new AppError(`Only ${availableStock} items available in stock`, 400));
   }
 
   // Update quantity
@@ -208,15 +256,13 @@ export const updateCartItem = catchAsyncError(async (req: Request, res: Response
   });
 
   // Calculate totals dynamically
-  const { totalAmount, shippingPrice, grandTotal } = await calculateCartTotals(cart);
+  const totals = await calculateCartTotals(cart);
 
   res.status(200).json({
     success: true,
     data: {
       ...cart.toObject(),
-      totalAmount,
-      shippingPrice,
-      grandTotal
+      ...totals
     }
   });
 });
@@ -262,15 +308,13 @@ export const removeItemFromCart = catchAsyncError(async (req: Request, res: Resp
   });
 
   // Calculate totals dynamically
-  const { totalAmount, shippingPrice, grandTotal } = await calculateCartTotals(cart);
+  const totals = await calculateCartTotals(cart);
 
   res.status(200).json({
     success: true,
     data: {
       ...cart.toObject(),
-      totalAmount,
-      shippingPrice,
-      grandTotal
+      ...totals
     }
   });
 });
@@ -284,6 +328,7 @@ export const clearCart = catchAsyncError(async (req: Request, res: Response, nex
   }
 
   cart.items = [];
+  cart.couponCode = undefined;
   await cart.save();
 
   res.status(200).json({
@@ -292,8 +337,80 @@ export const clearCart = catchAsyncError(async (req: Request, res: Response, nex
       ...cart.toObject(),
       totalAmount: 0,
       shippingPrice: 0,
+      discountAmount: 0,
       grandTotal: 0
     },
     message: 'Cart cleared successfully'
   });
-});
\ No newline at end of file
+});
+
+// Apply a coupon to the cart
+export const applyCartCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { code } = req.body;
+
+  const cart = await Cart.findOne({ userId: req.user._id });
+
+  if (!cart || cart.items.length === 0) {
+    return next(new AppError('Add items to your cart before applying a coupon', 400));
+  }
+
+  cart.couponCode = code;
+
+  // Reject the coupon outright when it does not apply to the cart right now
+  const totals = await calculateCartTotals(cart);
+  if (totals.couponError) {
+    return next(new AppError(totals.couponError, 400));
+  }
+
+  await cart.save();
+
+  // Populate the cart with product details
+  await cart.populate({
+    path: 'items.vendorProductId',
+    populate: [
+      { path: 'productId', select: 'name description images' },
+      { path: 'vendorId', select: 'businessName' }
+    ]
+  });
+
+  res.status(200).json({
+    success: true,
+    data: {
+      ...cart.toObject(),
+      ...totals
+    },
+    message: 'Coupon applied successfully'
+  });
+});
+
+// Remove the coupon from the cart
+export const removeCartCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const cart = await Cart.findOne({ userId: req.user._id });
+
+  if (!cart) {
+    return next(new AppError('Cart not found', 404));
+  }
+
+  cart.couponCode = undefined;
+  await cart.save();
+
+  // Populate the cart with product details
+  await cart.populate({
+    path: 'items.vendorProductId',
+    populate: [
+      { path: 'productId', select: 'name description images' },
+      { path: 'vendorId', select: 'businessName' }
+    ]
+  });
+
+  const totals = await calculateCartTotals(cart);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      ...cart.toObject(),
+      ...totals
+    },
+    message: 'Coupon removed successfully'
+  });
+});
@@ -0,0 +1,285 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Coupon, { ICoupon } from '../models/coupon';
+import CouponRedemption from '../models/couponRedemption';
+import { normalizeCouponCode } from '../services/couponService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+import { escapeRegex } from '../utils/searchText';
+
+// Fields a coupon owner may set directly
+const COUPON_FIELDS = [
+  'description',
+  'discountType',
+  'discountValue',
+  'maxDiscount',
+  'minCartValue',
+  'usageLimit',
+  'perUserLimit',
+  'validFrom',
+  'validUntil',
+  'isActive'
+];
+
+// Helper to copy editable fields from the request body onto a coupon
+const applyCouponFields = (coupon: ICoupon, body: any): void => {
+  COUPON_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      (coupon as any)[field] = body[field] === null ? undefined : body[field];
+    }
+  });
+
+  if (body.code) {
+    coupon.code = normalizeCouponCode(body.code);
+  }
+};
+
+// Helper to check the ids in a coupon scope
+const buildScope = (scope: any = {}, current?: ICoupon['scope']): ICoupon['scope'] => {
+  const ids = (values: string[] | undefined, fallback: mongoose.Types.ObjectId[] = []) => {
+    if (values === undefined) return fallback;
+    values.forEach(value => {
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        throw new AppError(`Invalid ID in coupon scope: ${value}`, 400);
+      }
+    });
+    return values.map(value => new mongoose.Types.ObjectId(value));
+  };
+
+  return {
+    categories: ids(scope.categories, current?.categories),
+    brands: ids(scope.brands, current?.brands),
+    vendors: ids(scope.vendors, current?.vendors)
+  };
+};
+
+// Helper to list coupons with optional filters
+const listCoupons = async (filter: any, query: any): Promise<any> => {
+  const { page = 1, limit = 20, isActive, search } = query;
+
+  if (isActive !== undefined) {
+    filter.isActive = isActive === 'true';
+  }
+  if (search) {
+    filter.code = { $regex: escapeRegex(String(search)), $options: 'i' };
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 }
+  };
+
+  return Coupon.paginate(filter, options);
+};
+
+// Helper to save a coupon, reporting a taken code as a conflict
+const saveCoupon = async (coupon: ICoupon, next: NextFunction): Promise<boolean> => {
+  if (coupon.discountType === 'percentage' && coupon.discountValue > 100) {
+    next(new AppError('Percentage discount cannot exceed 100', 400));
+    return false;
+  }
+
+  try {
+    await coupon.save();
+    return true;
+  } catch (error: any) {
+    if (error.code === 11000) {
+      next(new AppError(`Coupon code '${coupon.code}' already exists`, 409));
+      return false;
+    }
+    throw error;
+  }
+};
+
+// ==================== ADMIN COUPONS ====================
+
+// Create a coupon (admin)
+export const createCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { fundedBy = 'platform' } = req.body;
+  const scope = buildScope(req.body.scope);
+
+  // Vendor-funded coupons come out of vendor payouts, so they must name the vendors who pay for them
+  if (fundedBy === 'vendor' && scope.vendors.length === 0) {
+    return next(new AppError('Vendor-funded coupons must be scoped to at least one vendor', 400));
+  }
+
+  const coupon = new Coupon({
+    scope,
+    fundedBy,
+    createdBy: req.user._id,
+    createdByRole: 'admin'
+  });
+  applyCouponFields(coupon, req.body);
+
+  if (!(await saveCoupon(coupon, next))) {
+    return;
+  }
+
+  res.status(201).json({
+    message: 'Coupon created successfully',
+    coupon
+  });
+});
+
+// Get all coupons (admin)
+export const getCoupons = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const filter: any = {};
+  const { fundedBy, vendorId } = req.query;
+
+  if (fundedBy) {
+    filter.fundedBy = fundedBy;
+  }
+  if (vendorId && mongoose.Types.ObjectId.isValid(vendorId as string)) {
+    filter['scope.vendors'] = vendorId;
+  }
+
+  const result = await listCoupons(filter, req.query);
+
+  res.status(200).json(result);
+});
+
+// Get a coupon with its redemption stats (admin)
+export const getCouponById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const coupon = await Coupon.findById(req.params.id);
+
+  if (!coupon) {
+    return next(new AppError('Coupon not found', 404));
+  }
+
+  const [stats] = await CouponRedemption.aggregate([
+    { $match: { coupon: coupon._id, status: 'applied' } },
+    {
+      $group: {
+        _id: null,
+        redemptions: { $sum: 1 },
+        customers: { $addToSet: '$user' },
+        totalDiscount: { $sum: '$discountAmount' }
+      }
+    }
+  ]);
+
+  res.status(200).json({
+    coupon,
+    stats: {
+      redemptions: stats?.redemptions || 0,
+      customers: stats?.customers.length || 0,
+      totalDiscount: stats?.totalDiscount || 0
+    }
+  });
+});
+
+// Update a coupon (admin)
+export const updateCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const coupon = await Coupon.findById(req.params.id);
+
+  if (!coupon) {
+    return next(new AppError('Coupon not found', 404));
+  }
+
+  applyCouponFields(coupon, req.body);
+  if (req.body.scope) {
+    coupon.scope = buildScope(req.body.scope, coupon.scope);
+  }
+  if (req.body.fundedBy) {
+    coupon.fundedBy = req.body.fundedBy;
+  }
+
+  if (coupon.fundedBy === 'vendor' && coupon.scope.vendors.length === 0) {
+    return next(new AppError('Vendor-funded coupons must be scoped to at least one vendor', 400));
+  }
+
+  if (!(await saveCoupon(coupon, next))) {
+    return;
+  }
+
+  res.status(200).json({
+    message: 'Coupon updated successfully',
+    coupon
+  });
+});
+
+// Deactivate a coupon (admin); redeemed coupons are kept for order history
+export const deactivateCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const coupon = await Coupon.findByIdAndUpdate(req.params.id, { isActive: false }, { new: true });
+
+  if (!coupon) {
+    return next(new AppError('Coupon not found', 404));
+  }
+
+  res.status(200).json({
+    message: 'Coupon deactivated successfully',
+    coupon
+  });
+});
+
+// ==================== VENDOR COUPONS ====================
+
+// Create a coupon on the vendor's own listings (vendor-funded)
+export const createVendorCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user._id;
+
+  const coupon = new Coupon({
+    scope: { ...buildScope(req.body.scope), vendors: [vendorId] },
+    fundedBy: 'vendor',
+    createdBy: vendorId,
+    createdByRole: 'vendor'
+  });
+  applyCouponFields(coupon, req.body);
+
+  if (!(await saveCoupon(coupon, next))) {
+    return;
+  }
+
+  res.status(201).json({
+    message: 'Coupon created successfully',
+    coupon
+  });
+});
+
+// Get the vendor's own coupons
+export const getVendorCoupons = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const result = await listCoupons({ createdBy: req.user._id, createdByRole: 'vendor' }, req.query);
+
+  res.status(200).json(result);
+});
+
+// Update one of the vendor's own coupons
+export const updateVendorCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const coupon = await Coupon.findOne({ _id: req.params.id, createdBy: req.user._id, createdByRole: 'vendor' });
+
+  if (!coupon) {
+    return next(new AppError('Coupon not found', 404));
+  }
+
+  applyCouponFields(coupon, req.body);
+  if (req.body.scope) {
+    coupon.scope = { ...buildScope(req.body.scope, coupon.scope), vendors: [req.user._id] };
+  }
+
+  if (!(await saveCoupon(coupon, next))) {
+    return;
+  }
+
+  res.status(200).json({
+    message: 'Coupon updated successfully',
+    coupon
+  });
+});
+
+// Deactivate one of the vendor's own coupons
+export const deactivateVendorCoupon = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const coupon = await Coupon.findOneAndUpdate(
+    { _id: req.params.id, createdBy: req.user._id, createdByRole: 'vendor' },
+    { isActive: false },
+    { new: true }
+  );
+
+  if (!coupon) {
+    return next(new AppError('Coupon not found', 404));
+  }
+
+  res.status(200).json({
+    message: 'Coupon deactivated successfully',
+    coupon
+  });
+});
@@ -3,6 +3,7 @@ import { catchAsyncError, AppError } from '../utils/errorHandler';
 import GlobalProduct from '../models/globalProduct';
 import Product from '../models/product';
 import VendorProduct from '../models/vendorProduct';
+import { SELLING_PRICE_EXPRESSION } from '../services/pricingService';
 
 // Search global products for vendors to link to
 export const searchGlobalProductsForVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -139,6 +140,7 @@ export const getVendorProductsByGlobalProduct = catchAsyncError(async (req: Requ
         vendorId: 1,
         globalProductId: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         comparePrice: 1,
         stock: 1,
         reservedStock: 1,
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Notification from '../models/notification';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// ==================== IN-APP INBOX ====================
+
+// Get the logged in user's, vendor's or admin's inbox
+export const getMyInbox = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, isRead, type } = req.query;
+
+  const owner = { recipient: req.user._id, recipientRole: req.user.role };
+  const filter: any = { ...owner };
+  if (isRead !== undefined) {
+    filter.isRead = isRead === 'true';
+  }
+  if (type) {
+    filter.type = type;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 }
+  };
+
+  const [result, unreadCount] = await Promise.all([
+    Notification.paginate(filter, options),
+    Notification.countDocuments({ ...owner, isRead: false })
+  ]);
+
+  res.status(200).json({ ...result, unreadCount });
+});
+
+// Mark some (or all) inbox entries of the logged in user, vendor or admin as read
+export const markInboxRead = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { ids, all } = req.body;
+
+  const filter: any = { recipient: req.user._id, recipientRole: req.user.role, isRead: false };
+  if (!all) {
+    filter._id = { $in: ids };
+  }
+
+  const result = await Notification.updateMany(filter, { isRead: true, readAt: new Date() });
+
+  res.status(200).json({
+    success: true,
+    message: `${result.modifiedCount} notification(s) marked as read`,
+    modifiedCount: result.modifiedCount
+  });
+});
+
+// Mark one inbox entry of the logged in user, vendor or admin as read
+export const markInboxItemRead = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid notification ID', 400));
+  }
+
+  const notification = await Notification.findOne({
+    _id: req.params.id,
+    recipient: req.user._id,
+    recipientRole: req.user.role
+  });
+
+  if (!notification) {
+    return next(new AppError('Notification not found', 404));
+  }
+
+  if (!notification.isRead) {
+    notification.isRead = true;
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  res.status(200).json({
+    success: true,
+    data: notification
+  });
+});
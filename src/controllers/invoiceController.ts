@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Order from '../models/order';
+import Invoice, { IInvoice } from '../models/invoice';
+import { ensureVendorGroups, getVendorGroup } from '../services/orderLifecycle';
+import { renderInvoicePdf } from '../services/invoiceService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Helper to send an invoice as JSON or as a PDF download (?format=pdf)
+const sendInvoice = (req: Request, res: Response, invoice: IInvoice): void => {
+  if (req.query.format === 'pdf') {
+    const fileName = invoice.invoiceNumber.replace(/\//g, '-');
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+    res.status(200).send(renderInvoicePdf(invoice));
+    return;
+  }
+
+  res.status(200).json(invoice);
+};
+
+// ==================== CUSTOMER INVOICES ====================
+
+// Get the tax invoices of one of the user's orders (one per vendor)
+export const getOrderInvoices = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return next(new AppError('Invalid order ID', 400));
+  }
+
+  const order = await Order.findOne({ _id: id, user: userId });
+
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+
+  // Invoices are issued when a group ships (see orderLifecycle); older orders are covered by the
+  // invoices:backfill script, so reading never issues one
+  const invoices = await Invoice.find({ order: order._id })
+    .select('invoiceNumber vendorId seller.name supplyType totals issuedAt')
+    .sort({ issuedAt: 1 });
+
+  res.status(200).json({
+    orderId: order._id,
+    invoices
+  });
+});
+
+// Download a tax invoice of one of the user's orders (JSON, or PDF with ?format=pdf)
+export const getOrderInvoice = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id, invoiceId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(invoiceId)) {
+    return next(new AppError('Invalid order or invoice ID', 400));
+  }
+
+  const invoice = await Invoice.findOne({ _id: invoiceId, order: id, user: userId });
+
+  if (!invoice) {
+    return next(new AppError('Invoice not found', 404));
+  }
+
+  sendInvoice(req, res, invoice);
+});
+
+// ==================== VENDOR INVOICES ====================
+
+// Download the vendor's tax invoice for an order (JSON, or PDF with ?format=pdf)
+export const getVendorOrderInvoice = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return next(new AppError('Invalid order ID', 400));
+  }
+
+  const order = await Order.findById(id);
+
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+
+  await ensureVendorGroups(order);
+  const group = getVendorGroup(order, vendorId);
+
+  if (!group) {
+    return next(new AppError('Order not found or you do not have permission to view it', 404));
+  }
+
+  const invoice = await Invoice.findOne({ order: order._id, vendorId: group.vendorId });
+
+  if (!invoice) {
+    return next(new AppError('An invoice is issued once your items are shipped', 404));
+  }
+
+  sendInvoice(req, res, invoice);
+});
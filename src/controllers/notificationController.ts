@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import NotificationLog from '../models/notificationLog';
+import NotificationPreference from '../models/notificationPreference';
+import { deliverNotification } from '../services/notificationService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// ==================== NOTIFICATION PREFERENCES ====================
+
+// Get the logged in user's, vendor's or admin's notification preferences
+export const getMyNotificationPreferences = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const preference = await NotificationPreference.findOne({ recipient: req.user._id, recipientRole: req.user.role });
+
+  res.status(200).json({
+    success: true,
+    // Everything is enabled until the preferences are first saved
+    data: preference || { channels: { email: true, sms: true, push: true }, mutedEvents: [], pushTokens: [] }
+  });
+});
+
+// Update the logged in user's, vendor's or admin's notification preferences
+export const updateMyNotificationPreferences = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { channels, mutedEvents, pushTokens } = req.body;
+
+  const preference = await NotificationPreference.findOne({ recipient: req.user._id, recipientRole: req.user.role })
+    || new NotificationPreference({ recipient: req.user._id, recipientRole: req.user.role });
+
+  if (channels) {
+    (['email', 'sms', 'push'] as const).forEach(channel => {
+      if (channels[channel] !== undefined) {
+        preference.channels[channel] = channels[channel];
+      }
+    });
+  }
+  if (mutedEvents !== undefined) {
+    preference.mutedEvents = mutedEvents;
+  }
+  if (pushTokens !== undefined) {
+    preference.pushTokens = pushTokens;
+  }
+  await preference.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Notification preferences updated successfully',
+    data: preference
+  });
+});
+
+// ==================== ADMIN NOTIFICATION LOG ====================
+
+// Get sent, pending and failed notifications (admin)
+export const getNotificationLogs = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, event, channel, status, recipient } = req.query;
+
+  const filter: any = {};
+  if (event) {
+    filter.event = event;
+  }
+  if (channel) {
+    filter.channel = channel;
+  }
+  if (status) {
+    filter.status = status;
+  }
+  if (recipient && mongoose.Types.ObjectId.isValid(recipient as string)) {
+    filter.recipient = recipient;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 }
+  };
+
+  const result = await NotificationLog.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get a notification with its full message (admin)
+export const getNotificationLogById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const log = await NotificationLog.findById(req.params.id);
+
+  if (!log) {
+    return next(new AppError('Notification not found', 404));
+  }
+
+  res.status(200).json(log);
+});
+
+// Send a failed notification again (admin)
+export const retryNotification = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const log = await NotificationLog.findById(req.params.id);
+
+  if (!log) {
+    return next(new AppError('Notification not found', 404));
+  }
+
+  if (log.status === 'sent') {
+    return next(new AppError('Notification was already sent', 400));
+  }
+
+  // A manual retry gets a fresh set of attempts
+  log.attempts = 0;
+  const result = await deliverNotification(log);
+
+  res.status(200).json({
+    message: result.status === 'sent' ? 'Notification sent' : `Notification could not be sent: ${result.lastError}`,
+    notification: result
+  });
+});
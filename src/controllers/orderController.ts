@@ -1,71 +1,60 @@
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
-import Order from '../models/order';
+import Order, { IOrder } from '../models/order';
 import VendorProduct from '../models/vendorProduct';
-import Cart from '../models/cart';
-import dotenv from 'dotenv';
+import Prescription from '../models/prescription';
+import Refund from '../models/refund';
+import { getAvailableStock } from '../services/inventoryService';
+import { getWalletBalance, debitWallet } from '../services/walletService';
+import { evaluateCoupon, redeemCoupon, CouponEvaluation } from '../services/couponService';
+import { priceLine, summarizePricing, LinePricing } from '../services/pricingService';
+import { getSellerTaxProfiles, isInterStateSupply, applyLineTax } from '../services/taxService';
+import { quoteShipping, ShippingLine } from '../services/shippingService';
+import { normalizePincode, checkServiceability } from '../services/serviceabilityService';
+import { getSavedAddress, toOrderAddress } from '../services/addressService';
+import { createShipment } from '../services/shipmentService';
+import { notify } from '../services/notificationService';
+import { postNewOrderToSellers } from '../services/inboxService';
+import { publish, getOrderAudiences } from '../services/realtimeService';
+import {
+  transitionOrder,
+  transitionVendorGroup,
+  cancelOrderItems,
+  allocateOrderStock,
+  reserveOrderStock,
+  recordOrderCreated,
+  recordOrderPayment,
+  clearOrderCart,
+  buildVendorGroups,
+  ensureVendorGroups,
+  getVendorGroup,
+  getVendorGroupItems
+} from '../services/orderLifecycle';
 import crypto from 'crypto';
 import { catchAsyncError, AppError } from '../utils/errorHandler';
+import razorpay from '../utils/razorpay';
 
-// Load environment variables
-dotenv.config();
 
-// Dummy payment implementation for now
-let razorpay: any;
+// Message for a prescription that already went with another order
+const PRESCRIPTION_USED_MESSAGE = 'This prescription was already submitted with another order. Please upload a new prescription';
 
-// Initialize Razorpay only if keys are present
-if (process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET) {
-  try {
-    const Razorpay = require('razorpay');
-    razorpay = new Razorpay({
-      key_id: process.env.RAZORPAY_KEY_ID,
-      key_secret: process.env.RAZORPAY_KEY_SECRET
-    });
-    console.log('Razorpay instance created successfully');
-    console.log('Razorpay key ID:', process.env.RAZORPAY_KEY_ID);
-    console.log('Is test environment:', process.env.RAZORPAY_KEY_ID.startsWith('rzp_test_'));
-    console.log('Razorpay instance keys:', Object.keys(razorpay));
-    if (razorpay.payments) {
-      console.log('Razorpay payments methods:', Object.keys(razorpay.payments));
-    }
-  } catch (error: any) {
-    console.error('Error creating Razorpay instance:', error);
-    console.error('Error details:', {
-      message: error?.message,
-      stack: error?.stack
-    });
-    razorpay = null;
+// Helper to tie a prescription to the order it is reviewed for. A prescription clears one order
+// only, so every later order needs a new upload and a new review.
+const claimPrescription = async (
+  prescriptionId: mongoose.Types.ObjectId,
+  orderId: mongoose.Types.ObjectId,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  const result = await Prescription.updateOne(
+    { _id: prescriptionId, order: { $in: [null, orderId] } },
+    { $set: { order: orderId } },
+    { session }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new AppError(PRESCRIPTION_USED_MESSAGE, 400);
   }
-} else {
-  // Dummy implementation for development
-  console.warn('Razorpay keys not found. Using dummy payment implementation.');
-  razorpay = {
-    orders: {
-      create: async (options: any) => {
-        // Return a fake Razorpay order object
-        return {
-          id: `rzp_dummy_${Date.now()}`,
-          amount: options.amount,
-          currency: options.currency,
-          receipt: options.receipt
-        };
-      }
-    },
-    payments: {
-      refund: async (options: any) => {
-        // Return a fake Razorpay refund object
-        console.log('Dummy refund called with options:', options);
-        return {
-          id: `rfnd_dummy_${Date.now()}`,
-          payment_id: options.payment_id,
-          amount: options.amount || 1000, // Default to 1000 paise (10 INR) if not specified
-          currency: 'INR',
-          status: 'processed'
-        };
-      }
-    }
-  };
-}
+};
 
 // Create order
 export const createOrder = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -73,7 +62,8 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
   session.startTransaction();
   
   try {
-    const { vendorProducts, shippingAddress, billingAddress, notes, paymentMethod = 'razorpay' } = req.body;
+    const { vendorProducts, addressId, billingAddressId, notes, paymentMethod = 'razorpay', prescriptionId, useWallet, couponCode } = req.body;
+    let { shippingAddress, billingAddress } = req.body;
     const userId = req.user?._id;
     
     if (!userId) {
@@ -88,10 +78,18 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
       return next(new AppError('Vendor products are required', 400));
     }
     
+    // A saved address is copied onto the order, so later edits to the address book do not change it
+    if (!shippingAddress && addressId) {
+      shippingAddress = toOrderAddress(await getSavedAddress(userId, addressId, session));
+    }
+    if (!billingAddress && billingAddressId) {
+      billingAddress = toOrderAddress(await getSavedAddress(userId, billingAddressId, session));
+    }
+    
     if (!shippingAddress) {
       await session.abortTransaction();
       session.endSession();
-      return next(new AppError('Shipping address is required', 400));
+      return next(new AppError('Shipping address or addressId is required', 400));
     }
     
     // Validate payment method
@@ -114,6 +112,15 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
       }
     }
     
+    // One line per listing: coupon discounts, stock checks and returns are all worked out per vendor product
+    const normalizedIds = vendorProductIds.map((id: any) => String(id).toLowerCase());
+    const duplicateId = normalizedIds.find((id: string, index: number) => normalizedIds.indexOf(id) !== index);
+    if (duplicateId) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError(`Vendor product ${duplicateId} is listed more than once. Combine its quantities into one line`, 400));
+    }
+    
     const vendorProductDocs = await VendorProduct.find({
       _id: { $in: vendorProductIds },
       status: 'approved',
@@ -121,8 +128,11 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
     }).populate('productId');
     
     const orderItems: any[] = [];
-    let totalAmount = 0;
-    let shippingPrice = 0;
+    const groupLines: any[] = [];
+    const couponLines: any[] = [];
+    const pricedLines: LinePricing[] = [];
+    const shippingLines: ShippingLine[] = [];
+    let requiresPrescription = false;
     
     for (const item of vendorProducts) {
       const vendorProductDoc = vendorProductDocs.find(
@@ -135,59 +145,228 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
         return next(new AppError(`Vendor product with ID ${item.vendorProductId} not found or not available`, 404));
       }
       
-      if (vendorProductDoc.stock < item.quantity) {
+      const availableStock = getAvailableStock(vendorProductDoc);
+      if (availableStock < item.quantity) {
         await session.abortTransaction();
         session.endSession();
-        return next(new AppError(`Insufficient stock for ${(vendorProductDoc as any).productId.name}. Available: ${vendorProductDoc.stock}`, 400));
+        return next(new AppError(`Insufficient stock for ${(vendorProductDoc as any).productId.name}. Available: ${availableStock}`, 400));
       }
       
-      // Calculate item total
-      const itemTotal = vendorProductDoc.price * item.quantity;
-      totalAmount += itemTotal;
+      // Flag Rx-only products so the order is held for prescription verification
+      if ((vendorProductDoc as any).productId?.requiresPrescription) {
+        requiresPrescription = true;
+      }
       
-      // Calculate shipping cost
-      const itemShipping = vendorProductDoc.shippingPrice
-      shippingPrice += itemShipping;
+      // Price the line (listing discount applied) and keep the full breakdown on the order line
+      const pricing = priceLine(vendorProductDoc, item.quantity, (vendorProductDoc as any).productId?.gstRate || 0);
+      pricedLines.push(pricing);
       
       // Add to order items
       orderItems.push({
         vendorProductId: vendorProductDoc._id,
+        vendorId: vendorProductDoc.vendorId,
         quantity: item.quantity,
-        price: vendorProductDoc.price
+        price: pricing.sellingPrice,
+        listPrice: pricing.listPrice,
+        discountPercent: pricing.discountPercent,
+        listingDiscount: pricing.discountAmount,
+        shippingPrice: pricing.shippingPrice,
+        hsnCode: (vendorProductDoc as any).productId?.hsnCode,
+        taxRate: pricing.taxRate,
+        taxAmount: pricing.taxAmount
+      });
+      groupLines.push({
+        vendorId: vendorProductDoc.vendorId,
+        price: pricing.sellingPrice,
+        quantity: item.quantity,
+        shippingPrice: pricing.shippingPrice
+      });
+      couponLines.push({
+        vendorProductId: vendorProductDoc._id,
+        vendorId: vendorProductDoc.vendorId,
+        category: (vendorProductDoc as any).productId?.category,
+        brand: (vendorProductDoc as any).productId?.brand,
+        price: pricing.sellingPrice,
+        quantity: item.quantity
+      });
+      shippingLines.push({
+        vendorId: vendorProductDoc.vendorId,
+        quantity: item.quantity,
+        itemsValue: pricing.sellingPrice * item.quantity,
+        weightGrams: (vendorProductDoc as any).productId?.weightGrams,
+        requiresColdChain: (vendorProductDoc as any).productId?.requiresColdChain,
+        legacyShippingPrice: pricing.shippingPrice
       });
     }
     
+    // Every line must come from a vendor that delivers to the shipping pincode
+    const serviceability = await checkServiceability(
+      orderItems.map(line => line.vendorId),
+      normalizePincode(shippingAddress.zipCode),
+      session
+    );
+    const undeliverable = vendorProductDocs.filter(doc => (
+      orderItems.some(line => line.vendorProductId.equals(doc._id)) && !serviceability.get(doc.vendorId.toString())?.serviceable
+    ));
+    if (undeliverable.length > 0) {
+      await session.abortTransaction();
+      session.endSession();
+      const names = undeliverable.map(doc => (doc as any).productId?.name || doc._id).join(', ');
+      return next(new AppError(`These products cannot be delivered to ${shippingAddress.zipCode}: ${names}`, 400));
+    }
+    
+    // Shipping per vendor group from the vendor's shipping profile (or the listings' own shipping prices)
+    const shipping = await quoteShipping(shippingLines, shippingAddress.zipCode, session);
+    shipping.quotes.filter(quote => !quote.breakdown.legacy).forEach(quote => {
+      orderItems.forEach((line, index) => {
+        if (line.vendorId.equals(quote.vendorId)) {
+          line.shippingPrice = 0;
+          groupLines[index].shippingPrice = 0;
+        }
+      });
+    });
+    
+    // Apply the coupon, spreading its discount over the eligible lines (and so their vendor groups)
+    let coupon: CouponEvaluation | null = null;
+    if (couponCode) {
+      coupon = await evaluateCoupon(couponCode, userId, couponLines, session);
+      
+      coupon.lineDiscounts.forEach(lineDiscount => {
+        const index = orderItems.findIndex(line => line.vendorProductId.equals(lineDiscount.vendorProductId));
+        orderItems[index].couponDiscount = (orderItems[index].couponDiscount || 0) + lineDiscount.amount;
+        groupLines[index].discount = (groupLines[index].discount || 0) + lineDiscount.amount;
+      });
+    }
+    const discountAmount = coupon ? coupon.discountAmount : 0;
+    
+    // GST lines on the final (post-coupon) price: CGST + SGST within the seller's state, IGST across states
+    const sellers = await getSellerTaxProfiles(orderItems.map(line => line.vendorId), session);
+    orderItems.forEach(line => {
+      applyLineTax(line, isInterStateSupply(sellers.get(line.vendorId.toString())?.state, shippingAddress.state));
+    });
+    const { totalAmount } = summarizePricing(pricedLines);
+    const shippingPrice = shipping.total;
+    
+    // Orders with Rx-only products need a prescription that has not been rejected
+    let prescription = null;
+    if (requiresPrescription) {
+      if (!prescriptionId) {
+        await session.abortTransaction();
+        session.endSession();
+        return next(new AppError('This order contains prescription-only products. Please upload a prescription and provide prescriptionId', 400));
+      }
+      
+      if (!mongoose.Types.ObjectId.isValid(prescriptionId)) {
+        await session.abortTransaction();
+        session.endSession();
+        return next(new AppError(`Invalid prescription ID: ${prescriptionId}`, 400));
+      }
+      
+      prescription = await Prescription.findOne({ _id: prescriptionId, user: userId }).session(session);
+      
+      if (!prescription) {
+        await session.abortTransaction();
+        session.endSession();
+        return next(new AppError('Prescription not found', 404));
+      }
+      
+      if (prescription.status === 'rejected') {
+        await session.abortTransaction();
+        session.endSession();
+        return next(new AppError(`Prescription was rejected: ${prescription.rejectionReason || 'No reason provided'}. Please upload a new prescription`, 400));
+      }
+      
+      if (prescription.order) {
+        await session.abortTransaction();
+        session.endSession();
+        return next(new AppError(PRESCRIPTION_USED_MESSAGE, 400));
+      }
+    }
+    
     // Calculate grand total
-    const grandTotal = totalAmount + shippingPrice;
+    const grandTotal = totalAmount - discountAmount + shippingPrice;
+    
+    // Work out how much of the order the wallet pays for (all of it, or a split with Razorpay)
+    let orderPaymentMethod = paymentMethod;
+    let walletAmount = 0;
+    if (paymentMethod === 'wallet' || (paymentMethod === 'razorpay' && useWallet)) {
+      const walletBalance = await getWalletBalance(userId, session);
+      
+      if (paymentMethod === 'wallet' && walletBalance < grandTotal) {
+        await session.abortTransaction();
+        session.endSession();
+        return next(new AppError(`Insufficient wallet balance. Available: ${walletBalance}, Required: ${grandTotal}`, 400));
+      }
+      
+      walletAmount = Math.min(walletBalance, grandTotal);
+      if (walletAmount >= grandTotal) {
+        orderPaymentMethod = 'wallet'; // Wallet covers everything, no Razorpay payment needed
+      }
+    }
     
     // Set payment status based on payment method
     let paymentStatus = 'pending';
-    if (paymentMethod === 'cod') {
+    if (orderPaymentMethod === 'cod') {
       paymentStatus = 'pending'; // COD orders are pending until delivery
+    } else if (orderPaymentMethod === 'wallet') {
+      paymentStatus = 'completed'; // Paid from the wallet right away
     }
     
     // Create order in database
     const order = new Order({
       user: userId,
       vendorProducts: orderItems,
+      vendorGroups: buildVendorGroups(groupLines, 'pending', shipping.quotes), // One fulfilment group per vendor
       totalAmount,
       shippingPrice,
+      discountAmount,
       grandTotal,
-      paymentMethod,
+      coupon: coupon ? coupon.coupon._id : undefined,
+      couponCode: coupon ? coupon.coupon.code : undefined,
+      discountFundedBy: coupon ? coupon.coupon.fundedBy : undefined,
+      paymentMethod: orderPaymentMethod,
+      walletAmount,
       paymentStatus,
       orderStatus: 'pending',
       shippingAddress,
       billingAddress: billingAddress || shippingAddress,
-      notes
+      notes,
+      requiresPrescription,
+      prescription: prescription ? prescription._id : undefined
     });
     
+    order.vendorGroups.forEach(group => {
+      group.estimatedDeliveryDate = serviceability.get(group.vendorId.toString())?.estimatedDeliveryDate;
+    });
+    
+    recordOrderCreated(order, { id: userId, role: 'customer' });
     await order.save({ session });
     
-    // For Razorpay payments, create Razorpay order
+    if (prescription) {
+      await claimPrescription(prescription._id as mongoose.Types.ObjectId, order._id as mongoose.Types.ObjectId, session);
+    }
+    
+    // Count the coupon use (fails if the coupon ran out while the order was being placed)
+    if (coupon) {
+      await redeemCoupon(coupon, userId, order._id as mongoose.Types.ObjectId, session);
+    }
+    
+    // Take the wallet part of the payment (fails without overdrawing if the balance changed meanwhile)
+    if (walletAmount > 0) {
+      await debitWallet(userId, walletAmount, {
+        type: 'order_payment',
+        description: `Payment for order ${order._id}`,
+        order: order._id as mongoose.Types.ObjectId,
+        createdBy: userId,
+        createdByRole: 'customer'
+      }, session);
+    }
+    
+    // For Razorpay payments, create Razorpay order for whatever the wallet does not cover
     let razorpayOrderId = null;
-    if (paymentMethod === 'razorpay') {
+    if (orderPaymentMethod === 'razorpay') {
       const razorpayOrder = await razorpay.orders.create({
-        amount: grandTotal * 100, // Razorpay expects amount in paise (using grandTotal)
+        amount: Math.round((grandTotal - walletAmount) * 100), // Razorpay expects amount in paise
         currency: 'INR',
         receipt: (order._id as mongoose.Types.ObjectId).toString(),
         notes: {
@@ -198,38 +377,68 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
       // Update order with Razorpay order ID
       razorpayOrderId = razorpayOrder.id;
       order.razorpayOrderId = razorpayOrderId;
+      
+      // Hold the stock until the payment is verified (released automatically when the window lapses)
+      await reserveOrderStock(order, session);
       await order.save({ session });
     }
     
-    // For COD orders, reduce stock immediately since payment will be collected on delivery
-    if (paymentMethod === 'cod') {
-      for (const item of order.vendorProducts) {
-        await VendorProduct.findByIdAndUpdate(
-          item.vendorProductId,
-          { $inc: { stock: -item.quantity } },
-          { session }
-        );
-      }
+    // For COD and wallet orders, reduce stock immediately (payment is collected on delivery or already taken)
+    if (orderPaymentMethod === 'cod' || orderPaymentMethod === 'wallet') {
+      // Allocate batches FEFO and record them on the order lines for traceability
+      await allocateOrderStock(order, session);
       await order.save({ session });
     }
     
+    await notify('order.placed', { id: userId, role: 'customer' }, {
+      orderId: order._id,
+      grandTotal: order.grandTotal,
+      paymentMethod: order.paymentMethod,
+      requiresPrescription: order.requiresPrescription
+    }, session);
+    
+    // Razorpay orders reach the sellers once they are paid
+    if (orderPaymentMethod !== 'razorpay') {
+      await postNewOrderToSellers(order, session);
+      publish('order.new', getOrderAudiences(order), {
+        orderId: order._id,
+        grandTotal: order.grandTotal,
+        paymentMethod: order.paymentMethod
+      }, session);
+    }
+    
     // Commit transaction
     await session.commitTransaction();
     session.endSession();
     
     // Determine razorpayOrderId to return (null for non-Razorpay payments)
-    if (paymentMethod === 'razorpay') {
+    if (orderPaymentMethod === 'razorpay') {
       razorpayOrderId = order.razorpayOrderId;
     }
     
+    // Wallet orders are paid already, so the cart can go now
+    if (orderPaymentMethod === 'wallet') {
+      await clearOrderCart(order);
+    }
+    
     res.status(201).json({
       message: 'Order created successfully',
       order: {
         _id: order._id,
         totalAmount: order.totalAmount,
         shippingPrice: order.shippingPrice,
+        discountAmount: order.discountAmount,
+        couponCode: order.couponCode,
         grandTotal: order.grandTotal,
-        razorpayOrderId: razorpayOrderId
+        paymentMethod: order.paymentMethod,
+        paymentStatus: order.paymentStatus,
+        walletAmount: order.walletAmount,
+        amountDue: order.paymentStatus === 'completed' ? 0 : order.grandTotal - order.walletAmount,
+        razorpayOrderId: razorpayOrderId,
+        requiresPrescription: order.requiresPrescription,
+        prescriptionStatus: prescription ? prescription.status : undefined,
+        reservationExpiresAt: order.reservationExpiresAt,
+        vendorGroups: order.vendorGroups
       }
     });
   } catch (error: any) {
@@ -237,6 +446,9 @@ export const createOrder = catchAsyncError(async (req: Request, res: Response, n
     session.endSession();
     
     console.error('Error creating order:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
     return next(new AppError('Error creating order', 500));
   }
 });
@@ -279,34 +491,20 @@ export const verifyPayment = catchAsyncError(async (req: Request, res: Response,
         return next(new AppError('Order not found', 404));
       }
       
-      // Update order payment status
-      order.paymentStatus = 'completed';
-      order.razorpayPaymentId = razorpayPaymentId;
-      order.razorpaySignature = razorpaySignature;
-      
-      // Update stock quantities for vendor products
-      for (const item of order.vendorProducts) {
-        await VendorProduct.findByIdAndUpdate(
-          item.vendorProductId,
-          { $inc: { stock: -item.quantity } },
-          { session }
-        );
-      }
-      
-      await order.save({ session });
+      // Mark the order paid and convert its stock reservation (shared with the Razorpay webhook)
+      const result = await recordOrderPayment(order, razorpayPaymentId, session, razorpaySignature);
       
       // Commit transaction
       await session.commitTransaction();
       session.endSession();
       
-      // Clear user's cart after successful payment
-      try {
-        await Cart.findOneAndDelete({ userId: order.user });
-      } catch (cartError) {
-        console.warn('Failed to clear user cart after payment:', cartError);
-        // Don't fail the payment verification if cart clearing fails
+      if (result === 'refunded') {
+        return next(new AppError('Payment was received after the stock reservation expired. The order was cancelled and the payment refunded', 409));
       }
       
+      // Clear user's cart after successful payment
+      await clearOrderCart(order);
+      
       res.status(200).json({
         message: 'Payment verified successfully',
         order: {
@@ -329,6 +527,9 @@ export const verifyPayment = catchAsyncError(async (req: Request, res: Response,
       }
       
       console.error('Error verifying payment:', error);
+      if (error instanceof AppError) {
+        return next(error);
+      }
       return next(new AppError('Error verifying payment', 500));
     }
   }
@@ -390,6 +591,7 @@ export const cancelOrder = catchAsyncError(async (req: Request, res: Response, n
   try {
     const userId = req.user?._id;
     const { id } = req.params;
+    const { reason, items, refundTo } = req.body || {};
     
     if (!userId) {
       await session.abortTransaction();
@@ -409,19 +611,6 @@ export const cancelOrder = catchAsyncError(async (req: Request, res: Response, n
       return next(new AppError('Order not found', 404));
     }
     
-    // Check if order can be cancelled
-    if (order.orderStatus === 'delivered' || order.orderStatus === 'cancelled') {
-      await session.abortTransaction();
-      session.endSession();
-      return next(new AppError('Order cannot be cancelled', 400));
-    }
-    
-    // Store original payment status before updating
-    const originalPaymentStatus = order.paymentStatus;
-    
-    // Update order status
-    order.orderStatus = 'cancelled';
-    
     // Log order details for debugging
     console.log('Order details for cancellation:', {
       orderId: order._id,
@@ -431,137 +620,11 @@ export const cancelOrder = catchAsyncError(async (req: Request, res: Response, n
       razorpayOrderId: order.razorpayOrderId
     });
     
-    // If payment was completed, process refund automatically
-    if (order.paymentStatus === 'completed') {
-      // If using dummy implementation, skip actual refund
-      if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-        console.warn('Using dummy refund implementation');
-        order.paymentStatus = 'refunded';
-      } else {
-        // Process refund through Razorpay
-        try {
-          // Check if order has Razorpay payment ID
-          if (!order.razorpayPaymentId) {
-            await session.abortTransaction();
-            session.endSession();
-            return next(new AppError('Order does not have a valid Razorpay payment ID', 400));
-          }
-          
-          // Check if razorpay payments object exists
-          if (!razorpay || !razorpay.payments) {
-            await session.abortTransaction();
-            session.endSession();
-            return next(new AppError('Razorpay payments service not available', 500));
-          }
-          
-          // Check if refund function exists
-          if (typeof razorpay.payments.refund !== 'function') {
-            await session.abortTransaction();
-            session.endSession();
-            return next(new AppError('Razorpay refund function not available', 500));
-          }
-          
-          // Check if payment ID format is valid (should start with "pay_")
-          if (!order.razorpayPaymentId.startsWith('pay_')) {
-            await session.abortTransaction();
-            session.endSession();
-            return next(new AppError('Invalid Razorpay payment ID format', 400));
-          }
-          
-          console.log('Processing refund for order:', {
-            orderId: order._id,
-            paymentId: order.razorpayPaymentId,
-            paymentStatus: order.paymentStatus
-          });
-          
-          const refundData: any = {
-            payment_id: order.razorpayPaymentId
-          };
-          
-          console.log('Refund data being sent:', refundData);
-          
-          // Process refund through Razorpay
-          const refund = await razorpay.payments.refund(refundData);
-          
-          console.log('Refund response received:', refund);
-          
-          // Update order payment status and store refund ID
-          order.paymentStatus = 'refunded';
-          order.razorpayRefundId = refund.id;
-        } catch (refundError: any) {
-          console.error('Detailed refund error:', {
-            error: refundError,
-            message: refundError?.message,
-            description: refundError?.description,
-            errorObj: refundError?.error,
-            stack: refundError?.stack,
-            statusCode: refundError?.statusCode
-          });
-          
-          // For test environments, we might want to allow cancellation to proceed even if refund fails
-          // Check if we're using test keys
-          const isTestEnvironment = process.env.RAZORPAY_KEY_ID?.startsWith('rzp_test_');
-          
-          if (isTestEnvironment) {
-            // In test environment, log the error but allow cancellation to proceed
-            console.warn('Refund failed in test environment, but allowing cancellation to proceed:', refundError.message || 'Unknown error');
-            order.paymentStatus = 'refunded'; // Still mark as refunded for consistency
-          } else {
-            // In production, fail the cancellation if refund fails
-            await session.abortTransaction();
-            session.endSession();
-            
-            // Try to extract a meaningful error message
-            let errorMessage = 'Unknown error occurred during refund processing';
-            if (refundError) {
-              if (typeof refundError === 'string') {
-                errorMessage = refundError;
-              } else if (refundError.message) {
-                errorMessage = refundError.message;
-              } else if (refundError.description) {
-                errorMessage = refundError.description;
-              } else if (refundError.error) {
-                if (typeof refundError.error === 'string') {
-                  errorMessage = refundError.error;
-                } else if (refundError.error.description) {
-                  errorMessage = refundError.error.description;
-                } else if (refundError.error.reason) {
-                  errorMessage = refundError.error.reason;
-                } else {
-                  errorMessage = JSON.stringify(refundError.error);
-                }
-              } else if (refundError.statusCode) {
-                if (refundError.statusCode === 404) {
-                  errorMessage = 'Payment not found in Razorpay system. The payment ID may be invalid, from a different environment, or too old.';
-                } else if (refundError.statusCode === 400) {
-                  errorMessage = 'Bad request to Razorpay. The payment may have already been refunded or cannot be refunded.';
-                } else if (refundError.statusCode === 401) {
-                  errorMessage = 'Unauthorized access to Razorpay API. Please check your Razorpay API keys.';
-                } else {
-                  errorMessage = `Razorpay API error (Status: ${refundError.statusCode})`;
-                }
-              } else {
-                errorMessage = JSON.stringify(refundError);
-              }
-            }
-            
-            return next(new AppError(`Error processing refund: ${errorMessage}`, 500));
-          }
-        }
-      }
-    }
-    
-    await order.save({ session });
-    
-    // Restore stock quantities for vendor products if payment was completed
-    if (originalPaymentStatus === 'completed') {
-      for (const item of order.vendorProducts) {
-        await VendorProduct.findByIdAndUpdate(
-          item.vendorProductId,
-          { $inc: { stock: item.quantity } },
-          { session }
-        );
-      }
+    // The lifecycle service restocks and refunds only what is cancelled (selected lines, or the whole order)
+    if (items && items.length > 0) {
+      await cancelOrderItems(order, items, { id: userId, role: 'customer' }, { session, note: reason, refundTo });
+    } else {
+      await transitionOrder(order, 'cancelled', { id: userId, role: 'customer' }, { session, note: reason, refundTo });
     }
     
     // Commit transaction
@@ -569,11 +632,14 @@ export const cancelOrder = catchAsyncError(async (req: Request, res: Response, n
     session.endSession();
     
     res.status(200).json({
-      message: 'Order cancelled and refunded successfully',
+      message: items && items.length > 0 ? 'Order items cancelled successfully' : 'Order cancelled and refunded successfully',
       order: {
         _id: order._id,
         orderStatus: order.orderStatus,
-        paymentStatus: order.paymentStatus
+        paymentStatus: order.paymentStatus,
+        refundedAmount: order.refundedAmount,
+        vendorProducts: order.vendorProducts,
+        vendorGroups: order.vendorGroups
       }
     });
   } catch (error: any) {
@@ -581,10 +647,112 @@ export const cancelOrder = catchAsyncError(async (req: Request, res: Response, n
     session.endSession();
     
     console.error('Error cancelling order:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
     return next(new AppError('Error cancelling order', 500));
   }
 });
 
+// Attach a (new) prescription to an Rx order that is on hold
+export const attachOrderPrescription = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+  const { prescriptionId } = req.body;
+  
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+  
+  if (!prescriptionId || !mongoose.Types.ObjectId.isValid(prescriptionId)) {
+    return next(new AppError('Valid prescription ID is required', 400));
+  }
+  
+  const order = await Order.findOne({ _id: id, user: userId });
+  
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+  
+  if (!order.requiresPrescription) {
+    return next(new AppError('This order does not require a prescription', 400));
+  }
+  
+  if (order.orderStatus !== 'pending') {
+    return next(new AppError('Prescription can only be changed while the order is pending', 400));
+  }
+  
+  const prescription = await Prescription.findOne({ _id: prescriptionId, user: userId });
+  
+  if (!prescription) {
+    return next(new AppError('Prescription not found', 404));
+  }
+  
+  if (prescription.status === 'rejected') {
+    return next(new AppError('Cannot attach a rejected prescription', 400));
+  }
+  
+  if (prescription.order && !prescription.order.equals(order._id as mongoose.Types.ObjectId)) {
+    return next(new AppError(PRESCRIPTION_USED_MESSAGE, 400));
+  }
+  
+  // A prescription it replaces stays tied to this order, so it cannot clear another one
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  
+  try {
+    await claimPrescription(prescription._id as mongoose.Types.ObjectId, order._id as mongoose.Types.ObjectId, session);
+    
+    order.prescription = prescription._id as mongoose.Types.ObjectId;
+    await order.save({ session });
+    
+    // Commit transaction
+    await session.commitTransaction();
+    session.endSession();
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+    
+    console.error('Error attaching prescription:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error attaching prescription', 500));
+  }
+  
+  res.status(200).json({
+    message: 'Prescription attached to order successfully',
+    order: {
+      _id: order._id,
+      prescription: order.prescription,
+      prescriptionStatus: prescription.status
+    }
+  });
+});
+
+
+// Get refunds issued for a user's order
+export const getOrderRefunds = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+  
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+  
+  const order = await Order.findOne({ _id: id, user: userId }).select('grandTotal refundedAmount paymentStatus');
+  
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+  
+  const refunds = await Refund.find({ order: id }).sort({ createdAt: -1 });
+  
+  res.status(200).json({
+    order,
+    refunds
+  });
+});
 
 
 // ==================== ADMIN ORDER MANAGEMENT ====================
@@ -748,7 +916,7 @@ export const updateOrderStatusAdmin = catchAsyncError(async (req: Request, res:
   
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, note } = req.body;
     
     // Validate status
     const validStatuses = ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'];
@@ -767,9 +935,8 @@ export const updateOrderStatusAdmin = catchAsyncError(async (req: Request, res:
       return next(new AppError('Order not found', 404));
     }
     
-    // Update order status
-    order.orderStatus = status as any;
-    await order.save({ session });
+    // Guarded transition with side effects (stock, refunds, payouts) and status history
+    await transitionOrder(order, status, { id: req.user._id, role: 'admin' }, { session, note });
     
     // Commit transaction
     await session.commitTransaction();
@@ -787,10 +954,86 @@ export const updateOrderStatusAdmin = catchAsyncError(async (req: Request, res:
     session.endSession();
     
     console.error('Error updating order status:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
     return next(new AppError('Error updating order status', 500));
   }
 });
 
+// Cancel individual items of an order (admin)
+export const cancelOrderItemsAdmin = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  
+  try {
+    const { id } = req.params;
+    const { items, reason, refundTo } = req.body;
+    
+    const order = await Order.findById(id).session(session);
+    
+    if (!order) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Order not found', 404));
+    }
+    
+    await cancelOrderItems(order, items, { id: req.user._id, role: 'admin' }, { session, note: reason, refundTo });
+    
+    // Commit transaction
+    await session.commitTransaction();
+    session.endSession();
+    
+    res.status(200).json({
+      message: 'Order items cancelled successfully',
+      order: {
+        _id: order._id,
+        orderStatus: order.orderStatus,
+        paymentStatus: order.paymentStatus,
+        refundedAmount: order.refundedAmount,
+        vendorProducts: order.vendorProducts,
+        vendorGroups: order.vendorGroups
+      }
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+    
+    console.error('Error cancelling order items:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error cancelling order items', 500));
+  }
+});
+
+// Get all refunds (admin)
+export const getAdminRefunds = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10, gatewayStatus, type, orderId } = req.query;
+  
+  const filter: any = {};
+  if (gatewayStatus) {
+    filter.gatewayStatus = gatewayStatus;
+  }
+  if (type) {
+    filter.type = type;
+  }
+  if (orderId && mongoose.Types.ObjectId.isValid(orderId as string)) {
+    filter.order = orderId;
+  }
+  
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    populate: { path: 'user', select: 'firstName lastName email' }
+  };
+  
+  const result = await Refund.paginate(filter, options);
+  
+  res.status(200).json(result);
+});
+
 // ==================== VENDOR ORDER MANAGEMENT ====================
 
 // Get orders for a specific vendor
@@ -806,8 +1049,12 @@ export const getVendorOrders = catchAsyncError(async (req: Request, res: Respons
   // Build match conditions
   const matchConditions: any = {};
   
+  // Filter on the status of the vendor's own group (legacy orders without groups use the order status)
   if (status) {
-    matchConditions.orderStatus = status;
+    matchConditions.$or = [
+      { vendorGroups: { $elemMatch: { vendorId, status } } },
+      { 'vendorGroups.0': { $exists: false }, orderStatus: status }
+    ];
   }
   
   const pipeline: any[] = [
@@ -866,6 +1113,18 @@ export const getVendorOrders = catchAsyncError(async (req: Request, res: Respons
         paymentMethod: 1,
         paymentStatus: 1,
         orderStatus: 1,
+        vendorGroup: {
+          $arrayElemAt: [
+            {
+              $filter: {
+                input: '$vendorGroups',
+                as: 'group',
+                cond: { $eq: ['$$group.vendorId', vendorId] }
+              }
+            },
+            0
+          ]
+        },
         shippingAddress: 1,
         createdAt: 1,
         updatedAt: 1,
@@ -922,18 +1181,23 @@ export const getVendorOrderById = catchAsyncError(async (req: Request, res: Resp
     return next(new AppError('Order not found', 404));
   }
   
-  // Check if any vendor product in the order belongs to the vendor
-  const vendorProductIds = order.vendorProducts.map(item => item.vendorProductId);
-  const vendorProducts = await VendorProduct.find({
-    _id: { $in: vendorProductIds },
-    vendorId: vendorId
-  });
+  // Vendors only see their own fulfilment group and its lines
+  await ensureVendorGroups(order);
+  const vendorGroup = getVendorGroup(order, vendorId);
   
-  if (vendorProducts.length === 0) {
+  if (!vendorGroup) {
     return next(new AppError('Order not found or you do not have permission to view it', 404));
   }
   
-  res.status(200).json(order);
+  const orderObj: any = order.toObject();
+  delete orderObj.vendorGroups;
+  orderObj.vendorProducts = getVendorGroupItems(order, vendorGroup);
+  orderObj.vendorGroup = vendorGroup;
+  orderObj.statusHistory = order.statusHistory.filter(
+    entry => !entry.vendorId || entry.vendorId.toString() === vendorId.toString()
+  );
+  
+  res.status(200).json(orderObj);
 });
 
 // Update order status by vendor
@@ -944,14 +1208,14 @@ export const updateOrderStatusVendor = catchAsyncError(async (req: Request, res:
   try {
     const vendorId = req.user?._id;
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, note, trackingNumber, carrier } = req.body;
     
     if (!vendorId) {
       await session.abortTransaction();
       session.endSession();
       return next(new AppError('Vendor not authenticated', 401));
     }
-    console.log("OrderId",id)
+    
     // Validate status
     const validStatuses = ['confirmed', 'processing', 'shipped', 'delivered'];
     if (!validStatuses.includes(status)) {
@@ -972,54 +1236,22 @@ export const updateOrderStatusVendor = catchAsyncError(async (req: Request, res:
       return next(new AppError('Order not found', 404));
     }
     
-    // Check if any vendor product in the order belongs to the vendor
-    const vendorProductIds = order.vendorProducts.map(item => item.vendorProductId);
-    const vendorProducts = await VendorProduct.find({
-      _id: { $in: vendorProductIds },
-      vendorId: vendorId
-    }).session(session);
+    // Record shipment details on the vendor's own group before it moves to shipped
+    await ensureVendorGroups(order, session);
+    const vendorGroup = getVendorGroup(order, vendorId);
     
-    if (vendorProducts.length === 0) {
+    if (!vendorGroup) {
       await session.abortTransaction();
       session.endSession();
       return next(new AppError('Order not found or you do not have permission to update it', 404));
     }
     
-    // Check if status transition is valid
-    const currentStatus = order.orderStatus;
-    const validTransitions: any = {
-      'pending': ['confirmed'],
-      'confirmed': ['processing'],
-      'processing': ['shipped'],
-      'shipped': ['delivered']
-    };
-    
-    if (validTransitions[currentStatus] && !validTransitions[currentStatus].includes(status)) {
-      await session.abortTransaction();
-      session.endSession();
-      return next(new AppError(`Cannot change status from ${currentStatus} to ${status}`, 400));
+    if (trackingNumber) {
+      await createShipment(order, vendorGroup, { carrier, awbNumber: trackingNumber }, { id: vendorId, role: 'vendor' }, session);
     }
     
-    // Update order status
-    order.orderStatus = status as any;
-    await order.save({ session });
-    
-    // If order is confirmed, reduce stock
-    if (status === 'confirmed') {
-      for (const item of order.vendorProducts) {
-        // Only update stock for products belonging to this vendor
-        const vendorProduct = await VendorProduct.findOne({
-          _id: item.vendorProductId,
-          vendorId: vendorId
-        }).session(session);
-        
-        if (vendorProduct) {
-          // Reduce stock
-          vendorProduct.stock -= item.quantity;
-          await vendorProduct.save({ session });
-        }
-      }
-    }
+    // Only the vendor's group changes; the parent order status is derived from all groups
+    await transitionVendorGroup(order, vendorId, status, { id: vendorId, role: 'vendor' }, { session, note });
     
     // Commit transaction
     await session.commitTransaction();
@@ -1029,7 +1261,8 @@ export const updateOrderStatusVendor = catchAsyncError(async (req: Request, res:
       message: 'Order status updated successfully',
       order: {
         _id: order._id,
-        orderStatus: order.orderStatus
+        orderStatus: order.orderStatus,
+        vendorGroup: getVendorGroup(order, vendorId)
       }
     });
   } catch (error: any) {
@@ -1037,6 +1270,50 @@ export const updateOrderStatusVendor = catchAsyncError(async (req: Request, res:
     session.endSession();
     
     console.error('Error updating order status:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
     return next(new AppError('Error updating order status', 500));
   }
+});
+
+// Update shipment details of the vendor's fulfilment group
+export const updateVendorShipment = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+  const { id } = req.params;
+  const { trackingNumber, carrier } = req.body;
+  
+  if (!vendorId) {
+    return next(new AppError('Vendor not authenticated', 401));
+  }
+  
+  if (!trackingNumber) {
+    return next(new AppError('Tracking number is required', 400));
+  }
+  
+  const order = await Order.findById(id);
+  
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+  
+  await ensureVendorGroups(order);
+  const vendorGroup = getVendorGroup(order, vendorId);
+  
+  if (!vendorGroup) {
+    return next(new AppError('Order not found or you do not have permission to update it', 404));
+  }
+  
+  if (['delivered', 'cancelled'].includes(vendorGroup.status)) {
+    return next(new AppError(`Cannot update shipment details of a ${vendorGroup.status} order`, 400));
+  }
+  
+  // Recorded as a shipment so the customer can track it
+  await createShipment(order, vendorGroup, { carrier, awbNumber: trackingNumber }, { id: vendorId, role: 'vendor' });
+  await order.save();
+  
+  res.status(200).json({
+    message: 'Shipment details updated successfully',
+    vendorGroup
+  });
 });
\ No newline at end of file
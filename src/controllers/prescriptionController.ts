@@ -0,0 +1,326 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Prescription, { IPrescription } from '../models/prescription';
+import Order from '../models/order';
+import VendorProduct from '../models/vendorProduct';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+import { uploadPrescriptionFiles } from '../utils/cloudinary';
+
+const ALLOWED_PRESCRIPTION_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+// Helper to find the prescriptions a vendor may review: those attached to orders in which the
+// vendor's own lines are prescription-only (not every order that merely contains the vendor's products)
+const getVendorPrescriptionIds = async (vendorId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> => {
+  const rxListings = await VendorProduct.aggregate([
+    { $match: { vendorId: new mongoose.Types.ObjectId(vendorId.toString()) } },
+    {
+      $lookup: {
+        from: 'products',
+        localField: 'productId',
+        foreignField: '_id',
+        as: 'product'
+      }
+    },
+    { $match: { 'product.requiresPrescription': true } },
+    { $project: { _id: 1 } }
+  ]);
+
+  return Order.find({
+    'vendorProducts.vendorProductId': { $in: rxListings.map(listing => listing._id) },
+    prescription: { $exists: true }
+  }).distinct('prescription');
+};
+
+// Helper to record a pharmacist decision on a pending prescription
+const reviewPrescription = async (
+  prescription: IPrescription,
+  status: 'approved' | 'rejected',
+  reviewer: { _id: mongoose.Types.ObjectId; role: 'vendor' | 'admin' },
+  reason?: string
+): Promise<IPrescription> => {
+  prescription.status = status;
+  prescription.reviewedBy = reviewer._id;
+  prescription.reviewerRole = reviewer.role;
+  prescription.reviewedAt = new Date();
+  prescription.rejectionReason = status === 'rejected' ? reason : undefined;
+
+  return prescription.save();
+};
+
+// Helper to record a vendor pharmacist's decision. An approval only clears the vendor's own lines
+// (see assertPrescriptionCleared in orderLifecycle); a rejection stands for the whole prescription
+// so the customer uploads a new one.
+const reviewPrescriptionVendor = async (
+  prescription: IPrescription,
+  status: 'approved' | 'rejected',
+  vendorId: mongoose.Types.ObjectId,
+  reason?: string
+): Promise<IPrescription> => {
+  prescription.vendorReviews = prescription.vendorReviews.filter(review => !review.vendorId.equals(vendorId));
+  prescription.vendorReviews.push({
+    vendorId,
+    status,
+    reviewedAt: new Date(),
+    rejectionReason: status === 'rejected' ? reason : undefined
+  });
+
+  if (status === 'rejected') {
+    return reviewPrescription(prescription, 'rejected', { _id: vendorId, role: 'vendor' }, reason);
+  }
+  return prescription.save();
+};
+
+// ==================== CUSTOMER PRESCRIPTIONS ====================
+
+// Upload a prescription (images or PDF)
+export const uploadPrescription = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { patientName, doctorName, notes } = req.body;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  if (!req.files || !req.files.files) {
+    return next(new AppError('Please upload at least one prescription file', 400));
+  }
+
+  // Handle both single file and multiple files
+  const filesArray = Array.isArray(req.files.files) ? req.files.files : [req.files.files];
+
+  const invalidFile = filesArray.find(file => !ALLOWED_PRESCRIPTION_MIME_TYPES.includes(file.mimetype));
+  if (invalidFile) {
+    return next(new AppError(`Invalid file type for ${invalidFile.name}. Allowed types: JPEG, PNG, WEBP, PDF`, 400));
+  }
+
+  const files = await uploadPrescriptionFiles(filesArray, userId.toString());
+
+  const prescription = await Prescription.create({
+    user: userId,
+    files,
+    patientName,
+    doctorName,
+    notes,
+    status: 'pending'
+  });
+
+  res.status(201).json({
+    message: 'Prescription uploaded successfully. It will be verified by a pharmacist.',
+    prescription
+  });
+});
+
+// Get user's prescriptions
+export const getUserPrescriptions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const { page = 1, limit = 10, status } = req.query;
+
+  const filter: any = { user: userId };
+  if (status) {
+    filter.status = status;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 }
+  };
+
+  const result = await Prescription.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get user's prescription by ID
+export const getUserPrescriptionById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const prescription = await Prescription.findOne({ _id: id, user: userId });
+
+  if (!prescription) {
+    return next(new AppError('Prescription not found', 404));
+  }
+
+  res.status(200).json(prescription);
+});
+
+// ==================== ADMIN PRESCRIPTION REVIEW ====================
+
+// Get prescriptions for admin review
+export const getAdminPrescriptions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10, status = 'pending' } = req.query;
+
+  const filter: any = {};
+  if (status !== 'all') {
+    filter.status = status;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: 1 },
+    populate: { path: 'user', select: 'firstName lastName email phoneNumber' }
+  };
+
+  const result = await Prescription.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Approve prescription (admin)
+export const approvePrescriptionAdmin = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const prescription = await Prescription.findById(req.params.id);
+
+  if (!prescription) {
+    return next(new AppError('Prescription not found', 404));
+  }
+
+  if (prescription.status !== 'pending') {
+    return next(new AppError(`Prescription has already been ${prescription.status}`, 400));
+  }
+
+  await reviewPrescription(prescription, 'approved', { _id: req.user._id, role: 'admin' });
+
+  res.status(200).json({
+    message: 'Prescription approved successfully',
+    prescription
+  });
+});
+
+// Reject prescription (admin)
+export const rejectPrescriptionAdmin = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { reason } = req.body;
+  const prescription = await Prescription.findById(req.params.id);
+
+  if (!prescription) {
+    return next(new AppError('Prescription not found', 404));
+  }
+
+  if (prescription.status !== 'pending') {
+    return next(new AppError(`Prescription has already been ${prescription.status}`, 400));
+  }
+
+  await reviewPrescription(prescription, 'rejected', { _id: req.user._id, role: 'admin' }, reason);
+
+  res.status(200).json({
+    message: 'Prescription rejected successfully',
+    prescription
+  });
+});
+
+// ==================== VENDOR PRESCRIPTION REVIEW ====================
+
+// Get prescriptions attached to orders containing the vendor's products
+export const getVendorPrescriptions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+
+  if (!vendorId) {
+    return next(new AppError('Vendor not authenticated', 401));
+  }
+
+  const { page = 1, limit = 10, status = 'pending' } = req.query;
+
+  const prescriptionIds = await getVendorPrescriptionIds(vendorId);
+
+  // Pending means awaiting this vendor's decision; approved covers the vendor's own approvals too
+  const filter: any = { _id: { $in: prescriptionIds } };
+  if (status === 'pending') {
+    filter.status = 'pending';
+    filter['vendorReviews.vendorId'] = { $ne: vendorId };
+  } else if (status === 'approved') {
+    filter.$or = [
+      { status: 'approved' },
+      { status: 'pending', vendorReviews: { $elemMatch: { vendorId, status: 'approved' } } }
+    ];
+  } else if (status !== 'all') {
+    filter.status = status;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: 1 },
+    populate: { path: 'user', select: 'firstName lastName email phoneNumber' }
+  };
+
+  const result = await Prescription.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Approve prescription (vendor pharmacist)
+export const approvePrescriptionVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+
+  if (!vendorId) {
+    return next(new AppError('Vendor not authenticated', 401));
+  }
+
+  const prescriptionIds = await getVendorPrescriptionIds(vendorId);
+  if (!prescriptionIds.some(id => id.toString() === req.params.id)) {
+    return next(new AppError('Prescription not found or you do not have permission to review it', 404));
+  }
+
+  const prescription = await Prescription.findById(req.params.id);
+
+  if (!prescription) {
+    return next(new AppError('Prescription not found', 404));
+  }
+
+  if (prescription.status !== 'pending') {
+    return next(new AppError(`Prescription has already been ${prescription.status}`, 400));
+  }
+
+  if (prescription.vendorReviews.some(review => review.vendorId.equals(vendorId))) {
+    return next(new AppError('You have already reviewed this prescription', 400));
+  }
+
+  await reviewPrescriptionVendor(prescription, 'approved', vendorId);
+
+  res.status(200).json({
+    message: 'Prescription approved for your items',
+    prescription
+  });
+});
+
+// Reject prescription (vendor pharmacist)
+export const rejectPrescriptionVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+  const { reason } = req.body;
+
+  if (!vendorId) {
+    return next(new AppError('Vendor not authenticated', 401));
+  }
+
+  const prescriptionIds = await getVendorPrescriptionIds(vendorId);
+  if (!prescriptionIds.some(id => id.toString() === req.params.id)) {
+    return next(new AppError('Prescription not found or you do not have permission to review it', 404));
+  }
+
+  const prescription = await Prescription.findById(req.params.id);
+
+  if (!prescription) {
+    return next(new AppError('Prescription not found', 404));
+  }
+
+  if (prescription.status !== 'pending') {
+    return next(new AppError(`Prescription has already been ${prescription.status}`, 400));
+  }
+
+  await reviewPrescriptionVendor(prescription, 'rejected', vendorId, reason);
+
+  res.status(200).json({
+    message: 'Prescription rejected successfully',
+    prescription
+  });
+});
@@ -5,19 +5,27 @@ import Category from '../models/category';
 import Brand from '../models/brand';
 import VendorProduct from '../models/vendorProduct';
 import { Types } from 'mongoose';
+import { SELLING_PRICE_EXPRESSION } from '../services/pricingService';
+import { normalizePincode, checkServiceability, getUnserviceableVendorIds } from '../services/serviceabilityService';
+import { getPublishedQuestions } from '../services/questionService';
+import { searchListings } from '../services/searchService';
+import { getSuggestions, recordSearchQuery } from '../services/suggestService';
+import { getSubstitutes } from '../services/substituteService';
 
 // Get all products with filters and aggregation
 export const getAllProductsPost = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  const {  minPrice, maxPrice, sortBy, search, page = 1, limit = 10 } = req.query;
-  const {category,brand, subCategory}=req.body
+  const {  minPrice, maxPrice, minRating, sortBy, search, page = 1, limit = 10 } = req.query;
+  const {category,brand, subCategory, pincode}=req.body
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
+  } else if (sortBy === 'rating') {
+    sortConditions = { 'productDetails.averageRating': -1, 'productDetails.ratingCount': -1 };
   }
   
   const pipeline: any[] = [
@@ -82,6 +90,18 @@ export const getAllProductsPost = catchAsyncError(async (req: Request, res: Resp
     }
   ];
   
+  // Only show listings from vendors that deliver to the pincode, if provided
+  if (pincode) {
+    const unserviceableVendorIds = await getUnserviceableVendorIds(normalizePincode(pincode));
+    if (unserviceableVendorIds.length > 0) {
+      pipeline.push({
+        $match: {
+          vendorId: { $nin: unserviceableVendorIds }
+        }
+      });
+    }
+  }
+  
   // Add search filter if provided
   if (search && typeof search === 'string' && search.trim() !== '') {
     const searchRegex = new RegExp(search.trim(), 'i');
@@ -178,9 +198,26 @@ export const getAllProductsPost = catchAsyncError(async (req: Request, res: Resp
     if (maxPrice) {
       priceMatch.$lte = parseFloat(maxPrice as string);
     }
+    // Filter on the selling price (after the listing discount), as shown to customers
+    const priceConditions: any[] = [];
+    if (priceMatch.$gte !== undefined) {
+      priceConditions.push({ $gte: [SELLING_PRICE_EXPRESSION, priceMatch.$gte] });
+    }
+    if (priceMatch.$lte !== undefined) {
+      priceConditions.push({ $lte: [SELLING_PRICE_EXPRESSION, priceMatch.$lte] });
+    }
+    pipeline.push({
+      $match: {
+        $expr: { $and: priceConditions }
+      }
+    });
+  }
+  
+  // Add rating filter if provided (average of approved reviews)
+  if (minRating) {
     pipeline.push({
       $match: {
-        price: priceMatch
+        'productDetails.averageRating': { $gte: parseFloat(minRating as string) }
       }
     });
   }
@@ -190,6 +227,7 @@ export const getAllProductsPost = catchAsyncError(async (req: Request, res: Resp
     $project: {
       _id: 1,
       price: 1,
+      sellingPrice: SELLING_PRICE_EXPRESSION,
       discount: 1,
       shippingPrice: 1,
       totalPrice: 1,
@@ -204,6 +242,9 @@ export const getAllProductsPost = catchAsyncError(async (req: Request, res: Resp
         name: 1,
         description: 1,
         images: 1,
+        requiresPrescription: 1,
+        averageRating: 1,
+        ratingCount: 1,
         createdAt: 1,
         updatedAt: 1
       },
@@ -217,7 +258,9 @@ export const getAllProductsPost = catchAsyncError(async (req: Request, res: Resp
       },
       vendorDetails: {
         _id: 1,
-        businessName: 1
+        businessName: 1,
+        rating: 1,
+        ratingCount: 1
       }
     }
   });
@@ -239,6 +282,38 @@ export const getAllProductsPost = catchAsyncError(async (req: Request, res: Resp
   res.status(200).json(result);
 });
 
+// Check whether a product can be delivered to a pincode, with the estimated delivery date
+export const checkProductServiceability = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { vendorProductId } = req.params;
+  
+  if (!Types.ObjectId.isValid(vendorProductId)) {
+    return next(new AppError('Invalid vendor product ID', 400));
+  }
+  
+  const pincode = normalizePincode(req.query.pincode);
+  
+  const vendorProduct = await VendorProduct.findOne({ _id: vendorProductId, status: 'approved', isActive: true });
+  if (!vendorProduct) {
+    return next(new AppError('Product not found', 404));
+  }
+  
+  const results = await checkServiceability([vendorProduct.vendorId], pincode);
+  const result = results.get(vendorProduct.vendorId.toString())!;
+  
+  res.status(200).json({
+    success: true,
+    data: {
+      vendorProductId: vendorProduct._id,
+      pincode,
+      serviceable: result.serviceable,
+      reason: result.reason,
+      distanceKm: result.distanceKm,
+      deliveryDays: result.deliveryDays,
+      estimatedDeliveryDate: result.estimatedDeliveryDate
+    }
+  });
+});
+
 // Get products by category
 export const getProductsByCategory = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const { categoryId } = req.params;
@@ -247,9 +322,9 @@ export const getProductsByCategory = catchAsyncError(async (req: Request, res: R
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -323,6 +398,7 @@ export const getProductsByCategory = catchAsyncError(async (req: Request, res: R
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -333,6 +409,7 @@ export const getProductsByCategory = catchAsyncError(async (req: Request, res: R
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -375,9 +452,9 @@ export const getProductsByBrand = catchAsyncError(async (req: Request, res: Resp
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -451,6 +528,7 @@ export const getProductsByBrand = catchAsyncError(async (req: Request, res: Resp
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -461,6 +539,7 @@ export const getProductsByBrand = catchAsyncError(async (req: Request, res: Resp
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -498,6 +577,7 @@ export const getProductsByBrand = catchAsyncError(async (req: Request, res: Resp
 // Get product by ID with vendor details
 export const getProductById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const { vendorProductId } = req.params;
+  const { qaPage = 1, qaLimit = 5, qaSortBy, substitutesLimit = 5 } = req.query;
   
   const vendorProduct = await VendorProduct.aggregate([
     {
@@ -564,6 +644,7 @@ export const getProductById = catchAsyncError(async (req: Request, res: Response
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -574,6 +655,10 @@ export const getProductById = catchAsyncError(async (req: Request, res: Response
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
+          composition: 1,
+          averageRating: 1,
+          ratingCount: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -588,6 +673,8 @@ export const getProductById = catchAsyncError(async (req: Request, res: Response
         vendorDetails: {
           _id: 1,
           businessName: 1,
+          rating: 1,
+          ratingCount: 1,
           businessAddress: 1,
           businessPhone: 1,
           businessEmail: 1
@@ -600,146 +687,115 @@ export const getProductById = catchAsyncError(async (req: Request, res: Response
     return next(new AppError('Product not found', 404));
   }
   
-  res.status(200).json(vendorProduct[0]);
+  // Customer questions are about the catalogue product, so they are shared by every vendor's listing
+  const questions = await getPublishedQuestions(vendorProduct[0].productDetails._id, {
+    page: parseInt(qaPage as string),
+    limit: parseInt(qaLimit as string),
+    sortBy: qaSortBy as string | undefined
+  });
+  
+  // Cheapest listings with the same composition (or in the same generic group)
+  const substitutes = await getSubstitutes(vendorProduct[0].productDetails._id, {
+    page: 1,
+    limit: parseInt(substitutesLimit as string),
+    excludeVendorProductId: vendorProductId
+  });
+  
+  res.status(200).json({ ...vendorProduct[0], questions, substitutes });
 });
 
-// Search products by name or tags
-export const searchProducts = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  const { query, page = 1, limit = 10, sortBy } = req.query;
+// Get listings that can replace a product (same active ingredients, strength and form), cheapest first
+export const getProductSubstitutes = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { vendorProductId } = req.params;
+  const { page = 1, limit = 10, sortBy } = req.query;
   
-  if (!query) {
-    return next(new AppError('Search query is required', 400));
+  if (!Types.ObjectId.isValid(vendorProductId)) {
+    return next(new AppError('Invalid product ID', 400));
   }
   
-  // Build sort conditions
-  let sortConditions: any = { createdAt: -1 };
-  if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
-  } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
-  } else if (sortBy === 'name') {
-    sortConditions = { 'productDetails.name': 1 };
+  const vendorProduct = await VendorProduct.findOne(
+    { _id: vendorProductId, status: 'approved', isActive: true },
+    { productId: 1 }
+  );
+  if (!vendorProduct) {
+    return next(new AppError('Product not found', 404));
   }
   
-  const pipeline: any[] = [
-    {
-      $match: {
-        status: 'approved',
-        isActive: true
-      }
-    },
-    {
-      $lookup: {
-        from: 'products',
-        localField: 'productId',
-        foreignField: '_id',
-        as: 'productDetails'
-      }
-    },
-    {
-      $unwind: '$productDetails'
-    },
-    {
-      $match: {
-        $or: [
-          { 'productDetails.name': { $regex: query, $options: 'i' } },
-          { 'productDetails.tags': { $in: [query] } }
-        ]
-      }
-    },
-    {
-      $lookup: {
-        from: 'categories',
-        localField: 'productDetails.category',
-        foreignField: '_id',
-        as: 'categoryDetails'
-      }
-    },
-    {
-      $unwind: {
-        path: '$categoryDetails',
-        preserveNullAndEmptyArrays: true
-      }
-    },
-    {
-      $lookup: {
-        from: 'brands',
-        localField: 'productDetails.brand',
-        foreignField: '_id',
-        as: 'brandDetails'
-      }
-    },
-    {
-      $unwind: {
-        path: '$brandDetails',
-        preserveNullAndEmptyArrays: true
-      }
-    },
-    {
-      $lookup: {
-        from: 'vendors',
-        localField: 'vendorId',
-        foreignField: '_id',
-        as: 'vendorDetails'
-      }
-    },
-    {
-      $unwind: {
-        path: '$vendorDetails',
-        preserveNullAndEmptyArrays: true
-      }
-    },
-    {
-      $project: {
-        _id: 1,
-        price: 1,
-        stock: 1,
-        sku: 1,
-        isActive: 1,
-        createdAt: 1,
-        updatedAt: 1,
-        productDetails: {
-          _id: 1,
-          name: 1,
-          description: 1,
-          images: 1,
-          createdAt: 1,
-          updatedAt: 1
-        },
-        categoryDetails: {
-          _id: 1,
-          name: 1
-        },
-        brandDetails: {
-          _id: 1,
-          name: 1
-        },
-        vendorDetails: {
-          _id: 1,
-          businessName: 1,
-          businessAddress: 1,
-          businessPhone: 1,
-          businessEmail: 1
-        }
-      }
-    },
-    {
-      $sort: sortConditions
-    }
-  ];
+  const result = await getSubstitutes(vendorProduct.productId, {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sortBy: sortBy as string | undefined,
+    excludeVendorProductId: vendorProductId
+  });
   
-  // Use aggregate pagination
-  const options = {
+  res.status(200).json(result);
+});
+
+// Search products with relevance ranking, typo tolerance, synonyms and facet counts
+export const searchProducts = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const {
+    query,
+    page = 1,
+    limit = 10,
+    sortBy,
+    category,
+    subCategory,
+    brand,
+    vendor,
+    requiresPrescription,
+    inStock,
+    minPrice,
+    maxPrice,
+    minRating
+  } = req.query;
+  
+  if (!query || typeof query !== 'string' || query.trim() === '') {
+    return next(new AppError('Search query is required', 400));
+  }
+  
+  const result = await searchListings({
+    query,
+    filters: {
+      category: category as string | undefined,
+      subCategory: subCategory as string | undefined,
+      brand: brand as string | undefined,
+      vendor: vendor as string | undefined,
+      requiresPrescription: requiresPrescription !== undefined ? requiresPrescription === 'true' : undefined,
+      inStock: inStock === 'true',
+      minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
+      maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+      minRating: minRating ? parseFloat(minRating as string) : undefined
+    },
+    sortBy: sortBy as string | undefined,
     page: parseInt(page as string),
     limit: parseInt(limit as string)
-  };
+  });
   
-  const aggregate = VendorProduct.aggregate(pipeline);
-  const result = await (VendorProduct.aggregatePaginate as any)(aggregate, options);
+  // Count each search once (not every page of it) towards the popular searches
+  if (result.page === 1) {
+    recordSearchQuery(query, result.totalDocs, req.ip || 'unknown')
+      .catch(error => console.error('Error recording search query:', error));
+  }
   
   res.status(200).json(result);
 });
 
+// Get type-ahead suggestions (products, brands, categories and popular searches) for a prefix
+export const getSearchSuggestions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { q = '', limit = 5 } = req.query;
+  
+  if (typeof q !== 'string') {
+    return next(new AppError('Invalid search prefix', 400));
+  }
+  
+  const suggestions = await getSuggestions(q, Math.min(parseInt(limit as string) || 5, 10));
+  
+  res.status(200).json({
+    success: true,
+    data: suggestions
+  });
+});
+
 // Get featured products
 export const getFeaturedProducts = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -750,9 +806,9 @@ export const getFeaturedProducts = catchAsyncError(async (req: Request, res: Res
     // Build sort conditions
     let sortConditions: any = { createdAt: -1 };
     if (sortBy === 'price-low') {
-      sortConditions = { price: 1 };
+      sortConditions = { sellingPrice: 1 };
     } else if (sortBy === 'price-high') {
-      sortConditions = { price: -1 };
+      sortConditions = { sellingPrice: -1 };
     }
     
     // Use aggregation pipeline to safely handle ObjectId references
@@ -824,6 +880,7 @@ export const getFeaturedProducts = catchAsyncError(async (req: Request, res: Res
         $project: {
           _id: 1,
           price: 1,
+          sellingPrice: SELLING_PRICE_EXPRESSION,
           stock: 1,
           sku: 1,
           isActive: 1,
@@ -834,6 +891,7 @@ export const getFeaturedProducts = catchAsyncError(async (req: Request, res: Res
             name: 1,
             description: 1,
             images: 1,
+            requiresPrescription: 1,
             createdAt: 1,
             updatedAt: 1
           },
@@ -948,9 +1006,9 @@ export const getProductsOnSale = catchAsyncError(async (req: Request, res: Respo
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -1020,6 +1078,7 @@ export const getProductsOnSale = catchAsyncError(async (req: Request, res: Respo
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -1031,6 +1090,7 @@ export const getProductsOnSale = catchAsyncError(async (req: Request, res: Respo
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -1072,9 +1132,9 @@ export const getBestSellerProducts = catchAsyncError(async (req: Request, res: R
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -1144,6 +1204,7 @@ export const getBestSellerProducts = catchAsyncError(async (req: Request, res: R
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -1155,6 +1216,7 @@ export const getBestSellerProducts = catchAsyncError(async (req: Request, res: R
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -1196,9 +1258,9 @@ export const getNewArrivalProducts = catchAsyncError(async (req: Request, res: R
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -1268,6 +1330,7 @@ export const getNewArrivalProducts = catchAsyncError(async (req: Request, res: R
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -1279,6 +1342,7 @@ export const getNewArrivalProducts = catchAsyncError(async (req: Request, res: R
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -1320,9 +1384,9 @@ export const getLimitedEditionProducts = catchAsyncError(async (req: Request, re
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -1392,6 +1456,7 @@ export const getLimitedEditionProducts = catchAsyncError(async (req: Request, re
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -1403,6 +1468,7 @@ export const getLimitedEditionProducts = catchAsyncError(async (req: Request, re
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
@@ -1445,9 +1511,9 @@ export const getProductsBySubCategory = catchAsyncError(async (req: Request, res
   // Build sort conditions
   let sortConditions: any = { createdAt: -1 };
   if (sortBy === 'price-low') {
-    sortConditions = { 'vendorProducts.price': 1 };
+    sortConditions = { sellingPrice: 1 };
   } else if (sortBy === 'price-high') {
-    sortConditions = { 'vendorProducts.price': -1 };
+    sortConditions = { sellingPrice: -1 };
   } else if (sortBy === 'name') {
     sortConditions = { 'productDetails.name': 1 };
   }
@@ -1521,6 +1587,7 @@ export const getProductsBySubCategory = catchAsyncError(async (req: Request, res
       $project: {
         _id: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         stock: 1,
         sku: 1,
         isActive: 1,
@@ -1531,6 +1598,7 @@ export const getProductsBySubCategory = catchAsyncError(async (req: Request, res
           name: 1,
           description: 1,
           images: 1,
+          requiresPrescription: 1,
           createdAt: 1,
           updatedAt: 1
         },
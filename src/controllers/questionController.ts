@@ -0,0 +1,293 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import ProductQuestion, { IProductQuestion, IProductAnswer } from '../models/productQuestion';
+import Product from '../models/product';
+import VendorProduct from '../models/vendorProduct';
+import { getPublishedQuestions, sellsProduct } from '../services/questionService';
+import { postToInbox } from '../services/inboxService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Helper to add a vendor's or admin's answer to a question and tell the customer who asked
+const addAnswer = async (
+  question: IProductQuestion,
+  author: mongoose.Types.ObjectId,
+  authorRole: IProductAnswer['authorRole'],
+  answer: string
+): Promise<void> => {
+  question.answers.push({
+    author,
+    authorRole,
+    answer,
+    status: 'approved',
+    upvotes: [],
+    upvoteCount: 0,
+    createdAt: new Date()
+  });
+  await question.save();
+
+  await postToInbox([{ id: question.user, role: 'customer' }], {
+    type: 'question.answered',
+    title: 'Your question was answered',
+    message: `"${question.question.slice(0, 80)}" has a new answer`,
+    data: { questionId: question._id, productId: question.product }
+  });
+};
+
+// Helper to load a question by the ID in the route
+const findQuestion = async (id: string): Promise<IProductQuestion | null> => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new AppError('Invalid question ID', 400);
+  }
+  return ProductQuestion.findById(id);
+};
+
+// ==================== CUSTOMER QUESTIONS ====================
+
+// Ask a question about a product
+export const askQuestion = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { productId, question } = req.body;
+
+  const product = await Product.exists({ _id: productId });
+  if (!product) {
+    return next(new AppError('Product not found', 404));
+  }
+
+  const productQuestion = await ProductQuestion.create({
+    product: productId,
+    user: req.user._id,
+    question
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Question submitted and awaiting moderation',
+    data: productQuestion
+  });
+});
+
+// Get the logged in customer's questions with their answers
+export const getMyQuestions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10 } = req.query;
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    select: '-answers.upvotes -moderatedBy',
+    populate: { path: 'product', select: 'name images' }
+  };
+
+  const result = await ProductQuestion.paginate({ user: req.user._id }, options);
+
+  res.status(200).json(result);
+});
+
+// Delete one of the logged in customer's questions
+export const deleteMyQuestion = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid question ID', 400));
+  }
+
+  const question = await ProductQuestion.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+  if (!question) {
+    return next(new AppError('Question not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Question deleted successfully'
+  });
+});
+
+// Upvote (or remove the upvote of) an answer
+export const toggleAnswerUpvote = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user._id;
+  const { answerId } = req.params;
+
+  const question = await findQuestion(req.params.id);
+  const answer = question?.status === 'approved'
+    ? question.answers.find(a => a._id?.toString() === answerId && a.status === 'approved')
+    : undefined;
+
+  if (!question || !answer) {
+    return next(new AppError('Answer not found', 404));
+  }
+
+  // Conditional updates so repeated clicks cannot count a vote twice
+  const hasVoted = answer.upvotes.some(voter => voter.equals(userId));
+  const updated = hasVoted
+    ? await ProductQuestion.findOneAndUpdate(
+      { _id: question._id, answers: { $elemMatch: { _id: answer._id, upvotes: userId } } },
+      { $pull: { 'answers.$.upvotes': userId }, $inc: { 'answers.$.upvoteCount': -1 } },
+      { new: true }
+    )
+    : await ProductQuestion.findOneAndUpdate(
+      { _id: question._id, answers: { $elemMatch: { _id: answer._id, upvotes: { $ne: userId } } } },
+      { $addToSet: { 'answers.$.upvotes': userId }, $inc: { 'answers.$.upvoteCount': 1 } },
+      { new: true }
+    );
+
+  const current = (updated || await ProductQuestion.findById(question._id))!
+    .answers.find(a => a._id?.toString() === answerId)!;
+
+  res.status(200).json({
+    success: true,
+    upvoted: current.upvotes.some(voter => voter.equals(userId)),
+    upvoteCount: current.upvoteCount
+  });
+});
+
+// ==================== PUBLIC QUESTIONS ====================
+
+// Get the approved questions and answers of a product
+export const getProductQuestions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10, sortBy } = req.query;
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.productId)) {
+    return next(new AppError('Invalid product ID', 400));
+  }
+
+  const result = await getPublishedQuestions(req.params.productId, {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sortBy: sortBy as string | undefined
+  });
+
+  res.status(200).json(result);
+});
+
+// ==================== VENDOR ANSWERS ====================
+
+// Get questions about the products the logged in vendor sells
+export const getVendorQuestions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, unanswered } = req.query;
+
+  const productIds = await VendorProduct.distinct('productId', { vendorId: req.user._id, status: 'approved' });
+
+  const filter: any = { product: { $in: productIds }, status: { $ne: 'rejected' } };
+  if (unanswered === 'true') {
+    filter.answerCount = 0;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    select: '-answers.upvotes -moderatedBy',
+    populate: { path: 'product', select: 'name images' }
+  };
+
+  const result = await ProductQuestion.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Answer a question about a product the logged in vendor sells
+export const answerQuestionVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const question = await findQuestion(req.params.id);
+  if (!question || question.status === 'rejected') {
+    return next(new AppError('Question not found', 404));
+  }
+
+  if (!await sellsProduct(req.user._id, question.product)) {
+    return next(new AppError('You can only answer questions about products you sell', 403));
+  }
+
+  await addAnswer(question, req.user._id, 'vendor', req.body.answer);
+
+  res.status(201).json({
+    success: true,
+    message: 'Answer posted successfully',
+    data: question
+  });
+});
+
+// ==================== ADMIN MODERATION ====================
+
+// Get questions for moderation (admin)
+export const getQuestions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, status, productId, unanswered } = req.query;
+
+  const filter: any = {};
+  if (status) {
+    filter.status = status;
+  }
+  if (productId && mongoose.Types.ObjectId.isValid(productId as string)) {
+    filter.product = productId;
+  }
+  if (unanswered === 'true') {
+    filter.answerCount = 0;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    select: '-answers.upvotes',
+    populate: [
+      { path: 'user', select: 'firstName lastName email' },
+      { path: 'product', select: 'name' }
+    ]
+  };
+
+  const result = await ProductQuestion.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Approve or reject a question (admin)
+export const moderateQuestion = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { status, moderationNote } = req.body;
+
+  const question = await findQuestion(req.params.id);
+  if (!question) {
+    return next(new AppError('Question not found', 404));
+  }
+
+  question.status = status;
+  question.moderationNote = moderationNote;
+  question.moderatedBy = req.user._id;
+  question.moderatedAt = new Date();
+  await question.save();
+
+  res.status(200).json({
+    success: true,
+    message: `Question ${status} successfully`,
+    data: question
+  });
+});
+
+// Answer a question (admin)
+export const answerQuestionAdmin = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const question = await findQuestion(req.params.id);
+  if (!question) {
+    return next(new AppError('Question not found', 404));
+  }
+
+  await addAnswer(question, req.user._id, 'admin', req.body.answer);
+
+  res.status(201).json({
+    success: true,
+    message: 'Answer posted successfully',
+    data: question
+  });
+});
+
+// Hide or restore an answer (admin)
+export const moderateAnswer = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const question = await findQuestion(req.params.id);
+  const answer = question?.answers.find(a => a._id?.toString() === req.params.answerId);
+
+  if (!question || !answer) {
+    return next(new AppError('Answer not found', 404));
+  }
+
+  answer.status = req.body.status;
+  await question.save();
+
+  res.status(200).json({
+    success: true,
+    message: `Answer ${req.body.status} successfully`,
+    data: question
+  });
+});
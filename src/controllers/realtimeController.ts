@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { subscribe } from '../services/realtimeService';
+import { catchAsyncError } from '../utils/errorHandler';
+
+// ==================== REAL-TIME EVENTS ====================
+
+// Open a Server-Sent Events stream of the logged in user's, vendor's or admin's order, stock and payment events
+export const streamEvents = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+  });
+
+  // Tell EventSource how long to wait before reconnecting, and confirm who the stream is for
+  res.write('retry: 5000\n\n');
+  res.write(`event: connected\ndata: ${JSON.stringify({ role: req.user.role, id: req.user._id })}\n\n`);
+
+  const unsubscribe = subscribe(req.user.role, req.user._id, res);
+  req.on('close', unsubscribe);
+});
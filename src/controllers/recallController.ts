@@ -0,0 +1,328 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Recall, { IRecall, IRecallOrder, IRecallOrderItem } from '../models/recall';
+import Product from '../models/product';
+import VendorProduct from '../models/vendorProduct';
+import Order from '../models/order';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Recall order statuses that count as closed out
+const TERMINAL_RECALL_ORDER_STATUSES = ['resolved', 'unreachable'];
+
+// Helper to split a batch number into its prefix and numeric suffix ("B-24-0012" -> "B-24-", 12)
+const parseBatchNumber = (batchNumber: string): { prefix: string; number: bigint } | null => {
+  const match = batchNumber.trim().toUpperCase().match(/^(.*?)(\d+)$/);
+  return match ? { prefix: match[1], number: BigInt(match[2]) } : null;
+};
+
+// Helper to check a batch range can be compared numerically: both bounds end in a number,
+// share a prefix and are in order. Other ranges must be sent as an explicit batchNumbers list.
+const parseBatchRange = (batchRange: { from: string; to: string }) => {
+  const from = parseBatchNumber(batchRange.from);
+  const to = parseBatchNumber(batchRange.to);
+  if (!from || !to || from.prefix !== to.prefix || from.number > to.number) {
+    return null;
+  }
+  return { prefix: from.prefix, from: from.number, to: to.number };
+};
+
+// Helper to build a batch matcher from an explicit list and/or an inclusive range of batch numbers.
+// Range bounds are compared by prefix and number, so B9 to B12 covers B10 and B100 to B200 excludes B1999.
+const buildBatchMatcher = (batchNumbers: string[], batchRange?: { from: string; to: string }) => {
+  const normalizedNumbers = batchNumbers.map(bn => bn.trim().toUpperCase());
+  const range = batchRange ? parseBatchRange(batchRange) : null;
+  const hasFilter = normalizedNumbers.length > 0 || !!range;
+
+  const matches = (batchNumber: string): boolean => {
+    if (!hasFilter) return true;
+    if (normalizedNumbers.includes(batchNumber.trim().toUpperCase())) return true;
+    if (!range) return false;
+
+    const parsed = parseBatchNumber(batchNumber);
+    return !!parsed && parsed.prefix === range.prefix && parsed.number >= range.from && parsed.number <= range.to;
+  };
+
+  return { hasFilter, matches };
+};
+
+// Helper to summarize per-order recall status counts
+const buildRecallSummary = (recall: IRecall) => {
+  const byStatus: Record<string, number> = {};
+  let unitsAffected = 0;
+
+  recall.affectedOrders.forEach(entry => {
+    byStatus[entry.status] = (byStatus[entry.status] || 0) + 1;
+    entry.items.forEach(item => {
+      unitsAffected += item.quantity;
+    });
+  });
+
+  return {
+    totalOrders: recall.affectedOrders.length,
+    customersAffected: new Set(recall.affectedOrders.map(entry => entry.user.toString())).size,
+    unitsAffected,
+    untraceableOrders: recall.affectedOrders.filter(entry => entry.batchUnknown).length,
+    listingsDeactivated: recall.deactivatedVendorProducts.length,
+    byStatus
+  };
+};
+
+// ==================== PRODUCT RECALLS ====================
+
+// Initiate a product recall (optionally limited to batches)
+export const createRecall = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { productId, reason, batchNumbers = [], batchRange } = req.body;
+
+    if (!productId || !mongoose.Types.ObjectId.isValid(productId)) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Valid product ID is required', 400));
+    }
+
+    // A range that cannot be compared would silently miss batches
+    if (batchRange && !parseBatchRange(batchRange)) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Batch range bounds must share a prefix and end in a number, with from before to (e.g. B009 to B120); list other batches in batchNumbers', 400));
+    }
+
+    const product = await Product.findById(productId).session(session);
+    if (!product) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Product not found', 404));
+    }
+
+    const { hasFilter, matches } = buildBatchMatcher(batchNumbers, batchRange);
+
+    // Deactivate every listing of the product that holds (or may hold) a recalled batch
+    const vendorProducts = await VendorProduct.find({ productId }).session(session);
+    const vendorIdByListing = new Map<string, mongoose.Types.ObjectId>();
+    const deactivatedVendorProducts: mongoose.Types.ObjectId[] = [];
+
+    for (const vendorProduct of vendorProducts) {
+      const listingId = vendorProduct._id as mongoose.Types.ObjectId;
+      vendorIdByListing.set(listingId.toString(), vendorProduct.vendorId);
+
+      // Listings without batch tracking cannot be ruled out, so they are treated as affected
+      const recalledBatches = vendorProduct.batches.filter(batch => matches(batch.batchNumber));
+      const isAffected = !hasFilter || vendorProduct.batches.length === 0 || recalledBatches.length > 0;
+      if (!isAffected) continue;
+
+      // Quarantine the recalled batches so they can never be allocated again
+      recalledBatches.forEach(batch => {
+        batch.isRecalled = true;
+      });
+      vendorProduct.isActive = false;
+      await vendorProduct.save({ session });
+      deactivatedVendorProducts.push(listingId);
+    }
+
+    // Trace every non-cancelled order that contained a listing of the product
+    const orders = await Order.find({
+      'vendorProducts.vendorProductId': { $in: vendorProducts.map(vp => vp._id) },
+      orderStatus: { $ne: 'cancelled' }
+    })
+      .populate('user', 'firstName lastName email phoneNumber')
+      .session(session);
+
+    const affectedOrders: IRecallOrder[] = [];
+
+    for (const order of orders) {
+      const items: IRecallOrderItem[] = [];
+      let batchUnknown = false;
+
+      for (const line of order.vendorProducts) {
+        const vendorId = vendorIdByListing.get(line.vendorProductId.toString());
+        if (!vendorId) continue;
+
+        if (line.batches && line.batches.length > 0) {
+          line.batches
+            .filter(allocation => matches(allocation.batchNumber))
+            .forEach(allocation => {
+              items.push({
+                vendorProductId: line.vendorProductId,
+                vendorId,
+                batchNumber: allocation.batchNumber,
+                quantity: allocation.quantity
+              });
+            });
+        } else {
+          // Order line predates batch tracking (or stock was never allocated)
+          if (hasFilter) batchUnknown = true;
+          items.push({
+            vendorProductId: line.vendorProductId,
+            vendorId,
+            quantity: line.quantity
+          });
+        }
+      }
+
+      if (items.length === 0) continue;
+
+      const customer: any = order.user;
+      affectedOrders.push({
+        order: order._id as mongoose.Types.ObjectId,
+        user: customer?._id || order.user,
+        customer: {
+          name: customer?.firstName ? `${customer.firstName} ${customer.lastName}` : order.shippingAddress.name,
+          email: customer?.email,
+          phone: customer?.phoneNumber || order.shippingAddress.phone,
+          address: [
+            order.shippingAddress.street,
+            order.shippingAddress.city,
+            order.shippingAddress.state,
+            order.shippingAddress.zipCode,
+            order.shippingAddress.country
+          ].filter(Boolean).join(', ')
+        },
+        items,
+        batchUnknown,
+        status: 'pending'
+      });
+    }
+
+    const recall = new Recall({
+      product: productId,
+      reason,
+      batchNumbers,
+      batchRange,
+      status: 'open',
+      initiatedBy: req.user._id,
+      deactivatedVendorProducts,
+      affectedOrders
+    });
+
+    await recall.save({ session });
+
+    await session.commitTransaction();
+    session.endSession();
+
+    res.status(201).json({
+      message: 'Recall initiated successfully',
+      recall,
+      summary: buildRecallSummary(recall)
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error creating recall:', error);
+    return next(new AppError('Error creating recall', 500));
+  }
+});
+
+// Get all recalls
+export const getRecalls = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10, status, productId } = req.query;
+
+  const filter: any = {};
+  if (status) {
+    filter.status = status;
+  }
+  if (productId && mongoose.Types.ObjectId.isValid(productId as string)) {
+    filter.product = productId;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    select: '-affectedOrders',
+    populate: { path: 'product', select: 'name' }
+  };
+
+  const result = await Recall.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get recall report by ID
+export const getRecallById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { status } = req.query;
+
+  const recall = await Recall.findById(req.params.id)
+    .populate('product', 'name')
+    .populate('affectedOrders.items.vendorId', 'businessName businessEmail businessPhone');
+
+  if (!recall) {
+    return next(new AppError('Recall not found', 404));
+  }
+
+  const recallObj: any = recall.toObject();
+  if (status) {
+    recallObj.affectedOrders = recallObj.affectedOrders.filter((entry: any) => entry.status === status);
+  }
+
+  res.status(200).json({
+    recall: recallObj,
+    summary: buildRecallSummary(recall)
+  });
+});
+
+// Update recall status of an affected order
+export const updateRecallOrderStatus = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { id, orderId } = req.params;
+  const { status, notes } = req.body;
+
+  const recall = await Recall.findById(id);
+
+  if (!recall) {
+    return next(new AppError('Recall not found', 404));
+  }
+
+  if (recall.status === 'closed') {
+    return next(new AppError('Recall is already closed', 400));
+  }
+
+  const entry = recall.affectedOrders.find(affected => affected.order.toString() === orderId);
+  if (!entry) {
+    return next(new AppError('Order is not part of this recall', 404));
+  }
+
+  if (status) entry.status = status;
+  if (notes !== undefined) entry.notes = notes;
+  entry.updatedAt = new Date();
+
+  await recall.save();
+
+  res.status(200).json({
+    message: 'Recall order status updated successfully',
+    affectedOrder: entry,
+    summary: buildRecallSummary(recall)
+  });
+});
+
+// Close a recall once every affected order is resolved
+export const closeRecall = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const recall = await Recall.findById(req.params.id);
+
+  if (!recall) {
+    return next(new AppError('Recall not found', 404));
+  }
+
+  if (recall.status === 'closed') {
+    return next(new AppError('Recall is already closed', 400));
+  }
+
+  const openOrders = recall.affectedOrders.filter(
+    entry => !TERMINAL_RECALL_ORDER_STATUSES.includes(entry.status)
+  );
+  if (openOrders.length > 0) {
+    return next(new AppError(`Cannot close recall. ${openOrders.length} affected order(s) are not yet resolved`, 400));
+  }
+
+  recall.status = 'closed';
+  recall.closedAt = new Date();
+  await recall.save();
+
+  res.status(200).json({
+    message: 'Recall closed successfully',
+    recall,
+    summary: buildRecallSummary(recall)
+  });
+});
@@ -0,0 +1,471 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Order, { IOrder } from '../models/order';
+import ReturnRequest, { IReturnRequest, IReturnItem } from '../models/returnRequest';
+import { ensureVendorGroups } from '../services/orderLifecycle';
+import {
+  assertReturnWindowOpen,
+  getReturnableQuantity,
+  changeReturnStatus,
+  receiveReturn,
+  ReturnActor
+} from '../services/returnService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+import { uploadReturnPhotos } from '../utils/cloudinary';
+
+const ALLOWED_RETURN_PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Helper to apply a vendor/admin status update to a return request
+const updateReturnStatus = async (
+  returnRequest: IReturnRequest,
+  body: any,
+  actor: ReturnActor,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  const { status, note, rejectionReason, pickup, items = [] } = body;
+
+  if (status === 'received') {
+    const order = await Order.findById(returnRequest.order).session(session);
+    if (!order) {
+      throw new AppError('Order not found', 404);
+    }
+
+    // Restocks resellable items and issues the refund
+    await receiveReturn(returnRequest, order, items, actor, session);
+    return;
+  }
+
+  changeReturnStatus(returnRequest, status, actor, note || rejectionReason);
+
+  if (status === 'rejected') {
+    returnRequest.rejectionReason = rejectionReason;
+  } else if (status === 'pickup_scheduled') {
+    returnRequest.pickup = {
+      scheduledFor: pickup?.scheduledFor,
+      carrier: pickup?.carrier,
+      trackingNumber: pickup?.trackingNumber
+    };
+  } else if (status === 'picked_up') {
+    returnRequest.pickup = {
+      ...(returnRequest.pickup || {}),
+      pickedUpAt: new Date()
+    };
+  }
+
+  await returnRequest.save({ session });
+};
+
+// Helper to check the requested lines of a return against what can still be returned, grouped
+// by the vendor that sold them. Quantities of a product listed more than once are added up.
+const collectReturnItems = async (
+  order: IOrder,
+  items: Array<{ vendorProductId: string; quantity: number; reason?: string }>,
+  session?: mongoose.ClientSession
+): Promise<Map<string, { vendorId: mongoose.Types.ObjectId; items: IReturnItem[] }>> => {
+  const itemsByVendor = new Map<string, { vendorId: mongoose.Types.ObjectId; items: IReturnItem[] }>();
+
+  for (const item of items) {
+    const quantity = Number(item.quantity);
+    const orderItem = order.vendorProducts.find(line => line.vendorProductId.toString() === item.vendorProductId);
+
+    if (!orderItem || !orderItem.vendorId) {
+      throw new AppError(`Vendor product ${item.vendorProductId} is not part of this order`, 404);
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new AppError(`Invalid quantity for vendor product ${item.vendorProductId}`, 400);
+    }
+
+    assertReturnWindowOpen(order, orderItem.vendorId);
+
+    const key = orderItem.vendorId.toString();
+    const entry = itemsByVendor.get(key) || { vendorId: orderItem.vendorId, items: [] };
+    const existing = entry.items.find(line => line.vendorProductId.equals(orderItem.vendorProductId));
+    const requested = (existing ? existing.quantity : 0) + quantity;
+
+    const returnable = await getReturnableQuantity(order, orderItem, session);
+    if (requested > returnable) {
+      throw new AppError(`Cannot return ${requested} unit(s) of vendor product ${item.vendorProductId}. Returnable: ${returnable}`, 400);
+    }
+
+    if (existing) {
+      existing.quantity = requested;
+    } else {
+      entry.items.push({
+        vendorProductId: orderItem.vendorProductId,
+        quantity,
+        price: orderItem.price,
+        reason: item.reason,
+        restocked: false
+      });
+    }
+    itemsByVendor.set(key, entry);
+  }
+
+  return itemsByVendor;
+};
+
+// ==================== CUSTOMER RETURNS ====================
+
+// Open return requests for delivered order lines (one per vendor)
+export const createReturnRequest = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+  const { reason } = req.body;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  // Items arrive as a JSON string when photos are sent as multipart form data
+  let items: Array<{ vendorProductId: string; quantity: number; reason?: string }>;
+  try {
+    items = typeof req.body.items === 'string' ? JSON.parse(req.body.items) : req.body.items;
+  } catch (error) {
+    return next(new AppError('Items must be a valid JSON array', 400));
+  }
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return next(new AppError('Select at least one item to return', 400));
+  }
+
+  const photoFiles = req.files?.photos
+    ? (Array.isArray(req.files.photos) ? req.files.photos : [req.files.photos])
+    : [];
+
+  const invalidFile = photoFiles.find(file => !ALLOWED_RETURN_PHOTO_MIME_TYPES.includes(file.mimetype));
+  if (invalidFile) {
+    return next(new AppError(`Invalid file type for ${invalidFile.name}. Allowed types: JPEG, PNG, WEBP`, 400));
+  }
+
+  const order = await Order.findOne({ _id: id, user: userId });
+
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+
+  await ensureVendorGroups(order);
+
+  // Check every line before uploading or opening anything
+  try {
+    await collectReturnItems(order, items);
+  } catch (error: any) {
+    return next(error);
+  }
+
+  const photos = photoFiles.length > 0 ? await uploadReturnPhotos(photoFiles, userId.toString()) : [];
+
+  // Check again and open the returns in one transaction, so two requests sent at the same time
+  // cannot both return the same units
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  let returnRequests: IReturnRequest[];
+  try {
+    const current = await Order.findOne({ _id: id, user: userId }).session(session);
+
+    if (!current) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Order not found', 404));
+    }
+
+    await ensureVendorGroups(current, session);
+    const itemsByVendor = await collectReturnItems(current, items, session);
+
+    // Writing the order makes a concurrent request for it conflict instead of missing this one
+    await Order.updateOne({ _id: current._id }, { $set: { updatedAt: new Date() } }, { session });
+
+    returnRequests = await ReturnRequest.create(
+      Array.from(itemsByVendor.values()).map(entry => ({
+        order: current._id,
+        user: userId,
+        vendorId: entry.vendorId,
+        items: entry.items,
+        reason,
+        photos,
+        status: 'requested',
+        history: [{
+          status: 'requested',
+          changedBy: userId,
+          actorRole: 'customer',
+          note: reason,
+          changedAt: new Date()
+        }]
+      })),
+      { session }
+    );
+
+    // Commit transaction
+    await session.commitTransaction();
+    session.endSession();
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error creating return request:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    if (error.code === 112) { // WriteConflict error
+      return next(new AppError('Another return request for this order is being processed. Please try again', 409));
+    }
+    return next(new AppError('Error creating return request', 500));
+  }
+
+  res.status(201).json({
+    message: 'Return requested successfully. The seller will review it shortly.',
+    returns: returnRequests
+  });
+});
+
+// Get return requests of a user's order
+export const getOrderReturns = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const returns = await ReturnRequest.find({ order: id, user: userId })
+    .populate('refund', 'amount gatewayStatus processedAt')
+    .sort({ createdAt: -1 });
+
+  res.status(200).json(returns);
+});
+
+// Get a return request of a user's order
+export const getOrderReturnById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id, returnId } = req.params;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const returnRequest = await ReturnRequest.findOne({ _id: returnId, order: id, user: userId })
+    .populate('refund', 'amount gatewayStatus processedAt')
+    .populate({
+      path: 'items.vendorProductId',
+      populate: { path: 'productId', select: 'name images' }
+    });
+
+  if (!returnRequest) {
+    return next(new AppError('Return request not found', 404));
+  }
+
+  res.status(200).json(returnRequest);
+});
+
+// Withdraw a return request before it is picked up
+export const cancelReturnRequest = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id, returnId } = req.params;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const returnRequest = await ReturnRequest.findOne({ _id: returnId, order: id, user: userId });
+
+  if (!returnRequest) {
+    return next(new AppError('Return request not found', 404));
+  }
+
+  try {
+    changeReturnStatus(returnRequest, 'cancelled', { id: userId, role: 'customer' }, req.body?.reason);
+  } catch (error: any) {
+    return next(error);
+  }
+
+  await returnRequest.save();
+
+  res.status(200).json({
+    message: 'Return request cancelled successfully',
+    returnRequest
+  });
+});
+
+// ==================== VENDOR RETURNS ====================
+
+// Get return requests for a vendor's order lines
+export const getVendorReturns = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+
+  if (!vendorId) {
+    return next(new AppError('Vendor not authenticated', 401));
+  }
+
+  const { page = 1, limit = 10, status } = req.query;
+
+  const filter: any = { vendorId };
+  if (status) {
+    filter.status = status;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    populate: [
+      { path: 'user', select: 'firstName lastName email phoneNumber' },
+      { path: 'order', select: 'shippingAddress createdAt' }
+    ]
+  };
+
+  const result = await ReturnRequest.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get a return request for a vendor's order lines
+export const getVendorReturnById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+
+  if (!vendorId) {
+    return next(new AppError('Vendor not authenticated', 401));
+  }
+
+  const returnRequest = await ReturnRequest.findOne({ _id: req.params.returnId, vendorId })
+    .populate('user', 'firstName lastName email phoneNumber')
+    .populate('order', 'shippingAddress createdAt')
+    .populate('refund', 'amount gatewayStatus processedAt')
+    .populate({
+      path: 'items.vendorProductId',
+      populate: { path: 'productId', select: 'name images isReturnable' }
+    });
+
+  if (!returnRequest) {
+    return next(new AppError('Return request not found', 404));
+  }
+
+  res.status(200).json(returnRequest);
+});
+
+// Update a return request (approve, reject, schedule pickup, mark picked up or received) by vendor
+export const updateReturnStatusVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const vendorId = req.user?._id;
+
+    if (!vendorId) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Vendor not authenticated', 401));
+    }
+
+    const returnRequest = await ReturnRequest.findOne({ _id: req.params.returnId, vendorId }).session(session);
+
+    if (!returnRequest) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Return request not found', 404));
+    }
+
+    await updateReturnStatus(returnRequest, req.body, { id: vendorId, role: 'vendor' }, session);
+
+    // Commit transaction
+    await session.commitTransaction();
+    session.endSession();
+
+    res.status(200).json({
+      message: 'Return request updated successfully',
+      returnRequest
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error updating return request:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error updating return request', 500));
+  }
+});
+
+// ==================== ADMIN RETURNS ====================
+
+// Get all return requests (admin)
+export const getAdminReturns = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10, status, vendorId } = req.query;
+
+  const filter: any = {};
+  if (status) {
+    filter.status = status;
+  }
+  if (vendorId && mongoose.Types.ObjectId.isValid(vendorId as string)) {
+    filter.vendorId = vendorId;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    populate: [
+      { path: 'user', select: 'firstName lastName email phoneNumber' },
+      { path: 'order', select: 'shippingAddress createdAt' }
+    ]
+  };
+
+  const result = await ReturnRequest.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get a return request (admin)
+export const getAdminReturnById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const returnRequest = await ReturnRequest.findById(req.params.returnId)
+    .populate('user', 'firstName lastName email phoneNumber')
+    .populate('order', 'shippingAddress createdAt paymentMethod paymentStatus')
+    .populate('refund')
+    .populate({
+      path: 'items.vendorProductId',
+      populate: { path: 'productId vendorId', select: 'name images isReturnable businessName' }
+    });
+
+  if (!returnRequest) {
+    return next(new AppError('Return request not found', 404));
+  }
+
+  res.status(200).json(returnRequest);
+});
+
+// Update any return request (admin)
+export const updateReturnStatusAdmin = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const returnRequest = await ReturnRequest.findById(req.params.returnId).session(session);
+
+    if (!returnRequest) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Return request not found', 404));
+    }
+
+    await updateReturnStatus(returnRequest, req.body, { id: req.user._id, role: 'admin' }, session);
+
+    // Commit transaction
+    await session.commitTransaction();
+    session.endSession();
+
+    res.status(200).json({
+      message: 'Return request updated successfully',
+      returnRequest
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error updating return request:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error updating return request', 500));
+  }
+});
@@ -0,0 +1,365 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Review, { IReview, ReviewTarget } from '../models/review';
+import Product from '../models/product';
+import Vendor from '../models/vendors';
+import {
+  findProductPurchase,
+  findVendorPurchase,
+  refreshRatingSummary,
+  getRatingBreakdown
+} from '../services/reviewService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Reviewer details shown with public reviews
+const REVIEWER_FIELDS = 'firstName lastName';
+
+// Helper to recalculate the rating of whatever a review is about
+const refreshReviewTarget = async (review: IReview): Promise<void> => {
+  const targetId = review.targetType === 'product' ? review.product! : review.vendor;
+  await refreshRatingSummary(review.targetType, targetId);
+};
+
+// Helper to build the sort of a public review listing
+const getReviewSort = (sortBy: unknown): Record<string, 1 | -1> => {
+  if (sortBy === 'helpful') {
+    return { helpfulCount: -1, createdAt: -1 };
+  } else if (sortBy === 'rating-high') {
+    return { rating: -1, createdAt: -1 };
+  } else if (sortBy === 'rating-low') {
+    return { rating: 1, createdAt: -1 };
+  }
+  return { createdAt: -1 };
+};
+
+// Helper to list the approved reviews of a product or vendor with its rating summary
+const listApprovedReviews = async (
+  req: Request,
+  targetType: ReviewTarget,
+  targetId: mongoose.Types.ObjectId,
+  summary: { averageRating: number; ratingCount: number }
+): Promise<any> => {
+  const { page = 1, limit = 10, rating, verified, sortBy } = req.query;
+
+  const filter: any = { targetType, [targetType]: targetId, status: 'approved' };
+  if (rating) {
+    filter.rating = parseInt(rating as string);
+  }
+  if (verified === 'true') {
+    filter.isVerifiedPurchase = true;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: getReviewSort(sortBy),
+    select: '-helpfulVotes -moderatedBy -moderationNote',
+    populate: { path: 'user', select: REVIEWER_FIELDS }
+  };
+
+  const result = await Review.paginate(filter, options);
+
+  return {
+    ...result,
+    summary: {
+      ...summary,
+      breakdown: await getRatingBreakdown(targetType, targetId)
+    }
+  };
+};
+
+// ==================== CUSTOMER REVIEWS ====================
+
+// Review a product or a vendor from a delivered order
+export const createReview = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { targetType, productId, vendorId, rating, title, comment } = req.body;
+  const userId = req.user._id;
+
+  const purchase = targetType === 'product'
+    ? await findProductPurchase(userId, productId, vendorId)
+    : await findVendorPurchase(userId, vendorId);
+
+  if (!purchase) {
+    return next(new AppError(
+      targetType === 'product'
+        ? 'You can only review products from your delivered orders'
+        : 'You can only review vendors you have received an order from',
+      403
+    ));
+  }
+
+  const existing = await Review.findOne(targetType === 'product'
+    ? { targetType, user: userId, product: productId }
+    : { targetType, user: userId, vendor: vendorId });
+  if (existing) {
+    return next(new AppError(`You have already reviewed this ${targetType}`, 400));
+  }
+
+  try {
+    const review = await Review.create({
+      targetType,
+      product: targetType === 'product' ? productId : undefined,
+      vendor: purchase.vendorId,
+      user: userId,
+      order: purchase.order._id,
+      rating,
+      title,
+      comment,
+      isVerifiedPurchase: true
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Review submitted and awaiting moderation',
+      data: review
+    });
+  } catch (error: any) {
+    // A concurrent request created the same review first
+    if (error.code === 11000) {
+      return next(new AppError(`You have already reviewed this ${targetType}`, 400));
+    }
+    throw error;
+  }
+});
+
+// Get the logged in customer's reviews
+export const getMyReviews = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 10, targetType, status } = req.query;
+
+  const filter: any = { user: req.user._id };
+  if (targetType) {
+    filter.targetType = targetType;
+  }
+  if (status) {
+    filter.status = status;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    select: '-helpfulVotes',
+    populate: [
+      { path: 'product', select: 'name images' },
+      { path: 'vendor', select: 'businessName' }
+    ]
+  };
+
+  const result = await Review.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Edit one of the logged in customer's reviews (goes back to moderation)
+export const updateMyReview = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { rating, title, comment } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid review ID', 400));
+  }
+
+  const review = await Review.findOne({ _id: req.params.id, user: req.user._id });
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  const wasApproved = review.status === 'approved';
+
+  if (rating !== undefined) {
+    review.rating = rating;
+  }
+  if (title !== undefined) {
+    review.title = title;
+  }
+  if (comment !== undefined) {
+    review.comment = comment;
+  }
+  review.status = 'pending';
+  review.moderationNote = undefined;
+  await review.save();
+
+  // An approved review stops counting until it is approved again
+  if (wasApproved) {
+    await refreshReviewTarget(review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Review updated and awaiting moderation',
+    data: review
+  });
+});
+
+// Delete one of the logged in customer's reviews
+export const deleteMyReview = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid review ID', 400));
+  }
+
+  const review = await Review.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.status === 'approved') {
+    await refreshReviewTarget(review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Review deleted successfully'
+  });
+});
+
+// Mark (or unmark) a review as helpful
+export const toggleReviewHelpful = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user._id;
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid review ID', 400));
+  }
+
+  const review = await Review.findOne({ _id: req.params.id, status: 'approved' });
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.user.equals(userId)) {
+    return next(new AppError('You cannot vote on your own review', 400));
+  }
+
+  // Conditional updates so repeated clicks cannot count a vote twice
+  const hasVoted = review.helpfulVotes.some(voter => voter.equals(userId));
+  const updated = hasVoted
+    ? await Review.findOneAndUpdate(
+      { _id: review._id, helpfulVotes: userId },
+      { $pull: { helpfulVotes: userId }, $inc: { helpfulCount: -1 } },
+      { new: true }
+    )
+    : await Review.findOneAndUpdate(
+      { _id: review._id, helpfulVotes: { $ne: userId } },
+      { $addToSet: { helpfulVotes: userId }, $inc: { helpfulCount: 1 } },
+      { new: true }
+    );
+
+  const current = updated || await Review.findById(review._id);
+
+  res.status(200).json({
+    success: true,
+    helpful: current!.helpfulVotes.some(voter => voter.equals(userId)),
+    helpfulCount: current!.helpfulCount
+  });
+});
+
+// ==================== PUBLIC REVIEWS ====================
+
+// Get the approved reviews of a product with its rating summary
+export const getProductReviews = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.productId)) {
+    return next(new AppError('Invalid product ID', 400));
+  }
+
+  const product = await Product.findById(req.params.productId, { averageRating: 1, ratingCount: 1 });
+  if (!product) {
+    return next(new AppError('Product not found', 404));
+  }
+
+  const result = await listApprovedReviews(req, 'product', product._id as mongoose.Types.ObjectId, {
+    averageRating: product.averageRating,
+    ratingCount: product.ratingCount
+  });
+
+  res.status(200).json(result);
+});
+
+// Get the approved reviews of a vendor with its rating summary
+export const getVendorReviews = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.vendorId)) {
+    return next(new AppError('Invalid vendor ID', 400));
+  }
+
+  const vendor = await Vendor.findById(req.params.vendorId, { rating: 1, ratingCount: 1 });
+  if (!vendor) {
+    return next(new AppError('Vendor not found', 404));
+  }
+
+  const result = await listApprovedReviews(req, 'vendor', vendor._id as mongoose.Types.ObjectId, {
+    averageRating: vendor.rating,
+    ratingCount: vendor.ratingCount
+  });
+
+  res.status(200).json(result);
+});
+
+// ==================== ADMIN MODERATION ====================
+
+// Get reviews for moderation (admin)
+export const getReviews = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, status, targetType, productId, vendorId, rating } = req.query;
+
+  const filter: any = {};
+  if (status) {
+    filter.status = status;
+  }
+  if (targetType) {
+    filter.targetType = targetType;
+  }
+  if (productId && mongoose.Types.ObjectId.isValid(productId as string)) {
+    filter.product = productId;
+  }
+  if (vendorId && mongoose.Types.ObjectId.isValid(vendorId as string)) {
+    filter.vendor = vendorId;
+  }
+  if (rating) {
+    filter.rating = parseInt(rating as string);
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    select: '-helpfulVotes',
+    populate: [
+      { path: 'user', select: 'firstName lastName email' },
+      { path: 'product', select: 'name' },
+      { path: 'vendor', select: 'businessName' }
+    ]
+  };
+
+  const result = await Review.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Approve or reject a review (admin)
+export const moderateReview = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { status, moderationNote } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid review ID', 400));
+  }
+
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  const previousStatus = review.status;
+
+  review.status = status;
+  review.moderationNote = moderationNote;
+  review.moderatedBy = req.user._id;
+  review.moderatedAt = new Date();
+  await review.save();
+
+  // Ratings only count approved reviews
+  if (previousStatus === 'approved' || status === 'approved') {
+    await refreshReviewTarget(review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `Review ${status} successfully`,
+    data: review
+  });
+});
@@ -0,0 +1,181 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import SearchSynonym from '../models/searchSynonym';
+import SearchQuery from '../models/searchQuery';
+import { clearSynonymCache } from '../services/searchService';
+import { rebuildSearchIndex } from '../services/searchIndexService';
+import { blockSearchQuery } from '../services/suggestService';
+import { normalizeText } from '../utils/searchText';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Helper to normalise the terms of a synonym group the way queries are normalised
+const normalizeSynonymTerms = (terms: string[]): string[] => {
+  const normalized = [...new Set(terms.map(normalizeText).filter(Boolean))];
+  if (normalized.length < 2) {
+    throw new AppError('A synonym group needs at least two different terms', 400);
+  }
+  return normalized;
+};
+
+// ==================== SEARCH SYNONYMS ====================
+
+// Get synonym groups (admin)
+export const getSynonyms = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 50, term, isActive } = req.query;
+
+  const filter: any = {};
+  if (term) {
+    filter.terms = normalizeText(term as string);
+  }
+  if (isActive !== undefined) {
+    filter.isActive = isActive === 'true';
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 }
+  };
+
+  const result = await SearchSynonym.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Create a synonym group (admin)
+export const createSynonym = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const synonym = await SearchSynonym.create({
+    terms: normalizeSynonymTerms(req.body.terms),
+    isActive: req.body.isActive,
+    createdBy: req.user._id
+  });
+  clearSynonymCache();
+
+  res.status(201).json({
+    success: true,
+    message: 'Synonym group created successfully',
+    data: synonym
+  });
+});
+
+// Update a synonym group (admin)
+export const updateSynonym = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { terms, isActive } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid synonym group ID', 400));
+  }
+
+  const synonym = await SearchSynonym.findById(req.params.id);
+  if (!synonym) {
+    return next(new AppError('Synonym group not found', 404));
+  }
+
+  if (terms !== undefined) {
+    synonym.terms = normalizeSynonymTerms(terms);
+  }
+  if (isActive !== undefined) {
+    synonym.isActive = isActive;
+  }
+  await synonym.save();
+  clearSynonymCache();
+
+  res.status(200).json({
+    success: true,
+    message: 'Synonym group updated successfully',
+    data: synonym
+  });
+});
+
+// Delete a synonym group (admin)
+export const deleteSynonym = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid synonym group ID', 400));
+  }
+
+  const synonym = await SearchSynonym.findByIdAndDelete(req.params.id);
+  if (!synonym) {
+    return next(new AppError('Synonym group not found', 404));
+  }
+  clearSynonymCache();
+
+  res.status(200).json({
+    success: true,
+    message: 'Synonym group deleted successfully'
+  });
+});
+
+// ==================== POPULAR SEARCHES ====================
+
+// Get recorded search queries, most searched first (admin)
+export const getSearchQueries = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 50, q, isBlocked } = req.query;
+
+  const filter: any = {};
+  if (q) {
+    filter.normalized = { $regex: `^${normalizeText(q as string)}` }; // Only letters, digits and spaces
+  }
+  if (isBlocked !== undefined) {
+    filter.isBlocked = isBlocked === 'true';
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { count: -1 }
+  };
+
+  const result = await SearchQuery.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Block a search query from the popular searches, whether or not it has been searched yet (admin)
+export const blockQuery = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!normalizeText(req.body.query)) {
+    return next(new AppError('Search query has no searchable text', 400));
+  }
+
+  const searchQuery = await blockSearchQuery(req.body.query);
+
+  res.status(200).json({
+    success: true,
+    message: 'Search query blocked successfully',
+    data: searchQuery
+  });
+});
+
+// Block or unblock a recorded search query (admin)
+export const updateSearchQuery = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return next(new AppError('Invalid search query ID', 400));
+  }
+
+  const searchQuery = await SearchQuery.findByIdAndUpdate(
+    req.params.id,
+    { isBlocked: req.body.isBlocked },
+    { new: true }
+  );
+  if (!searchQuery) {
+    return next(new AppError('Search query not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `Search query ${searchQuery.isBlocked ? 'blocked' : 'unblocked'} successfully`,
+    data: searchQuery
+  });
+});
+
+// ==================== SEARCH INDEX ====================
+
+// Rebuild the whole product search index (admin)
+export const rebuildIndex = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const indexed = await rebuildSearchIndex();
+
+  res.status(200).json({
+    success: true,
+    message: `Search index rebuilt with ${indexed} listing(s)`,
+    indexed
+  });
+});
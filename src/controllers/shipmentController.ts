@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Order from '../models/order';
+import Shipment from '../models/shipment';
+import { createShipment, syncShipment } from '../services/shipmentService';
+import { ensureVendorGroups, getVendorGroup, transitionVendorGroup } from '../services/orderLifecycle';
+import { getCarrierAdapter, getCarrierCodes } from '../utils/carriers';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// ==================== CUSTOMER TRACKING ====================
+
+// Track the shipments of one of the user's orders
+export const getOrderTracking = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return next(new AppError('Invalid order ID', 400));
+  }
+
+  const order = await Order.findOne({ _id: id, user: userId });
+
+  if (!order) {
+    return next(new AppError('Order not found', 404));
+  }
+
+  const shipments = await Shipment.find({ order: order._id, isActive: true })
+    .select('vendorId carrier carrierName awbNumber trackingUrl status events deliveredAt createdAt');
+
+  res.status(200).json({
+    orderId: order._id,
+    orderStatus: order.orderStatus,
+    // One entry per vendor group, with its parcel (if shipped)
+    groups: order.vendorGroups.map(group => ({
+      vendorId: group.vendorId,
+      status: group.status,
+      estimatedDeliveryDate: group.estimatedDeliveryDate,
+      shippedAt: group.shippedAt,
+      deliveredAt: group.deliveredAt,
+      shipment: shipments.find(shipment => shipment.vendorId.equals(group.vendorId)) || null
+    }))
+  });
+});
+
+// ==================== VENDOR SHIPMENTS ====================
+
+// Book (or record) the shipment of the vendor's fulfilment group
+export const createVendorShipment = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const vendorId = req.user?._id;
+    const { id } = req.params;
+
+    const order = await Order.findById(id).session(session);
+
+    if (!order) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Order not found', 404));
+    }
+
+    await ensureVendorGroups(order, session);
+    const vendorGroup = getVendorGroup(order, vendorId);
+
+    if (!vendorGroup) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Order not found or you do not have permission to update it', 404));
+    }
+
+    const shipment = await createShipment(order, vendorGroup, req.body, { id: vendorId, role: 'vendor' }, session);
+
+    // Parcels without a carrier feed are shipped as soon as they are handed over
+    if (!getCarrierAdapter(shipment.carrier)?.canBook && vendorGroup.status === 'processing') {
+      await transitionVendorGroup(order, vendorId, 'shipped', { id: vendorId, role: 'vendor' }, {
+        session,
+        note: `Shipped with ${shipment.carrierName || shipment.carrier} (AWB ${shipment.awbNumber})`
+      });
+    } else {
+      await order.save({ session });
+    }
+
+    await session.commitTransaction();
+    session.endSession();
+
+    res.status(201).json({
+      message: 'Shipment created successfully',
+      shipment,
+      vendorGroup: getVendorGroup(order, vendorId)
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error creating shipment:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error creating shipment', 500));
+  }
+});
+
+// Get the shipments of the vendor's fulfilment group, including superseded ones
+export const getVendorOrderShipments = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorId = req.user?._id;
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return next(new AppError('Invalid order ID', 400));
+  }
+
+  const shipments = await Shipment.find({ order: id, vendorId }).sort({ createdAt: -1 });
+
+  res.status(200).json({
+    orderId: id,
+    carriers: getCarrierCodes(),
+    shipments
+  });
+});
+
+// ==================== ADMIN SHIPMENTS ====================
+
+// Get every shipment of an order (admin)
+export const getAdminOrderShipments = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return next(new AppError('Invalid order ID', 400));
+  }
+
+  const shipments = await Shipment.find({ order: id }).sort({ createdAt: -1 });
+
+  res.status(200).json({
+    orderId: id,
+    shipments
+  });
+});
+
+// Pull the latest tracking of a shipment from its carrier right away (admin)
+export const syncShipmentAdmin = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const shipment = await Shipment.findById(req.params.shipmentId).session(session);
+
+    if (!shipment) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Shipment not found', 404));
+    }
+
+    const newEvents = await syncShipment(shipment, session);
+
+    await session.commitTransaction();
+    session.endSession();
+
+    res.status(200).json({
+      message: `${newEvents} new tracking event(s)`,
+      shipment
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error syncing shipment:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error syncing shipment', 500));
+  }
+});
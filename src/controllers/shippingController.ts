@@ -0,0 +1,232 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import ShippingProfile from '../models/shippingProfile';
+import ServiceArea from '../models/serviceArea';
+import PincodeLocation from '../models/pincodeLocation';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Fields a shipping profile owner may set directly
+const SHIPPING_PROFILE_FIELDS = [
+  'baseFee',
+  'slabBasis',
+  'slabs',
+  'zones',
+  'freeShippingThreshold',
+  'coldChainSurcharge',
+  'isActive'
+];
+
+// Helper to create or update the shipping profile of a vendor (or Admin)
+const saveShippingProfile = async (vendorId: mongoose.Types.ObjectId | string, body: any) => {
+  const profile = await ShippingProfile.findOne({ vendorId }) || new ShippingProfile({ vendorId });
+
+  SHIPPING_PROFILE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      (profile as any)[field] = body[field] === null ? undefined : body[field];
+    }
+  });
+
+  // Only the last slab may be open-ended
+  const openSlabs = profile.slabs.filter(slab => slab.upTo === undefined || slab.upTo === null);
+  if (openSlabs.length > 1) {
+    throw new AppError('Only one shipping slab can be open-ended (without upTo)', 400);
+  }
+
+  await profile.save();
+  return profile;
+};
+
+// Fields a service area owner may set directly
+const SERVICE_AREA_FIELDS = [
+  'mode',
+  'pincodes',
+  'pincodePrefixes',
+  'warehouse',
+  'radiusKm',
+  'handlingDays',
+  'localTransitDays',
+  'transitDays',
+  'isActive'
+];
+
+// Helper to create or update the service area of a vendor (or Admin)
+const saveServiceArea = async (vendorId: mongoose.Types.ObjectId | string, body: any) => {
+  const area = await ServiceArea.findOne({ vendorId }) || new ServiceArea({ vendorId });
+
+  SERVICE_AREA_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      (area as any)[field] = body[field];
+    }
+  });
+
+  if (!area.warehouse?.pincode) {
+    throw new AppError('Warehouse pincode is required', 400);
+  }
+  if (area.mode === 'pincodes' && area.pincodes.length === 0 && area.pincodePrefixes.length === 0) {
+    throw new AppError('Add at least one pincode or pincode prefix to deliver to', 400);
+  }
+  if (area.mode === 'radius' && !area.radiusKm) {
+    throw new AppError('Delivery radius is required', 400);
+  }
+
+  await area.save();
+  return area;
+};
+
+// ==================== VENDOR SHIPPING PROFILE ====================
+
+// Get the logged-in vendor's shipping profile
+export const getMyShippingProfile = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const profile = await ShippingProfile.findOne({ vendorId: req.user._id });
+
+  res.status(200).json({
+    success: true,
+    // Without a profile each listing's own shipping price is charged
+    data: profile
+  });
+});
+
+// Create or update the logged-in vendor's shipping profile
+export const updateMyShippingProfile = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const profile = await saveShippingProfile(req.user._id, req.body);
+
+  res.status(200).json({
+    success: true,
+    message: 'Shipping profile saved successfully',
+    data: profile
+  });
+});
+
+// ==================== ADMIN SHIPPING PROFILES ====================
+
+// Get all shipping profiles (admin)
+export const getShippingProfiles = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, isActive } = req.query;
+
+  const filter: any = {};
+  if (isActive !== undefined) {
+    filter.isActive = isActive === 'true';
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { updatedAt: -1 }
+  };
+
+  const result = await ShippingProfile.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get the shipping profile of a vendor, or of the admin's own listings (admin)
+export const getShippingProfileByVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.vendorId)) {
+    return next(new AppError('Invalid vendor ID', 400));
+  }
+
+  const profile = await ShippingProfile.findOne({ vendorId: req.params.vendorId });
+
+  if (!profile) {
+    return next(new AppError('Shipping profile not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: profile
+  });
+});
+
+// Create or update the shipping profile of a vendor, or of the admin's own listings (admin)
+export const updateShippingProfile = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.vendorId)) {
+    return next(new AppError('Invalid vendor ID', 400));
+  }
+
+  const profile = await saveShippingProfile(req.params.vendorId, req.body);
+
+  res.status(200).json({
+    success: true,
+    message: 'Shipping profile saved successfully',
+    data: profile
+  });
+});
+
+// ==================== SERVICE AREAS ====================
+
+// Get the logged-in vendor's service area
+export const getMyServiceArea = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const area = await ServiceArea.findOne({ vendorId: req.user._id });
+
+  res.status(200).json({
+    success: true,
+    // Without a service area the vendor delivers everywhere
+    data: area
+  });
+});
+
+// Create or update the logged-in vendor's service area
+export const updateMyServiceArea = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const area = await saveServiceArea(req.user._id, req.body);
+
+  res.status(200).json({
+    success: true,
+    message: 'Service area saved successfully',
+    data: area
+  });
+});
+
+// Get the service area of a vendor, or of the admin's own listings (admin)
+export const getServiceAreaByVendor = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.vendorId)) {
+    return next(new AppError('Invalid vendor ID', 400));
+  }
+
+  const area = await ServiceArea.findOne({ vendorId: req.params.vendorId });
+
+  if (!area) {
+    return next(new AppError('Service area not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: area
+  });
+});
+
+// Create or update the service area of a vendor, or of the admin's own listings (admin)
+export const updateServiceArea = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.vendorId)) {
+    return next(new AppError('Invalid vendor ID', 400));
+  }
+
+  const area = await saveServiceArea(req.params.vendorId, req.body);
+
+  res.status(200).json({
+    success: true,
+    message: 'Service area saved successfully',
+    data: area
+  });
+});
+
+// Import pincode coordinates used for radius-based delivery (admin)
+export const importPincodeLocations = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { pincodes } = req.body;
+
+  const result = await PincodeLocation.bulkWrite(pincodes.map((entry: any) => ({
+    updateOne: {
+      filter: { pincode: entry.pincode },
+      update: { $set: entry },
+      upsert: true
+    }
+  })));
+
+  res.status(200).json({
+    success: true,
+    message: 'Pincode directory updated',
+    data: {
+      inserted: result.upsertedCount,
+      updated: result.modifiedCount
+    }
+  });
+});
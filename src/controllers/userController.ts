@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import User, { IUser, UserRole, UserStatus } from '../models/User';
 import { generateUserToken } from '../utils/tokenUtils';
 import { catchAsyncError, AppError } from '../utils/errorHandler';
+import { notify } from '../services/notificationService';
 
 export const getUsers = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const users = await User.find({}, { 
@@ -27,7 +29,8 @@ export const getUserById = catchAsyncError(async (req: Request, res: Response, n
     city: 1,
     state: 1,
     zipCode: 1,
-    country: 1
+    country: 1,
+    addresses: 1
   });
   if (!user) {
     return next(new AppError('User not found', 404));
@@ -82,6 +85,11 @@ export const createUser = catchAsyncError(async (req: Request, res: Response, ne
   
   await user.save();
   
+  // Sent in the background; never fails the registration
+  if (user.role === UserRole.BUYER) {
+    notify('user.registered', { id: user._id as mongoose.Types.ObjectId, role: 'customer' }, { firstName: user.firstName });
+  }
+  
   // Generate user token (only for customers)
   let token: string;
   try {
@@ -9,6 +9,10 @@ import Vendor from '../models/vendors';
 import GlobalProduct from '../models/globalProduct';
 import { generateVendorToken } from '../utils/tokenUtils';
 import { uploadProductImages } from '../utils/cloudinary';
+import { getAvailableStock } from '../services/inventoryService';
+import { SELLING_PRICE_EXPRESSION } from '../services/pricingService';
+import { notify } from '../services/notificationService';
+import { postToAdminInboxes } from '../services/inboxService';
 
 // ==================== VENDOR REGISTRATION ====================
 
@@ -24,6 +28,7 @@ export const registerVendor = catchAsyncError(async (req: Request, res: Response
     businessAddress,
     businessPhone,
     taxId,
+    businessState,
     bankAccount
   } = req.body;
   
@@ -41,6 +46,7 @@ export const registerVendor = catchAsyncError(async (req: Request, res: Response
     businessPhone,
     businessEmail: email,
     taxId,
+    businessState,
     bankAccount,
     status: 'pending', // Default to pending for approval
     password, // Using the same password for vendor login
@@ -51,6 +57,15 @@ export const registerVendor = catchAsyncError(async (req: Request, res: Response
   
   await vendor.save();
   
+  // Sent in the background; never fails the registration
+  notify('vendor.registered', { id: vendor._id as mongoose.Types.ObjectId, role: 'vendor' }, { businessName });
+  postToAdminInboxes({
+    type: 'vendor.pending_approval',
+    title: 'New vendor registration',
+    message: `${businessName} registered and is awaiting approval`,
+    data: { vendorId: vendor._id }
+  });
+  
   // Generate vendor token (using vendor object but with IUser interface)
   const token = generateVendorToken(vendor as any); // Type assertion to bypass type checking
   
@@ -157,9 +172,17 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
       discount = 0, // Discount percentage (0-100), applied only to product price
       shippingPrice = 0,
       stock, 
+      batches, // Optional batch/lot breakdown of the stock
       sku, 
       globalProductId, 
       globalProductName,
+      requiresPrescription,
+      isReturnable,
+      hsnCode,
+      gstRate,
+      weightGrams,
+      requiresColdChain,
+      composition,
       isFeatured,
       isActive,
       isOnSale,
@@ -234,6 +257,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
         category,
         brand,
         images: processedImages,
+        requiresPrescription: requiresPrescription || false,
+        isReturnable: isReturnable !== undefined ? isReturnable : true,
+        hsnCode,
+        gstRate,
+        weightGrams,
+        requiresColdChain: requiresColdChain || false,
+        composition,
         isActive: true,
         globalProduct: globalProductId
       };
@@ -330,6 +360,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
           category,
           brand,
           images: processedImages,
+          requiresPrescription: requiresPrescription || false,
+          isReturnable: isReturnable !== undefined ? isReturnable : true,
+          hsnCode,
+          gstRate,
+          weightGrams,
+          requiresColdChain: requiresColdChain || false,
+          composition,
         };
         
         product = new Product(productData);
@@ -370,6 +407,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
           category,
           brand,
           images: processedImages,
+          requiresPrescription: requiresPrescription || false,
+          isReturnable: isReturnable !== undefined ? isReturnable : true,
+          hsnCode,
+          gstRate,
+          weightGrams,
+          requiresColdChain: requiresColdChain || false,
+          composition,
         };
         
         product = new Product(productData);
@@ -425,6 +469,7 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
       discount: Number(discount) || 0, // Add discount field
       shippingPrice: Number(shippingPrice) || 0, // Default to 0 if not provided
       stock: Number(stock) || 0, // Default to 0 if not provided
+      batches: batches || [], // Stock is recalculated from non-expired batches when provided
       sku: sku || `SKU-${Date.now()}`, // Generate a default SKU if not provided
       status: 'pending', // Pending approval for both new and existing products
       isFeatured: isFeatured || false,
@@ -437,6 +482,13 @@ export const addProduct = catchAsyncError(async (req: Request, res: Response, ne
     
     await vendorProduct.save({ session });
     
+    await postToAdminInboxes({
+      type: 'product.pending_approval',
+      title: 'Product awaiting approval',
+      message: `${product?.name || 'A product'} was listed by a vendor and is awaiting approval`,
+      data: { vendorProductId: vendorProduct._id, vendorId: vendorProduct.vendorId }
+    }, session);
+    
     // If we reach here, everything was successful, so commit the transaction
     await session.commitTransaction();
     session.endSession();
@@ -540,9 +592,11 @@ export const getVendorProducts = catchAsyncError(async (req: Request, res: Respo
         _id: 1,
         vendorId: 1,
         price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
         shippingPrice: 1,
         totalPrice: 1,
         stock: 1,
+        batches: 1,
         sku: 1,
         status: 1,
         isActive: 1,
@@ -689,4 +743,140 @@ export const toggleVendorProductActiveStatus = catchAsyncError(async (req: Reque
     message: `Product ${vendorProduct.isActive ? 'activated' : 'deactivated'} successfully.`, 
     vendorProduct 
   });
-});
\ No newline at end of file
+});
+
+// ==================== BATCH INVENTORY ====================
+
+// Get batches of a vendor product
+export const getVendorProductBatches = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorProduct = await VendorProduct.findOne({
+    _id: req.params.id,
+    vendorId: req.user._id
+  }).select('batches stock sku');
+  
+  if (!vendorProduct) {
+    return next(new AppError('Product not found or you do not have permission to view it', 404));
+  }
+  
+  // Sort batches by expiry so the next batch to be shipped comes first
+  const now = new Date();
+  const batches = [...vendorProduct.batches]
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime())
+    .map(batch => ({
+      ...batch.toObject(),
+      isExpired: batch.expiryDate <= now
+    }));
+  
+  res.status(200).json({
+    vendorProductId: vendorProduct._id,
+    sku: vendorProduct.sku,
+    stock: getAvailableStock(vendorProduct),
+    batches
+  });
+});
+
+// Add a batch to a vendor product
+export const addVendorProductBatch = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { batchNumber, manufactureDate, expiryDate, quantity } = req.body;
+  
+  const vendorProduct = await VendorProduct.findOne({
+    _id: req.params.id,
+    vendorId: req.user._id
+  });
+  
+  if (!vendorProduct) {
+    return next(new AppError('Product not found or you do not have permission to update it', 404));
+  }
+  
+  if (new Date(expiryDate) <= new Date()) {
+    return next(new AppError('Cannot add a batch that has already expired', 400));
+  }
+  
+  const normalizedBatchNumber = String(batchNumber).trim().toUpperCase();
+  if (vendorProduct.batches.some(batch => batch.batchNumber === normalizedBatchNumber)) {
+    return next(new AppError(`Batch ${normalizedBatchNumber} already exists for this product`, 409));
+  }
+  
+  vendorProduct.batches.push({
+    batchNumber: normalizedBatchNumber,
+    manufactureDate,
+    expiryDate,
+    quantity
+  });
+  
+  // Stock is recalculated from the batches in the pre-save hook
+  await vendorProduct.save();
+  
+  res.status(201).json({
+    message: 'Batch added successfully',
+    stock: vendorProduct.stock,
+    batches: vendorProduct.batches
+  });
+});
+
+// Update a batch of a vendor product (quantity corrections, date fixes)
+export const updateVendorProductBatch = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { manufactureDate, expiryDate, quantity } = req.body;
+  
+  const vendorProduct = await VendorProduct.findOne({
+    _id: req.params.id,
+    vendorId: req.user._id
+  });
+  
+  if (!vendorProduct) {
+    return next(new AppError('Product not found or you do not have permission to update it', 404));
+  }
+  
+  const batch = vendorProduct.batches.find(b => b._id?.toString() === req.params.batchId);
+  if (!batch) {
+    return next(new AppError('Batch not found', 404));
+  }
+  
+  if (manufactureDate !== undefined) batch.manufactureDate = manufactureDate;
+  if (expiryDate !== undefined) batch.expiryDate = expiryDate;
+  if (quantity !== undefined) batch.quantity = quantity;
+  
+  if (batch.manufactureDate && batch.manufactureDate >= batch.expiryDate) {
+    return next(new AppError('Expiry date must be after manufacture date', 400));
+  }
+  
+  await vendorProduct.save();
+  
+  res.status(200).json({
+    message: 'Batch updated successfully',
+    stock: vendorProduct.stock,
+    batches: vendorProduct.batches
+  });
+});
+
+// Remove a batch from a vendor product
+export const deleteVendorProductBatch = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const vendorProduct = await VendorProduct.findOne({
+    _id: req.params.id,
+    vendorId: req.user._id
+  });
+  
+  if (!vendorProduct) {
+    return next(new AppError('Product not found or you do not have permission to update it', 404));
+  }
+  
+  const batchIndex = vendorProduct.batches.findIndex(b => b._id?.toString() === req.params.batchId);
+  if (batchIndex === -1) {
+    return next(new AppError('Batch not found', 404));
+  }
+  
+  vendorProduct.batches.splice(batchIndex, 1);
+  
+  // Removing the last batch leaves the listing without stock
+  if (vendorProduct.batches.length === 0) {
+    vendorProduct.stock = 0;
+  }
+  
+  await vendorProduct.save();
+  
+  res.status(200).json({
+    message: 'Batch removed successfully',
+    stock: vendorProduct.stock,
+    batches: vendorProduct.batches
+  });
+});
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import WalletTransaction from '../models/walletTransaction';
+import { getOrCreateWallet, creditWallet, debitWallet } from '../services/walletService';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// Helper to build a paginated wallet transaction query
+const getTransactionPage = async (userId: mongoose.Types.ObjectId | string, query: any): Promise<any> => {
+  const { page = 1, limit = 20, type, direction } = query;
+
+  const filter: any = { user: userId };
+  if (type) {
+    filter.type = type;
+  }
+  if (direction) {
+    filter.direction = direction;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 },
+    populate: { path: 'order', select: 'orderStatus grandTotal' }
+  };
+
+  return WalletTransaction.paginate(filter, options);
+};
+
+// ==================== USER WALLET ====================
+
+// Get the logged in user's wallet balance
+export const getMyWallet = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const wallet = await getOrCreateWallet(userId);
+
+  res.status(200).json({
+    balance: wallet.balance,
+    currency: wallet.currency
+  });
+});
+
+// Get the logged in user's wallet transactions
+export const getMyWalletTransactions = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const userId = req.user?._id;
+
+  if (!userId) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const result = await getTransactionPage(userId, req.query);
+
+  res.status(200).json(result);
+});
+
+// ==================== ADMIN WALLET MANAGEMENT ====================
+
+// Get a user's wallet and transactions (admin)
+export const getUserWallet = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return next(new AppError('Invalid user ID', 400));
+  }
+
+  const user = await User.findById(id, { email: 1, firstName: 1, lastName: 1 });
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+
+  const wallet = await getOrCreateWallet(id);
+  const transactions = await getTransactionPage(id, req.query);
+
+  res.status(200).json({
+    user,
+    balance: wallet.balance,
+    currency: wallet.currency,
+    transactions
+  });
+});
+
+// Credit or debit a user's wallet (admin)
+export const adjustUserWallet = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { id } = req.params;
+    const { amount, type, reason } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Invalid user ID', 400));
+    }
+
+    const user = await User.findById(id).session(session);
+    if (!user) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('User not found', 404));
+    }
+
+    if (type === 'cashback' && amount < 0) {
+      await session.abortTransaction();
+      session.endSession();
+      return next(new AppError('Cashback must be a positive amount', 400));
+    }
+
+    const details = {
+      type,
+      description: reason,
+      createdBy: req.user._id,
+      createdByRole: 'admin' as const
+    };
+
+    // Debits never overdraw the wallet
+    const entry = amount > 0
+      ? await creditWallet(id, amount, details, session)
+      : await debitWallet(id, Math.abs(amount), details, session);
+
+    await session.commitTransaction();
+    session.endSession();
+
+    res.status(201).json({
+      message: 'Wallet updated successfully',
+      transaction: entry,
+      balance: entry.balanceAfter
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error adjusting wallet:', error);
+    if (error instanceof AppError) {
+      return next(error);
+    }
+    return next(new AppError('Error adjusting wallet', 500));
+  }
+});
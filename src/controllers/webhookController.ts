@@ -0,0 +1,400 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import Order, { IOrder } from '../models/order';
+import PaymentEvent from '../models/paymentEvent';
+import Refund, { IRefund } from '../models/refund';
+import Shipment from '../models/shipment';
+import { recordOrderPayment, clearOrderCart } from '../services/orderLifecycle';
+import { applyTrackingEvents } from '../services/shipmentService';
+import { publish, getOrderAudiences } from '../services/realtimeService';
+import { getCarrierAdapter, CarrierTrackingEvent } from '../utils/carriers';
+import { verifyRazorpayWebhookSignature } from '../utils/razorpay';
+import { catchAsyncError, AppError } from '../utils/errorHandler';
+
+// How long a delivery may hold a Razorpay event before a retry can take it over
+const EVENT_LOCK_MS = 5 * 60 * 1000;
+
+interface WebhookOutcome {
+  status: 'processed' | 'ignored';
+  message: string;
+  order?: IOrder;
+  paid?: boolean; // Order was newly marked paid
+}
+
+// Helper to mark the order of a captured payment as paid (payment.captured, order.paid)
+const handlePaymentCaptured = async (
+  razorpayOrderId: string | undefined,
+  razorpayPaymentId: string | undefined,
+  session: mongoose.ClientSession
+): Promise<WebhookOutcome> => {
+  if (!razorpayOrderId || !razorpayPaymentId) {
+    return { status: 'ignored', message: 'Event has no order or payment ID' };
+  }
+
+  const order = await Order.findOne({ razorpayOrderId }).session(session);
+  if (!order) {
+    return { status: 'ignored', message: `No order found for Razorpay order ${razorpayOrderId}` };
+  }
+
+  const result = await recordOrderPayment(order, razorpayPaymentId, session);
+
+  if (result === 'already_paid') {
+    return { status: 'ignored', message: 'Order payment was already recorded', order };
+  }
+  if (result === 'refunded') {
+    return { status: 'processed', message: 'Order was cancelled before payment; payment refunded', order };
+  }
+  return { status: 'processed', message: 'Order marked as paid', order, paid: true };
+};
+
+// Helper to record a failed payment attempt (payment.failed)
+const handlePaymentFailed = async (payment: any, session: mongoose.ClientSession): Promise<WebhookOutcome> => {
+  const order = payment?.order_id
+    ? await Order.findOne({ razorpayOrderId: payment.order_id }).session(session)
+    : null;
+
+  if (!order) {
+    return { status: 'ignored', message: `No order found for Razorpay order ${payment?.order_id}` };
+  }
+
+  // A later attempt may still succeed, so only pending orders are marked failed
+  if (order.paymentStatus !== 'pending') {
+    return { status: 'ignored', message: `Order payment is already ${order.paymentStatus}`, order };
+  }
+
+  order.paymentStatus = 'failed';
+  await order.save({ session });
+
+  publish('payment.updated', getOrderAudiences(order), {
+    orderId: order._id,
+    paymentStatus: order.paymentStatus,
+    reason: payment.error_description
+  }, session);
+
+  return { status: 'processed', message: `Payment failed: ${payment.error_description || 'No reason provided'}`, order };
+};
+
+// Helper to find our record of a Razorpay refund: by its ID, or by the refund ID our API call sent as the
+// receipt (the record is committed before the call, but the Razorpay ID may not be saved on it yet).
+// Returns null for refunds issued outside the API.
+const findRefundRecord = async (refund: any, session: mongoose.ClientSession): Promise<IRefund | null> => {
+  const byRazorpayId = await Refund.findOne({ razorpayRefundId: refund.id }).session(session);
+  if (byRazorpayId) {
+    return byRazorpayId;
+  }
+
+  const reference = refund.notes?.refundId || refund.receipt;
+  if (!reference || !mongoose.Types.ObjectId.isValid(reference)) {
+    return null;
+  }
+
+  const refundRecord = await Refund.findById(reference).session(session);
+  if (!refundRecord) {
+    // Fail the delivery so Razorpay sends it again once the refund is recorded
+    throw new AppError(`Refund ${reference} for Razorpay refund ${refund.id} is not recorded yet`, 409);
+  }
+
+  if (!refundRecord.razorpayRefundId) {
+    refundRecord.razorpayRefundId = refund.id;
+  }
+  return refundRecord;
+};
+
+// Helper to record a refund confirmed by Razorpay (refund.processed)
+const handleRefundProcessed = async (refund: any, session: mongoose.ClientSession): Promise<WebhookOutcome> => {
+  const order = refund?.payment_id
+    ? await Order.findOne({ razorpayPaymentId: refund.payment_id }).session(session)
+    : null;
+
+  if (!order) {
+    return { status: 'ignored', message: `No order found for Razorpay payment ${refund?.payment_id}` };
+  }
+
+  const refundRecord = await findRefundRecord(refund, session);
+
+  if (refundRecord) {
+    if (refundRecord.gatewayStatus === 'processed') {
+      return { status: 'ignored', message: `Refund ${refund.id} was already processed`, order };
+    }
+
+    refundRecord.gatewayStatus = 'processed';
+    refundRecord.processedAt = new Date();
+    await refundRecord.save({ session });
+
+    return { status: 'processed', message: `Refund ${refund.id} processed`, order };
+  }
+
+  // Refund issued outside the API (e.g. from the Razorpay dashboard): it carries none of our receipts
+  const amount = refund.amount / 100;
+  await Refund.create([{
+    order: order._id,
+    user: order.user,
+    type: 'payment_reversal',
+    amount,
+    reason: 'Refund issued from the Razorpay dashboard',
+    initiatorRole: 'system',
+    method: 'razorpay',
+    gatewayStatus: 'processed',
+    razorpayRefundId: refund.id,
+    processedAt: new Date()
+  }], { session });
+
+  order.razorpayRefundId = refund.id;
+  order.refundedAmount = Math.round(((order.refundedAmount || 0) + amount) * 100) / 100;
+  if (order.refundedAmount >= order.grandTotal) {
+    order.paymentStatus = 'refunded';
+  }
+  await order.save({ session });
+
+  return { status: 'processed', message: `External refund ${refund.id} recorded`, order };
+};
+
+// Helper to record a refund Razorpay could not complete (refund.failed)
+const handleRefundFailed = async (refund: any, session: mongoose.ClientSession): Promise<WebhookOutcome> => {
+  const refundRecord = refund?.id ? await findRefundRecord(refund, session) : null;
+
+  if (!refundRecord) {
+    return { status: 'ignored', message: `No refund found for Razorpay refund ${refund?.id}` };
+  }
+
+  refundRecord.gatewayStatus = 'failed';
+  refundRecord.failureReason = refund.error_description || 'Refund failed at Razorpay';
+  await refundRecord.save({ session });
+
+  return { status: 'processed', message: `Refund ${refund.id} failed` };
+};
+
+// ==================== RAZORPAY WEBHOOK ====================
+
+// Handle a Razorpay webhook delivery
+export const razorpayWebhook = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const signature = req.headers['x-razorpay-signature'] as string | undefined;
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+
+  if (!process.env.RAZORPAY_WEBHOOK_SECRET) {
+    return next(new AppError('Razorpay webhook secret is not configured', 503));
+  }
+
+  if (!signature || !rawBody || !verifyRazorpayWebhookSignature(rawBody, signature)) {
+    return next(new AppError('Invalid webhook signature', 400));
+  }
+
+  const { event, payload } = req.body;
+  const payment = payload?.payment?.entity;
+  const refund = payload?.refund?.entity;
+  const razorpayOrder = payload?.order?.entity;
+
+  // Razorpay sends the same event ID on every retry of a delivery
+  const eventId = (req.headers['x-razorpay-event-id'] as string)
+    || crypto.createHash('sha256').update(rawBody).digest('hex');
+
+  // Store the raw event before processing so every delivery is audited
+  try {
+    await PaymentEvent.updateOne(
+      { eventId },
+      {
+        $setOnInsert: {
+          eventId,
+          event,
+          razorpayOrderId: payment?.order_id || razorpayOrder?.id,
+          razorpayPaymentId: payment?.id || refund?.payment_id,
+          razorpayRefundId: refund?.id,
+          payload: req.body,
+          signature
+        }
+      },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // A concurrent delivery of the same event stored it first
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+
+  // Claim the event unless it is done or another delivery is still working on it. An attempt that
+  // crashed leaves it 'received' until its lock runs out, after which a retry processes it again.
+  const now = new Date();
+  const paymentEvent = await PaymentEvent.findOneAndUpdate(
+    {
+      eventId,
+      status: { $in: ['received', 'failed'] },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    },
+    {
+      $set: { lockedUntil: new Date(now.getTime() + EVENT_LOCK_MS) },
+      $inc: { attempts: 1 }
+    },
+    { new: true }
+  );
+
+  if (!paymentEvent) {
+    const existing = await PaymentEvent.findOne({ eventId }, { status: 1 });
+    if (existing && (existing.status === 'processed' || existing.status === 'ignored')) {
+      res.status(200).json({ message: 'Event already processed', status: existing.status });
+      return;
+    }
+
+    // Not acknowledged, so Razorpay delivers it again in case the running attempt fails
+    return next(new AppError('Event is already being processed', 409));
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    let outcome: WebhookOutcome;
+
+    switch (event) {
+      case 'payment.captured':
+        outcome = await handlePaymentCaptured(payment?.order_id, payment?.id, session);
+        break;
+      case 'order.paid':
+        outcome = await handlePaymentCaptured(razorpayOrder?.id || payment?.order_id, payment?.id, session);
+        break;
+      case 'payment.failed':
+        outcome = await handlePaymentFailed(payment, session);
+        break;
+      case 'refund.processed':
+        outcome = await handleRefundProcessed(refund, session);
+        break;
+      case 'refund.failed':
+        outcome = await handleRefundFailed(refund, session);
+        break;
+      default:
+        outcome = { status: 'ignored', message: `Unhandled event ${event}` };
+    }
+
+    await session.commitTransaction();
+    session.endSession();
+
+    paymentEvent.status = outcome.status;
+    paymentEvent.message = outcome.message;
+    paymentEvent.order = outcome.order?._id as mongoose.Types.ObjectId | undefined;
+    paymentEvent.processedAt = new Date();
+    paymentEvent.lockedUntil = undefined;
+    await paymentEvent.save();
+
+    if (outcome.paid && outcome.order) {
+      await clearOrderCart(outcome.order);
+    }
+
+    res.status(200).json({
+      message: outcome.message,
+      status: outcome.status
+    });
+  } catch (error: any) {
+    await session.abortTransaction();
+    session.endSession();
+
+    console.error('Error processing Razorpay webhook:', error);
+
+    // Keep the event as failed so Razorpay's retry processes it again
+    paymentEvent.status = 'failed';
+    paymentEvent.message = error?.message || 'Unknown error';
+    paymentEvent.lockedUntil = undefined;
+    await paymentEvent.save();
+
+    return next(new AppError('Error processing webhook', 500));
+  }
+});
+
+// ==================== CARRIER WEBHOOKS ====================
+
+// Handle a tracking update pushed by a carrier
+export const carrierWebhook = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const adapter = getCarrierAdapter(req.params.carrier);
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+
+  if (!adapter) {
+    return next(new AppError(`Unknown carrier ${req.params.carrier}`, 404));
+  }
+
+  if (!rawBody || !adapter.verifyWebhook(rawBody, req.headers)) {
+    return next(new AppError('Invalid webhook signature', 400));
+  }
+
+  // Group the updates by AWB so each shipment is updated once
+  const eventsByAwb = new Map<string, CarrierTrackingEvent[]>();
+  adapter.parseWebhook(req.body).forEach(event => {
+    eventsByAwb.set(event.awbNumber, [...(eventsByAwb.get(event.awbNumber) || []), event]);
+  });
+
+  let applied = 0;
+  const unknown: string[] = [];
+
+  for (const [awbNumber, events] of eventsByAwb) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const shipment = await Shipment.findOne({ carrier: adapter.code, awbNumber }).session(session);
+      if (!shipment) {
+        unknown.push(awbNumber);
+        await session.abortTransaction();
+        session.endSession();
+        continue;
+      }
+
+      applied += await applyTrackingEvents(shipment, events, session);
+
+      await session.commitTransaction();
+      session.endSession();
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+
+      // Fail the delivery so the carrier retries it; already applied events are skipped next time
+      console.error(`Error processing ${adapter.code} tracking update for AWB ${awbNumber}:`, error);
+      return next(new AppError('Error processing webhook', 500));
+    }
+  }
+
+  res.status(200).json({
+    message: `${applied} tracking event(s) applied`,
+    unknownAwbNumbers: unknown
+  });
+});
+
+// ==================== PAYMENT EVENT AUDIT ====================
+
+// Get stored payment gateway events (admin)
+export const getPaymentEvents = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { page = 1, limit = 20, event, status, orderId, razorpayOrderId } = req.query;
+
+  const filter: any = {};
+  if (event) {
+    filter.event = event;
+  }
+  if (status) {
+    filter.status = status;
+  }
+  if (orderId && mongoose.Types.ObjectId.isValid(orderId as string)) {
+    filter.order = orderId;
+  }
+  if (razorpayOrderId) {
+    filter.razorpayOrderId = razorpayOrderId;
+  }
+
+  const options = {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    sort: { createdAt: -1 }
+  };
+
+  const result = await PaymentEvent.paginate(filter, options);
+
+  res.status(200).json(result);
+});
+
+// Get a stored payment gateway event with its raw payload (admin)
+export const getPaymentEventById = catchAsyncError(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const paymentEvent = await PaymentEvent.findById(req.params.id).populate('order', 'orderStatus paymentStatus grandTotal');
+
+  if (!paymentEvent) {
+    return next(new AppError('Payment event not found', 404));
+  }
+
+  res.status(200).json(paymentEvent);
+});
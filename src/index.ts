@@ -14,7 +14,17 @@ import cartRoutes from './routes/cartRoutes';
 import wishlistRoutes from './routes/wishlistRoutes';
 import orderRoutes from './routes/orderRoutes';
 import bannerRoutes from './routes/bannerRoutes';
+import prescriptionRoutes from './routes/prescriptionRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import realtimeRoutes from './routes/realtimeRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import questionRoutes from './routes/questionRoutes';
 import { connectDB } from './config/database';
+import { startReservationSweeper } from './services/reservationSweeper';
+import { startShipmentPoller } from './services/shipmentPoller';
+import { startNotificationDispatcher } from './services/notificationDispatcher';
+import { startSearchIndexer } from './services/searchIndexer';
+import { startRefundSubmitter } from './services/refundSubmitter';
 import { globalErrorHandler } from './middleware/error';
 // Load environment variables
 
@@ -30,7 +40,13 @@ app.use(cors({
   credentials: true
 }));
 app.use(morgan('dev')); 
-app.use(express.json({ limit: '50mb' }));
+app.use(express.json({
+  limit: '50mb',
+  // Keep the raw body so webhook signatures can be verified
+  verify: (req, res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 app.use(fileUpload({
   limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit
@@ -52,6 +68,11 @@ app.use('/api/v1/cart', cartRoutes);
 app.use('/api/v1/wishlist', wishlistRoutes);
 app.use('/api/v1/orders', orderRoutes);
 app.use('/api/v1/banners', bannerRoutes);
+app.use('/api/v1/prescriptions', prescriptionRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
+app.use('/api/v1/events', realtimeRoutes);
+app.use('/api/v1/reviews', reviewRoutes);
+app.use('/api/v1/questions', questionRoutes);
 
 // Basic route
 app.get('/', (req, res) => {
@@ -78,6 +99,21 @@ app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
   console.log(`API documentation: http://localhost:${PORT}/api-docs`);
+  
+  // Release stock held by Razorpay checkouts that were never paid
+  startReservationSweeper();
+  
+  // Pull tracking updates for shipments whose carrier did not send a webhook
+  startShipmentPoller();
+  
+  // Send notifications queued by committed transactions and retry failed ones
+  startNotificationDispatcher();
+  
+  // Keep the product search index in step with listing, product and catalogue changes
+  startSearchIndexer();
+  
+  // Send Razorpay refunds that were committed but did not reach the gateway
+  startRefundSubmitter();
 });
 
 export default app;
\ No newline at end of file
@@ -139,6 +139,19 @@ export const isAdminAuthenticated = async (req: Request, res: Response, next: Ne
   }
 };
 
+// Lets streaming clients pass the token as ?access_token= (browser EventSource cannot set headers)
+export const acceptQueryToken = (req: Request, res: Response, next: NextFunction): void => {
+  const token = req.query.access_token;
+  
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    req.headers.authorization = `Bearer ${token}`;
+    // Keep the token out of the request log
+    req.originalUrl = req.originalUrl.replace(/access_token=[^&]*/, 'access_token=[redacted]');
+  }
+  
+  next();
+};
+
 // General authentication middleware (checks all roles)
 export const isAuthenticated = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -13,6 +13,22 @@ export enum UserStatus {
   SUSPENDED = 'suspended'
 }
 
+// Saved delivery address; copied onto orders when used, so later edits do not change past orders
+export interface IUserAddress {
+  _id?: mongoose.Types.ObjectId;
+  label: string; // e.g. Home, Work, Parents
+  name: string;
+  street: string;
+  landmark?: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+  phone: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+}
+
 export interface IUser extends Document {
   firstName: string;
   lastName: string;
@@ -27,6 +43,7 @@ export interface IUser extends Document {
   state?: string;
   zipCode?: string;
   country?: string;
+  addresses: mongoose.Types.DocumentArray<IUserAddress & mongoose.Types.Subdocument>; // Address book
   lastLoginAt?: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
   updateLastLogin(): Promise<IUser>;
@@ -98,6 +115,19 @@ const UserSchema: Schema = new Schema({
     type: String,
     maxlength: 50
   },
+  addresses: [{
+    label: { type: String, trim: true, maxlength: 30, default: 'Home' },
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    street: { type: String, required: true, trim: true, maxlength: 200 },
+    landmark: { type: String, trim: true, maxlength: 100 },
+    city: { type: String, required: true, trim: true, maxlength: 50 },
+    state: { type: String, required: true, trim: true, maxlength: 50 },
+    zipCode: { type: String, required: true, trim: true, match: [/^\d{6}$/, 'Please enter a valid 6-digit pincode'] },
+    country: { type: String, trim: true, maxlength: 50, default: 'India' },
+    phone: { type: String, required: true, match: [/^[0-9+\-\s()]+$/, 'Please enter a valid phone number'] },
+    isDefaultShipping: { type: Boolean, default: false },
+    isDefaultBilling: { type: Boolean, default: false }
+  }],
   lastLoginAt: { 
     type: Date 
   }
@@ -13,6 +13,7 @@ export interface ICart extends Document {
   totalAmount?: number;
   shippingPrice?: number;
   grandTotal?: number;
+  couponCode?: string; // Coupon applied to the cart, re-validated whenever totals are calculated
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,7 +42,11 @@ const CartSchema: Schema<ICart> = new Schema({
       default: Date.now
     }
   }],
-
+  couponCode: {
+    type: String,
+    trim: true,
+    uppercase: true
+  }
 }, {
   timestamps: true
 });
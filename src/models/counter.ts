@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Named sequence (e.g. invoice numbers per financial year), incremented atomically
+export interface ICounter extends Document {
+  key: string;
+  seq: number;
+}
+
+const CounterSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+});
+
+const Counter = mongoose.model<ICounter>('Counter', CounterSchema);
+export default Counter;
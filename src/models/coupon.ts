@@ -0,0 +1,131 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export interface ICoupon extends Document {
+  code: string; // Stored uppercase
+  description?: string;
+  discountType: 'percentage' | 'flat';
+  discountValue: number; // Percentage (1-100) or flat amount in INR
+  maxDiscount?: number; // Cap for percentage coupons
+  minCartValue: number; // Minimum value of the eligible items
+  usageLimit?: number; // Total redemptions allowed, unlimited when empty
+  perUserLimit: number; // Redemptions allowed per customer
+  usedCount: number;
+  validFrom: Date;
+  validUntil?: Date;
+  scope: {
+    categories: mongoose.Types.ObjectId[]; // Empty means any category
+    brands: mongoose.Types.ObjectId[]; // Empty means any brand
+    vendors: mongoose.Types.ObjectId[]; // Empty means any vendor
+  };
+  fundedBy: 'platform' | 'vendor'; // Who bears the discount in payouts
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId; // Admin or Vendor
+  createdByRole: 'admin' | 'vendor';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface ICouponModel extends Model<ICoupon> {
+  paginate: any;
+}
+
+const CouponSchema: Schema = new Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 30
+  },
+  description: {
+    type: String,
+    maxlength: 500
+  },
+  discountType: {
+    type: String,
+    enum: ['percentage', 'flat'],
+    required: true
+  },
+  discountValue: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  maxDiscount: {
+    type: Number,
+    min: 0
+  },
+  minCartValue: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  usageLimit: {
+    type: Number,
+    min: 1
+  },
+  perUserLimit: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  usedCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  validFrom: {
+    type: Date,
+    default: Date.now
+  },
+  validUntil: {
+    type: Date
+  },
+  scope: {
+    categories: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Category'
+    }],
+    brands: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Brand'
+    }],
+    vendors: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor'
+    }]
+  },
+  fundedBy: {
+    type: String,
+    enum: ['platform', 'vendor'],
+    default: 'platform'
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  createdByRole: {
+    type: String,
+    enum: ['admin', 'vendor'],
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+CouponSchema.index({ isActive: 1, validFrom: 1, validUntil: 1 });
+CouponSchema.index({ 'scope.vendors': 1 });
+
+// Add pagination plugin
+CouponSchema.plugin(mongoosePaginate);
+
+const Coupon = mongoose.model<ICoupon, ICouponModel>('Coupon', CouponSchema);
+export default Coupon;
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICouponRedemption extends Document {
+  coupon: mongoose.Types.ObjectId; // Reference to Coupon
+  user: mongoose.Types.ObjectId; // Reference to User
+  order: mongoose.Types.ObjectId; // Reference to Order
+  discountAmount: number;
+  status: 'applied' | 'released'; // Released when the order is cancelled, freeing the usage
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema: Schema = new Schema({
+  coupon: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  discountAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['applied', 'released'],
+    default: 'applied'
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+CouponRedemptionSchema.index({ coupon: 1, user: 1, status: 1 });
+CouponRedemptionSchema.index({ order: 1 }, { unique: true });
+
+const CouponRedemption = mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
+export default CouponRedemption;
@@ -0,0 +1,143 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export interface IInvoiceParty {
+  name: string;
+  address?: string;
+  gstin?: string;
+  state?: string;
+  phone?: string;
+}
+
+export interface IInvoiceLine {
+  vendorProductId: mongoose.Types.ObjectId;
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number; // Selling price per unit, GST inclusive
+  discount: number; // Coupon discount on the line
+  taxableValue: number;
+  gstRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number; // Taxable value plus GST
+}
+
+export interface IInvoice extends Document {
+  invoiceNumber: string; // Sequential within the financial year
+  financialYear: string; // e.g. 2026-27
+  order: mongoose.Types.ObjectId; // Reference to Order
+  user: mongoose.Types.ObjectId; // Reference to User
+  vendorId: mongoose.Types.ObjectId; // Seller (Vendor, or Admin for admin listings)
+  seller: IInvoiceParty;
+  buyer: IInvoiceParty;
+  supplyType: 'intra_state' | 'inter_state';
+  lines: IInvoiceLine[];
+  shippingCharge: number;
+  totals: {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+    grandTotal: number; // Lines plus shipping
+  };
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IInvoiceModel extends Model<IInvoice> {
+  paginate: any;
+}
+
+const PartySchema = {
+  name: { type: String, required: true },
+  address: { type: String },
+  gstin: { type: String },
+  state: { type: String },
+  phone: { type: String }
+};
+
+const InvoiceSchema: Schema = new Schema({
+  invoiceNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  financialYear: {
+    type: String,
+    required: true
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  vendorId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  seller: PartySchema,
+  buyer: PartySchema,
+  supplyType: {
+    type: String,
+    enum: ['intra_state', 'inter_state'],
+    required: true
+  },
+  lines: [{
+    _id: false,
+    vendorProductId: {
+      type: Schema.Types.ObjectId,
+      ref: 'VendorProduct',
+      required: true
+    },
+    description: { type: String, required: true },
+    hsnCode: { type: String },
+    quantity: { type: Number, required: true, min: 1 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    discount: { type: Number, default: 0, min: 0 },
+    taxableValue: { type: Number, required: true, min: 0 },
+    gstRate: { type: Number, required: true, min: 0 },
+    cgst: { type: Number, default: 0, min: 0 },
+    sgst: { type: Number, default: 0, min: 0 },
+    igst: { type: Number, default: 0, min: 0 },
+    total: { type: Number, required: true, min: 0 }
+  }],
+  shippingCharge: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  totals: {
+    taxableValue: { type: Number, default: 0 },
+    cgst: { type: Number, default: 0 },
+    sgst: { type: Number, default: 0 },
+    igst: { type: Number, default: 0 },
+    totalTax: { type: Number, default: 0 },
+    grandTotal: { type: Number, default: 0 }
+  },
+  issuedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+InvoiceSchema.index({ order: 1, vendorId: 1 }, { unique: true });
+InvoiceSchema.index({ vendorId: 1, issuedAt: -1 });
+
+// Add pagination plugin
+InvoiceSchema.plugin(mongoosePaginate);
+
+const Invoice = mongoose.model<IInvoice, IInvoiceModel>('Invoice', InvoiceSchema);
+export default Invoice;
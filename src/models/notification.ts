@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+import { NotificationRecipientRole } from './notificationLog';
+
+// In-app inbox entry of a user, vendor or admin
+export interface INotification extends Document {
+  recipient: mongoose.Types.ObjectId; // User, Vendor or Admin ID
+  recipientRole: NotificationRecipientRole;
+  type: string; // e.g. order.new, product.approved, vendor.pending_approval
+  title: string;
+  message: string;
+  data?: Record<string, any>; // IDs the client can link to (orderId, vendorProductId...)
+  isRead: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface INotificationModel extends Model<INotification> {
+  paginate: any;
+}
+
+const NotificationSchema: Schema = new Schema({
+  recipient: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  recipientRole: {
+    type: String,
+    enum: ['customer', 'vendor', 'admin'],
+    required: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 200
+  },
+  message: {
+    type: String,
+    required: true,
+    maxlength: 1000
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+NotificationSchema.index({ recipient: 1, recipientRole: 1, createdAt: -1 });
+NotificationSchema.index({ recipient: 1, recipientRole: 1, isRead: 1 });
+
+// Add pagination plugin
+NotificationSchema.plugin(mongoosePaginate);
+
+const Notification = mongoose.model<INotification, INotificationModel>('Notification', NotificationSchema);
+export default Notification;
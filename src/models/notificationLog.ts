@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export type NotificationChannel = 'email' | 'sms' | 'push';
+export type NotificationRecipientRole = 'customer' | 'vendor' | 'admin';
+
+// One outbound message on one channel. Written in the same transaction as the change it reports
+// (an outbox), then delivered and retried by the notification service.
+export interface INotificationLog extends Document {
+  event: string; // e.g. order.placed
+  channel: NotificationChannel;
+  recipient: mongoose.Types.ObjectId; // User, Vendor or Admin ID
+  recipientRole: NotificationRecipientRole;
+  to: string; // Email address, phone number or push token(s)
+  subject?: string;
+  body: string;
+  data?: Record<string, any>; // Values the message was rendered from
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  provider?: string; // Adapter that handled the last attempt (smtp, sms, push, sink)
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface INotificationLogModel extends Model<INotificationLog> {
+  paginate: any;
+}
+
+const NotificationLogSchema: Schema = new Schema({
+  event: {
+    type: String,
+    required: true
+  },
+  channel: {
+    type: String,
+    enum: ['email', 'sms', 'push'],
+    required: true
+  },
+  recipient: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  recipientRole: {
+    type: String,
+    enum: ['customer', 'vendor', 'admin'],
+    required: true
+  },
+  to: {
+    type: String,
+    required: true
+  },
+  subject: {
+    type: String
+  },
+  body: {
+    type: String,
+    required: true
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sent', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastError: {
+    type: String
+  },
+  provider: {
+    type: String
+  },
+  sentAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+NotificationLogSchema.index({ status: 1, nextAttemptAt: 1 });
+NotificationLogSchema.index({ recipient: 1, createdAt: -1 });
+NotificationLogSchema.index({ event: 1, createdAt: -1 });
+
+// Add pagination plugin
+NotificationLogSchema.plugin(mongoosePaginate);
+
+const NotificationLog = mongoose.model<INotificationLog, INotificationLogModel>('NotificationLog', NotificationLogSchema);
+export default NotificationLog;
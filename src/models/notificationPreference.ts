@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NotificationRecipientRole } from './notificationLog';
+
+// Which channels a user, vendor or admin wants to be notified on
+export interface INotificationPreference extends Document {
+  recipient: mongoose.Types.ObjectId; // User, Vendor or Admin ID
+  recipientRole: NotificationRecipientRole;
+  channels: {
+    email: boolean;
+    sms: boolean;
+    push: boolean;
+  };
+  mutedEvents: string[]; // Events the recipient opted out of (on every channel)
+  pushTokens: string[]; // Device tokens for push notifications
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationPreferenceSchema: Schema = new Schema({
+  recipient: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  recipientRole: {
+    type: String,
+    enum: ['customer', 'vendor', 'admin'],
+    required: true
+  },
+  channels: {
+    email: { type: Boolean, default: true },
+    sms: { type: Boolean, default: true },
+    push: { type: Boolean, default: true }
+  },
+  mutedEvents: [{
+    type: String
+  }],
+  pushTokens: [{
+    type: String,
+    trim: true
+  }]
+}, {
+  timestamps: true
+});
+
+// Add indexes
+NotificationPreferenceSchema.index({ recipient: 1, recipientRole: 1 }, { unique: true });
+
+const NotificationPreference = mongoose.model<INotificationPreference>('NotificationPreference', NotificationPreferenceSchema);
+export default NotificationPreference;
@@ -2,10 +2,74 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 import mongoosePaginate from 'mongoose-paginate-v2';
 import aggregatePaginate from 'mongoose-aggregate-paginate-v2';
 
+export interface IOrderItemBatch {
+  batchId?: mongoose.Types.ObjectId; // Batch sub-document on VendorProduct
+  batchNumber: string;
+  expiryDate: Date;
+  quantity: number;
+}
+
 export interface IOrderItem {
   vendorProductId: mongoose.Types.ObjectId; // Reference to VendorProduct
+  vendorId?: mongoose.Types.ObjectId; // Seller of the line, keys the vendor group
   quantity: number;
-  price: number; // Price at the time of order
+  cancelledQuantity: number; // Units cancelled and refunded after the order was placed
+  returnedQuantity: number; // Units returned (RMA) and refunded after delivery
+  price: number; // Unit selling price at the time of order (list price less the listing discount)
+  listPrice: number; // Unit list price at the time of order
+  discountPercent: number; // Listing discount percentage
+  listingDiscount: number; // Listing discount on the whole line
+  shippingPrice: number; // Listing shipping charged for the line (0 when the vendor ships by shipping profile)
+  hsnCode?: string; // HSN code of the product at the time of order
+  taxRate: number; // GST percentage included in the price
+  taxableValue: number; // Line value (after coupon) excluding GST
+  taxAmount: number; // GST included in the line total (after coupon)
+  cgst: number; // Intra-state supply: half the GST
+  sgst: number; // Intra-state supply: half the GST
+  igst: number; // Inter-state supply: all of the GST
+  couponDiscount: number; // Coupon discount on the whole line (all units)
+  batches?: IOrderItemBatch[]; // Batches allocated (FEFO) when stock was deducted
+}
+
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+// Components of a vendor group's shipping charge (see shippingService)
+export interface IOrderShippingBreakdown {
+  baseFee: number;
+  slabFee: number;
+  zoneSurcharge: number;
+  zone?: string;
+  coldChainSurcharge: number;
+  freeShippingApplied: boolean;
+  legacy: boolean; // Sum of the listings' shipping prices (vendor has no shipping profile)
+}
+
+// Per-vendor fulfilment group (sub-order) of a multi-vendor order
+export interface IOrderVendorGroup {
+  _id?: mongoose.Types.ObjectId;
+  vendorId: mongoose.Types.ObjectId; // Vendor (or Admin for admin listings)
+  status: OrderStatus;
+  itemsTotal: number;
+  discountTotal: number; // Coupon discount on the group's lines
+  shippingPrice: number;
+  shippingBreakdown?: IOrderShippingBreakdown; // How shippingPrice was worked out
+  estimatedDeliveryDate?: Date; // Promised at checkout from the vendor's service area
+  trackingNumber?: string;
+  carrier?: string;
+  stockAllocated: boolean; // Whether stock has been deducted for this group's lines
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface IOrderStatusHistory {
+  from?: OrderStatus; // Empty for the initial entry
+  to: OrderStatus;
+  vendorId?: mongoose.Types.ObjectId; // Set for vendor group changes, empty for the parent order
+  changedBy?: mongoose.Types.ObjectId; // User, Vendor or Admin ID (empty for system changes)
+  actorRole: 'customer' | 'vendor' | 'admin' | 'system';
+  note?: string;
+  changedAt: Date;
 }
 
 export interface IOrder extends Document {
@@ -13,14 +77,23 @@ export interface IOrder extends Document {
   vendorProducts: IOrderItem[];
   totalAmount: number;
   shippingPrice: number;
+  discountAmount: number; // Coupon discount, already taken off grandTotal
   grandTotal: number;
+  coupon?: mongoose.Types.ObjectId; // Reference to Coupon
+  couponCode?: string;
+  discountFundedBy?: 'platform' | 'vendor'; // Vendor-funded discounts reduce vendor payouts
   paymentMethod: 'razorpay' | 'cod' | 'wallet';
+  walletAmount: number; // Part of grandTotal paid from the wallet (all of it for wallet orders)
   paymentStatus: 'pending' | 'completed' | 'failed' | 'refunded';
   razorpayPaymentId?: string;
   razorpayOrderId?: string;
   razorpaySignature?: string;
-  razorpayRefundId?: string; // Add this field for storing refund ID
-  orderStatus: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  razorpayRefundId?: string; // Most recent Razorpay refund (see Refund for the full list)
+  refundedAmount: number; // Sum of all refunds issued against the order
+  orderStatus: OrderStatus; // Derived from vendorGroups by the order lifecycle service
+  vendorGroups: IOrderVendorGroup[];
+  statusHistory: IOrderStatusHistory[]; // Append-only, written by the order lifecycle service
+  reservationExpiresAt?: Date; // Stock is held for unpaid Razorpay orders until this time
   shippingAddress: {
     name: string;
     street: string;
@@ -40,6 +113,8 @@ export interface IOrder extends Document {
     phone: string;
   };
   notes?: string;
+  requiresPrescription: boolean; // Order contains Rx-only products
+  prescription?: mongoose.Types.ObjectId; // Reference to Prescription
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,16 +136,106 @@ const OrderSchema: Schema = new Schema({
       ref: 'VendorProduct',
       required: true
     },
+    vendorId: {
+      type: Schema.Types.ObjectId
+    },
     quantity: {
       type: Number,
       required: true,
       min: 1
     },
+    cancelledQuantity: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    returnedQuantity: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     price: {
       type: Number,
       required: true,
       min: 0
-    }
+    },
+    listPrice: {
+      type: Number,
+      min: 0
+    },
+    discountPercent: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 100
+    },
+    listingDiscount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    shippingPrice: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    hsnCode: {
+      type: String
+    },
+    taxRate: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    taxableValue: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    cgst: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    sgst: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    igst: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    couponDiscount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    batches: [{
+      _id: false,
+      batchId: {
+        type: Schema.Types.ObjectId
+      },
+      batchNumber: {
+        type: String,
+        required: true
+      },
+      expiryDate: {
+        type: Date,
+        required: true
+      },
+      quantity: {
+        type: Number,
+        required: true,
+        min: 1
+      }
+    }]
   }],
   totalAmount: {
     type: Number,
@@ -83,17 +248,38 @@ const OrderSchema: Schema = new Schema({
     default: 0,
     min: 0
   },
+  discountAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   grandTotal: {
     type: Number,
     required: true,
     default: 0,
     min: 0
   },
+  coupon: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon'
+  },
+  couponCode: {
+    type: String
+  },
+  discountFundedBy: {
+    type: String,
+    enum: ['platform', 'vendor']
+  },
   paymentMethod: {
     type: String,
-    enum: ['razorpay', 'cod'],
+    enum: ['razorpay', 'cod', 'wallet'],
     default: 'razorpay'
   },
+  walletAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   paymentStatus: {
     type: String,
     enum: ['pending', 'completed', 'failed', 'refunded'],
@@ -111,11 +297,116 @@ const OrderSchema: Schema = new Schema({
   razorpayRefundId: {
     type: String
   },
+  refundedAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   orderStatus: {
     type: String,
     enum: ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'],
     default: 'pending'
   },
+  vendorGroups: [{
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'],
+      default: 'pending'
+    },
+    itemsTotal: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    discountTotal: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    shippingPrice: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    shippingBreakdown: {
+      _id: false,
+      baseFee: { type: Number, default: 0 },
+      slabFee: { type: Number, default: 0 },
+      zoneSurcharge: { type: Number, default: 0 },
+      zone: { type: String },
+      coldChainSurcharge: { type: Number, default: 0 },
+      freeShippingApplied: { type: Boolean, default: false },
+      legacy: { type: Boolean, default: true }
+    },
+    estimatedDeliveryDate: {
+      type: Date
+    },
+    trackingNumber: {
+      type: String,
+      trim: true
+    },
+    carrier: {
+      type: String,
+      trim: true
+    },
+    stockAllocated: {
+      type: Boolean,
+      default: false
+    },
+    shippedAt: {
+      type: Date
+    },
+    deliveredAt: {
+      type: Date
+    },
+    cancelledAt: {
+      type: Date
+    }
+  }],
+  statusHistory: [{
+    _id: false,
+    from: {
+      type: String,
+      enum: ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'],
+      immutable: true
+    },
+    to: {
+      type: String,
+      enum: ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'],
+      required: true,
+      immutable: true
+    },
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      immutable: true
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      immutable: true
+    },
+    actorRole: {
+      type: String,
+      enum: ['customer', 'vendor', 'admin', 'system'],
+      required: true,
+      immutable: true
+    },
+    note: {
+      type: String,
+      immutable: true
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+      immutable: true
+    }
+  }],
+  reservationExpiresAt: {
+    type: Date
+  },
   shippingAddress: {
     name: {
       type: String,
@@ -171,6 +462,14 @@ const OrderSchema: Schema = new Schema({
   },
   notes: {
     type: String
+  },
+  requiresPrescription: {
+    type: Boolean,
+    default: false
+  },
+  prescription: {
+    type: Schema.Types.ObjectId,
+    ref: 'Prescription'
   }
 }, {
   timestamps: true
@@ -181,6 +480,9 @@ OrderSchema.index({ user: 1 });
 OrderSchema.index({ orderStatus: 1 });
 OrderSchema.index({ paymentStatus: 1 });
 OrderSchema.index({ createdAt: -1 });
+OrderSchema.index({ prescription: 1 });
+OrderSchema.index({ 'vendorGroups.vendorId': 1, 'vendorGroups.status': 1 });
+OrderSchema.index({ 'vendorProducts.batches.batchNumber': 1 });
 
 // Add pagination plugins
 OrderSchema.plugin(mongoosePaginate);
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export interface IPaymentEvent extends Document {
+  eventId: string; // x-razorpay-event-id, used to process each delivery once
+  event: string; // e.g. payment.captured
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  razorpayRefundId?: string;
+  order?: mongoose.Types.ObjectId; // Reference to Order, once matched
+  payload: any; // Raw webhook body, kept for audit
+  signature: string;
+  status: 'received' | 'processed' | 'ignored' | 'failed';
+  attempts: number;
+  lockedUntil?: Date; // Held by the delivery processing it; reclaimed by a retry once this passes
+  message?: string; // Outcome or error of the last attempt
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IPaymentEventModel extends Model<IPaymentEvent> {
+  paginate: any;
+}
+
+const PaymentEventSchema: Schema = new Schema({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  razorpayOrderId: {
+    type: String
+  },
+  razorpayPaymentId: {
+    type: String
+  },
+  razorpayRefundId: {
+    type: String
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  signature: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['received', 'processed', 'ignored', 'failed'],
+    default: 'received'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date
+  },
+  message: {
+    type: String
+  },
+  processedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+PaymentEventSchema.index({ event: 1, createdAt: -1 });
+PaymentEventSchema.index({ status: 1 });
+PaymentEventSchema.index({ order: 1 });
+PaymentEventSchema.index({ razorpayOrderId: 1 });
+PaymentEventSchema.index({ razorpayPaymentId: 1 });
+
+// Add pagination plugin
+PaymentEventSchema.plugin(mongoosePaginate);
+
+const PaymentEvent = mongoose.model<IPaymentEvent, IPaymentEventModel>('PaymentEvent', PaymentEventSchema);
+export default PaymentEvent;
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Pincode directory entry, used to measure distances for radius-based serviceability
+export interface IPincodeLocation extends Document {
+  pincode: string;
+  city?: string;
+  state?: string;
+  latitude: number;
+  longitude: number;
+}
+
+const PincodeLocationSchema: Schema = new Schema({
+  pincode: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    match: /^\d{6}$/
+  },
+  city: {
+    type: String,
+    trim: true
+  },
+  state: {
+    type: String,
+    trim: true
+  },
+  latitude: {
+    type: Number,
+    required: true,
+    min: -90,
+    max: 90
+  },
+  longitude: {
+    type: Number,
+    required: true,
+    min: -180,
+    max: 180
+  }
+}, {
+  timestamps: true
+});
+
+const PincodeLocation = mongoose.model<IPincodeLocation>('PincodeLocation', PincodeLocationSchema);
+export default PincodeLocation;
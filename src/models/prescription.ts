@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export interface IPrescriptionFile {
+  url: string;
+  publicId: string; // Cloudinary public ID
+  fileType: 'image' | 'pdf';
+  originalName?: string;
+}
+
+// A vendor pharmacist's decision, which only covers that vendor's own prescription-only lines
+export interface IPrescriptionVendorReview {
+  vendorId: mongoose.Types.ObjectId; // Reference to Vendor
+  status: 'approved' | 'rejected';
+  reviewedAt: Date;
+  rejectionReason?: string;
+}
+
+export interface IPrescription extends Document {
+  user: mongoose.Types.ObjectId; // Reference to User
+  files: IPrescriptionFile[];
+  patientName?: string;
+  doctorName?: string;
+  notes?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewedBy?: mongoose.Types.ObjectId; // Vendor or Admin who reviewed it
+  reviewerRole?: 'vendor' | 'admin';
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  vendorReviews: IPrescriptionVendorReview[]; // Per-vendor decisions (status is only approved by an admin)
+  order?: mongoose.Types.ObjectId; // Order it was submitted with; a prescription clears that order only
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IPrescriptionModel extends Model<IPrescription> {
+  paginate: any;
+}
+
+const PrescriptionSchema: Schema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  files: {
+    type: [{
+      _id: false,
+      url: {
+        type: String,
+        required: true
+      },
+      publicId: {
+        type: String,
+        required: true
+      },
+      fileType: {
+        type: String,
+        enum: ['image', 'pdf'],
+        default: 'image'
+      },
+      originalName: {
+        type: String
+      }
+    }],
+    validate: [(files: IPrescriptionFile[]) => files.length > 0, 'At least one prescription file is required']
+  },
+  patientName: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  doctorName: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId
+  },
+  reviewerRole: {
+    type: String,
+    enum: ['vendor', 'admin']
+  },
+  reviewedAt: {
+    type: Date
+  },
+  rejectionReason: {
+    type: String,
+    maxlength: 500
+  },
+  vendorReviews: [{
+    _id: false,
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['approved', 'rejected'],
+      required: true
+    },
+    reviewedAt: {
+      type: Date,
+      default: Date.now
+    },
+    rejectionReason: {
+      type: String,
+      maxlength: 500
+    }
+  }],
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+PrescriptionSchema.index({ user: 1 });
+PrescriptionSchema.index({ status: 1 });
+PrescriptionSchema.index({ createdAt: -1 });
+PrescriptionSchema.index({ order: 1 });
+
+// Add pagination plugin
+PrescriptionSchema.plugin(mongoosePaginate);
+
+const Prescription = mongoose.model<IPrescription, IPrescriptionModel>('Prescription', PrescriptionSchema);
+export default Prescription;
@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import mongoosePaginate from 'mongoose-paginate-v2';
 import aggregatePaginate from 'mongoose-aggregate-paginate-v2';
+import { getCompositionKey } from '../utils/composition';
 
 export interface IProductImage {
   url: string;
@@ -8,6 +9,27 @@ export interface IProductImage {
   alt?: string;
 }
 
+export const DOSAGE_FORMS = [
+  'tablet', 'capsule', 'syrup', 'suspension', 'drops', 'injection', 'cream', 'ointment',
+  'gel', 'lotion', 'inhaler', 'spray', 'powder', 'sachet', 'suppository', 'patch', 'other'
+] as const;
+export type DosageForm = typeof DOSAGE_FORMS[number];
+
+export interface IActiveIngredient {
+  name: string; // Salt / molecule, e.g. "Paracetamol"
+  strength: number;
+  unit: 'mg' | 'mcg' | 'g' | 'ml' | 'iu' | '%';
+  perAmount?: number; // Strength is per this much of the product (e.g. 250 mg per 5 ml)
+  perUnit?: 'ml' | 'g';
+}
+
+export interface IProductComposition {
+  activeIngredients: IActiveIngredient[];
+  dosageForm?: DosageForm;
+  packSize?: number; // Units in one pack, e.g. 15 tablets or 100 ml
+  packUnit?: string; // What packSize counts, e.g. "tablets", "ml"
+}
+
 export interface IProduct extends Document {
   name: string;
   description?: string;
@@ -16,6 +38,16 @@ export interface IProduct extends Document {
   brand?: mongoose.Types.ObjectId; // Reference to Brand model
   globalProduct?: mongoose.Types.ObjectId; // Reference to GlobalProduct model
   images: IProductImage[];
+  requiresPrescription: boolean; // Rx-only item, needs an approved prescription at checkout
+  isReturnable: boolean; // Whether returned units can be put back into stock
+  hsnCode?: string; // HSN classification printed on tax invoices
+  gstRate: number; // GST percentage included in the selling price
+  weightGrams?: number; // Shipping weight of one unit
+  requiresColdChain: boolean; // Must ship refrigerated (vaccines, insulin)
+  composition?: IProductComposition; // Structured salts and strengths, for generic substitutes
+  compositionKey?: string; // Canonical form of the composition (see utils/composition), shared by substitutes
+  averageRating: number; // Mean of approved reviews (see reviewService)
+  ratingCount: number; // Number of approved reviews
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,6 +62,16 @@ export interface IProductPopulated extends Document {
   brand?: mongoose.Types.ObjectId;
   globalProduct?: mongoose.Types.ObjectId;
   images: IProductImage[];
+  requiresPrescription: boolean;
+  isReturnable: boolean;
+  hsnCode?: string;
+  gstRate: number;
+  weightGrams?: number;
+  requiresColdChain: boolean;
+  composition?: IProductComposition;
+  compositionKey?: string;
+  averageRating: number;
+  ratingCount: number;
   createdAt: Date;
   updatedAt: Date;
   categoryDetails?: {
@@ -88,11 +130,114 @@ const ProductSchema: Schema = new Schema({
       required: true 
     },
     alt: { type: String },
-  }]
+  }],
+  requiresPrescription: {
+    type: Boolean,
+    default: false
+  },
+  isReturnable: {
+    type: Boolean,
+    default: true
+  },
+  hsnCode: {
+    type: String,
+    trim: true,
+    match: [/^\d{4,8}$/, 'HSN code must be 4 to 8 digits']
+  },
+  gstRate: {
+    type: Number,
+    enum: [0, 5, 12, 18, 28],
+    default: 5
+  },
+  weightGrams: {
+    type: Number,
+    min: 0
+  },
+  requiresColdChain: {
+    type: Boolean,
+    default: false
+  },
+  composition: {
+    activeIngredients: [{
+      _id: false,
+      name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 100
+      },
+      strength: {
+        type: Number,
+        required: true,
+        min: 0
+      },
+      unit: {
+        type: String,
+        enum: ['mg', 'mcg', 'g', 'ml', 'iu', '%'],
+        required: true
+      },
+      perAmount: {
+        type: Number,
+        min: 0
+      },
+      perUnit: {
+        type: String,
+        enum: ['ml', 'g']
+      }
+    }],
+    dosageForm: {
+      type: String,
+      enum: DOSAGE_FORMS
+    },
+    packSize: {
+      type: Number,
+      min: 0
+    },
+    packUnit: {
+      type: String,
+      trim: true,
+      maxlength: 20
+    }
+  },
+  compositionKey: {
+    type: String
+  },
+  averageRating: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 5
+  },
+  ratingCount: {
+    type: Number,
+    default: 0
+  }
 }, {
   timestamps: true
 });
 
+// Keep the composition key in step with the composition
+ProductSchema.pre('save', function (next) {
+  if (this.isModified('composition')) {
+    this.set('compositionKey', getCompositionKey(this.get('composition') as IProductComposition));
+  }
+  next();
+});
+
+ProductSchema.pre('findOneAndUpdate', function (next) {
+  const update: any = this.getUpdate() || {};
+  const composition = update.composition !== undefined ? update.composition : update.$set?.composition;
+  if (composition !== undefined) {
+    const compositionKey = getCompositionKey(composition);
+    if (compositionKey) {
+      this.set('compositionKey', compositionKey);
+    } else {
+      this.setUpdate({ ...update, $unset: { ...update.$unset, compositionKey: 1 } });
+    }
+  }
+  next();
+});
+
 // Add pagination plugins
 ProductSchema.plugin(mongoosePaginate);
 ProductSchema.plugin(aggregatePaginate);
@@ -103,6 +248,9 @@ ProductSchema.index({ category: 1 });
 ProductSchema.index({ subCategory: 1 });
 
 ProductSchema.index({ globalProduct: 1 });
+ProductSchema.index({ requiresPrescription: 1 });
+ProductSchema.index({ averageRating: -1 });
+ProductSchema.index({ compositionKey: 1 }, { sparse: true });
 
 const Product = mongoose.model<IProduct, IProductModel>('Product', ProductSchema);
 export default Product;
\ No newline at end of file
@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export type QuestionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface IProductAnswer {
+  _id?: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId; // Vendor or Admin ID
+  authorRole: 'vendor' | 'admin';
+  answer: string;
+  status: 'approved' | 'rejected'; // Answers are shown right away; admins can hide them
+  upvotes: mongoose.Types.ObjectId[]; // Users who found the answer useful
+  upvoteCount: number;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface IProductQuestion extends Document {
+  product: mongoose.Types.ObjectId; // Reference to Product
+  user: mongoose.Types.ObjectId; // Customer asking
+  question: string;
+  status: QuestionStatus; // Only approved questions are shown on the product page
+  moderationNote?: string;
+  moderatedBy?: mongoose.Types.ObjectId; // Admin ID
+  moderatedAt?: Date;
+  answers: IProductAnswer[];
+  answerCount: number; // Approved answers
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IProductQuestionModel extends Model<IProductQuestion> {
+  paginate: any;
+}
+
+const ProductAnswerSchema: Schema = new Schema({
+  author: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  authorRole: {
+    type: String,
+    enum: ['vendor', 'admin'],
+    required: true
+  },
+  answer: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 2000
+  },
+  status: {
+    type: String,
+    enum: ['approved', 'rejected'],
+    default: 'approved'
+  },
+  upvotes: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  upvoteCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+const ProductQuestionSchema: Schema = new Schema({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  question: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 1000
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  moderationNote: {
+    type: String,
+    maxlength: 500
+  },
+  moderatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin'
+  },
+  moderatedAt: {
+    type: Date
+  },
+  answers: [ProductAnswerSchema],
+  answerCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Keep the count of visible answers in step with the answers
+ProductQuestionSchema.pre<IProductQuestion>('save', function(next) {
+  this.answerCount = this.answers.filter(answer => answer.status === 'approved').length;
+  next();
+});
+
+// Add indexes
+ProductQuestionSchema.index({ product: 1, status: 1, createdAt: -1 });
+ProductQuestionSchema.index({ user: 1, createdAt: -1 });
+ProductQuestionSchema.index({ status: 1, createdAt: -1 });
+
+// Add pagination plugin
+ProductQuestionSchema.plugin(mongoosePaginate);
+
+const ProductQuestion = mongoose.model<IProductQuestion, IProductQuestionModel>('ProductQuestion', ProductQuestionSchema);
+export default ProductQuestion;
@@ -0,0 +1,151 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export type RecallOrderStatus = 'pending' | 'notified' | 'return_requested' | 'returned' | 'resolved' | 'unreachable';
+
+export interface IRecallOrderItem {
+  vendorProductId: mongoose.Types.ObjectId;
+  vendorId: mongoose.Types.ObjectId;
+  batchNumber?: string; // Missing when the order predates batch tracking
+  quantity: number;
+}
+
+export interface IRecallOrder {
+  _id?: mongoose.Types.ObjectId;
+  order: mongoose.Types.ObjectId; // Reference to Order
+  user: mongoose.Types.ObjectId; // Reference to User
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+  };
+  items: IRecallOrderItem[];
+  batchUnknown: boolean; // Listing matched but the order line has no batch record
+  status: RecallOrderStatus;
+  notes?: string;
+  updatedAt?: Date;
+}
+
+export interface IRecall extends Document {
+  product: mongoose.Types.ObjectId; // Reference to Product
+  reason: string;
+  batchNumbers: string[]; // Explicit batch numbers, empty means all batches
+  batchRange?: {
+    from: string;
+    to: string;
+  };
+  status: 'open' | 'closed';
+  initiatedBy: mongoose.Types.ObjectId; // Reference to Admin
+  deactivatedVendorProducts: mongoose.Types.ObjectId[];
+  affectedOrders: IRecallOrder[];
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IRecallModel extends Model<IRecall> {
+  paginate: any;
+}
+
+const RecallSchema: Schema = new Schema({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    maxlength: 1000
+  },
+  batchNumbers: [{
+    type: String,
+    trim: true,
+    uppercase: true
+  }],
+  batchRange: {
+    from: { type: String, trim: true, uppercase: true },
+    to: { type: String, trim: true, uppercase: true }
+  },
+  status: {
+    type: String,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+  initiatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: true
+  },
+  deactivatedVendorProducts: [{
+    type: Schema.Types.ObjectId,
+    ref: 'VendorProduct'
+  }],
+  affectedOrders: [{
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    customer: {
+      name: { type: String },
+      email: { type: String },
+      phone: { type: String },
+      address: { type: String }
+    },
+    items: [{
+      _id: false,
+      vendorProductId: {
+        type: Schema.Types.ObjectId,
+        ref: 'VendorProduct'
+      },
+      vendorId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Vendor'
+      },
+      batchNumber: { type: String },
+      quantity: { type: Number, min: 0 }
+    }],
+    batchUnknown: {
+      type: Boolean,
+      default: false
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'notified', 'return_requested', 'returned', 'resolved', 'unreachable'],
+      default: 'pending'
+    },
+    notes: {
+      type: String,
+      maxlength: 1000
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  closedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+RecallSchema.index({ product: 1 });
+RecallSchema.index({ status: 1 });
+RecallSchema.index({ 'affectedOrders.order': 1 });
+RecallSchema.index({ createdAt: -1 });
+
+// Add pagination plugin
+RecallSchema.plugin(mongoosePaginate);
+
+const Recall = mongoose.model<IRecall, IRecallModel>('Recall', RecallSchema);
+export default Recall;
@@ -0,0 +1,143 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export interface IRefundItem {
+  vendorProductId: mongoose.Types.ObjectId; // Reference to VendorProduct
+  vendorId?: mongoose.Types.ObjectId; // Seller of the line, for payout adjustment
+  quantity: number;
+  amount: number; // quantity x price at the time of order
+}
+
+export interface IRefund extends Document {
+  order: mongoose.Types.ObjectId; // Reference to Order
+  user: mongoose.Types.ObjectId; // Customer being refunded
+  type: 'cancellation' | 'return' | 'payment_reversal';
+  items: IRefundItem[]; // Refunded lines (empty for whole-payment reversals)
+  shippingAmount: number; // Shipping refunded with the lines
+  amount: number; // Total refunded
+  walletAmount: number; // Part of the amount credited to the customer's wallet
+  reason?: string;
+  initiatedBy?: mongoose.Types.ObjectId; // User, Vendor or Admin ID (empty for system refunds)
+  initiatorRole: 'customer' | 'vendor' | 'admin' | 'system';
+  method: 'razorpay' | 'cod' | 'wallet'; // Where the non-wallet part goes ('wallet' when all of it is credited there)
+  gatewayStatus: 'pending' | 'processed' | 'failed' | 'manual'; // manual: settled outside the gateway (e.g. COD)
+  razorpayRefundId?: string;
+  submissionAttempts: number; // Times the refund was sent to Razorpay (see submitGatewayRefund)
+  lastSubmittedAt?: Date; // Last attempt, also keeps two attempts from running at once
+  failureReason?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IRefundModel extends Model<IRefund> {
+  paginate: any;
+}
+
+const RefundSchema: Schema = new Schema({
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['cancellation', 'return', 'payment_reversal'],
+    required: true
+  },
+  items: [{
+    _id: false,
+    vendorProductId: {
+      type: Schema.Types.ObjectId,
+      ref: 'VendorProduct',
+      required: true
+    },
+    vendorId: {
+      type: Schema.Types.ObjectId
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  }],
+  shippingAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  walletAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  reason: {
+    type: String,
+    trim: true
+  },
+  initiatedBy: {
+    type: Schema.Types.ObjectId
+  },
+  initiatorRole: {
+    type: String,
+    enum: ['customer', 'vendor', 'admin', 'system'],
+    required: true
+  },
+  method: {
+    type: String,
+    enum: ['razorpay', 'cod', 'wallet'],
+    required: true
+  },
+  gatewayStatus: {
+    type: String,
+    enum: ['pending', 'processed', 'failed', 'manual'],
+    default: 'pending'
+  },
+  razorpayRefundId: {
+    type: String
+  },
+  submissionAttempts: {
+    type: Number,
+    default: 0
+  },
+  lastSubmittedAt: {
+    type: Date
+  },
+  failureReason: {
+    type: String
+  },
+  processedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+RefundSchema.index({ order: 1, createdAt: -1 });
+RefundSchema.index({ user: 1 });
+RefundSchema.index({ gatewayStatus: 1 });
+RefundSchema.index({ razorpayRefundId: 1 }, { unique: true, sparse: true });
+RefundSchema.index({ 'items.vendorId': 1 });
+
+// Add pagination plugin
+RefundSchema.plugin(mongoosePaginate);
+
+const Refund = mongoose.model<IRefund, IRefundModel>('Refund', RefundSchema);
+export default Refund;
@@ -0,0 +1,194 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export type ReturnStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'pickup_scheduled'
+  | 'picked_up'
+  | 'received'
+  | 'refunded'
+  | 'cancelled';
+
+export interface IReturnItem {
+  vendorProductId: mongoose.Types.ObjectId; // Reference to VendorProduct
+  quantity: number;
+  price: number; // Price at the time of order
+  reason?: string;
+  condition?: 'sealed' | 'opened' | 'damaged'; // Recorded when the item is received
+  restocked: boolean; // Whether the units went back into sellable stock
+}
+
+export interface IReturnPhoto {
+  url: string;
+  publicId: string; // Cloudinary public ID
+}
+
+export interface IReturnHistory {
+  status: ReturnStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  actorRole: 'customer' | 'vendor' | 'admin';
+  note?: string;
+  changedAt: Date;
+}
+
+export interface IReturnRequest extends Document {
+  order: mongoose.Types.ObjectId; // Reference to Order
+  user: mongoose.Types.ObjectId; // Customer returning the items
+  vendorId: mongoose.Types.ObjectId; // Vendor (or Admin) whose lines are returned
+  items: IReturnItem[];
+  reason: string;
+  photos: IReturnPhoto[];
+  status: ReturnStatus;
+  rejectionReason?: string;
+  pickup?: {
+    scheduledFor?: Date;
+    carrier?: string;
+    trackingNumber?: string;
+    pickedUpAt?: Date;
+  };
+  receivedAt?: Date;
+  refund?: mongoose.Types.ObjectId; // Reference to Refund, once issued
+  history: IReturnHistory[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IReturnRequestModel extends Model<IReturnRequest> {
+  paginate: any;
+}
+
+const RETURN_STATUSES = ['requested', 'approved', 'rejected', 'pickup_scheduled', 'picked_up', 'received', 'refunded', 'cancelled'];
+
+const ReturnRequestSchema: Schema = new Schema({
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  vendorId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  items: [{
+    _id: false,
+    vendorProductId: {
+      type: Schema.Types.ObjectId,
+      ref: 'VendorProduct',
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    reason: {
+      type: String,
+      trim: true
+    },
+    condition: {
+      type: String,
+      enum: ['sealed', 'opened', 'damaged']
+    },
+    restocked: {
+      type: Boolean,
+      default: false
+    }
+  }],
+  reason: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  photos: [{
+    _id: false,
+    url: {
+      type: String,
+      required: true
+    },
+    publicId: {
+      type: String,
+      required: true
+    }
+  }],
+  status: {
+    type: String,
+    enum: RETURN_STATUSES,
+    default: 'requested'
+  },
+  rejectionReason: {
+    type: String
+  },
+  pickup: {
+    scheduledFor: {
+      type: Date
+    },
+    carrier: {
+      type: String,
+      trim: true
+    },
+    trackingNumber: {
+      type: String,
+      trim: true
+    },
+    pickedUpAt: {
+      type: Date
+    }
+  },
+  receivedAt: {
+    type: Date
+  },
+  refund: {
+    type: Schema.Types.ObjectId,
+    ref: 'Refund'
+  },
+  history: [{
+    _id: false,
+    status: {
+      type: String,
+      enum: RETURN_STATUSES,
+      required: true
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId
+    },
+    actorRole: {
+      type: String,
+      enum: ['customer', 'vendor', 'admin'],
+      required: true
+    },
+    note: {
+      type: String
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Add indexes
+ReturnRequestSchema.index({ order: 1 });
+ReturnRequestSchema.index({ user: 1, createdAt: -1 });
+ReturnRequestSchema.index({ vendorId: 1, status: 1 });
+ReturnRequestSchema.index({ status: 1 });
+
+// Add pagination plugin
+ReturnRequestSchema.plugin(mongoosePaginate);
+
+const ReturnRequest = mongoose.model<IReturnRequest, IReturnRequestModel>('ReturnRequest', ReturnRequestSchema);
+export default ReturnRequest;
@@ -0,0 +1,118 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export type ReviewTarget = 'product' | 'vendor';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface IReview extends Document {
+  targetType: ReviewTarget;
+  product?: mongoose.Types.ObjectId; // Reference to Product (product reviews)
+  vendor: mongoose.Types.ObjectId; // Vendor reviewed, or the vendor the product was bought from
+  user: mongoose.Types.ObjectId; // Customer writing the review
+  order: mongoose.Types.ObjectId; // Delivered order proving the purchase
+  rating: number; // 1 to 5 stars
+  title?: string;
+  comment?: string;
+  isVerifiedPurchase: boolean; // Shown as a badge; set from the delivered order
+  status: ReviewStatus; // Only approved reviews are shown and counted in ratings
+  moderationNote?: string;
+  moderatedBy?: mongoose.Types.ObjectId; // Admin ID
+  moderatedAt?: Date;
+  helpfulVotes: mongoose.Types.ObjectId[]; // Users who found the review helpful
+  helpfulCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IReviewModel extends Model<IReview> {
+  paginate: any;
+}
+
+const ReviewSchema: Schema = new Schema({
+  targetType: {
+    type: String,
+    enum: ['product', 'vendor'],
+    required: true
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product'
+  },
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vendor',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: 150
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  isVerifiedPurchase: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  moderationNote: {
+    type: String,
+    maxlength: 500
+  },
+  moderatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin'
+  },
+  moderatedAt: {
+    type: Date
+  },
+  helpfulVotes: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  helpfulCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+// One review per customer per product, and per vendor
+ReviewSchema.index({ user: 1, product: 1 }, { unique: true, partialFilterExpression: { targetType: 'product' } });
+ReviewSchema.index({ user: 1, vendor: 1 }, { unique: true, partialFilterExpression: { targetType: 'vendor' } });
+ReviewSchema.index({ targetType: 1, product: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ targetType: 1, vendor: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ status: 1, createdAt: -1 });
+
+// Add pagination plugin
+ReviewSchema.plugin(mongoosePaginate);
+
+const Review = mongoose.model<IReview, IReviewModel>('Review', ReviewSchema);
+export default Review;
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Denormalised search entry of one approved, active vendor listing (see searchIndexService)
+export interface ISearchDocument extends Document {
+  vendorProduct: mongoose.Types.ObjectId; // Reference to VendorProduct
+  product: mongoose.Types.ObjectId; // Reference to Product
+  vendor: mongoose.Types.ObjectId; // Vendor (or Admin for admin listings)
+  category?: mongoose.Types.ObjectId;
+  subCategory?: mongoose.Types.ObjectId;
+  brand?: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  brandName?: string;
+  categoryName?: string;
+  subCategoryName?: string;
+  salts: string[]; // Generic names / active ingredients the product is grouped under
+  terms: string[]; // Normalised words of all the text fields
+  grams: string[]; // Trigrams of the terms, for matching misspelled queries
+  sellingPrice: number;
+  requiresPrescription: boolean;
+  averageRating: number;
+  inStock: boolean;
+  indexedAt: Date;
+}
+
+const SearchDocumentSchema: Schema = new Schema({
+  vendorProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'VendorProduct',
+    required: true,
+    unique: true
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  vendor: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  category: {
+    type: Schema.Types.ObjectId
+  },
+  subCategory: {
+    type: Schema.Types.ObjectId
+  },
+  brand: {
+    type: Schema.Types.ObjectId
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String
+  },
+  brandName: {
+    type: String
+  },
+  categoryName: {
+    type: String
+  },
+  subCategoryName: {
+    type: String
+  },
+  salts: [{
+    type: String
+  }],
+  terms: [{
+    type: String
+  }],
+  grams: [{
+    type: String
+  }],
+  sellingPrice: {
+    type: Number,
+    default: 0
+  },
+  requiresPrescription: {
+    type: Boolean,
+    default: false
+  },
+  averageRating: {
+    type: Number,
+    default: 0
+  },
+  inStock: {
+    type: Boolean,
+    default: false
+  },
+  indexedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Add indexes
+SearchDocumentSchema.index({ grams: 1 });
+SearchDocumentSchema.index({ terms: 1 });
+SearchDocumentSchema.index({ product: 1 });
+SearchDocumentSchema.index({ indexedAt: 1 });
+
+const SearchDocument = mongoose.model<ISearchDocument>('SearchDocument', SearchDocumentSchema);
+export default SearchDocument;
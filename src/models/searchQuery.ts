@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+// A search customers have run, counted to suggest popular searches
+export interface ISearchQuery extends Document {
+  normalized: string; // Lower case, no punctuation; one record per query
+  text: string; // As last typed
+  count: number; // Different searchers that ran it (each counted at most once a day)
+  resultCount: number; // Matches the last time it was searched
+  lastSearchedAt: Date;
+  isBlocked: boolean; // Hidden from popular searches by an admin
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface ISearchQueryModel extends Model<ISearchQuery> {
+  paginate: any;
+}
+
+const SearchQuerySchema: Schema = new Schema({
+  normalized: {
+    type: String,
+    required: true,
+    unique: true,
+    maxlength: 200
+  },
+  text: {
+    type: String,
+    required: true,
+    maxlength: 200
+  },
+  count: {
+    type: Number,
+    default: 0
+  },
+  resultCount: {
+    type: Number,
+    default: 0
+  },
+  lastSearchedAt: {
+    type: Date,
+    default: Date.now
+  },
+  isBlocked: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+SearchQuerySchema.index({ count: -1 });
+
+// Add pagination plugin
+SearchQuerySchema.plugin(mongoosePaginate);
+
+const SearchQuery = mongoose.model<ISearchQuery, ISearchQueryModel>('SearchQuery', SearchQuerySchema);
+export default SearchQuery;
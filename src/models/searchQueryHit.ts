@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One searcher having run a query recently; a query's popularity only counts each searcher once
+export interface ISearchQueryHit extends Document {
+  normalized: string; // SearchQuery it counted towards
+  searcher: string; // Hash of the searcher's IP address
+  createdAt: Date; // Removed a day later, after which the searcher counts again
+}
+
+const SearchQueryHitSchema: Schema = new Schema({
+  normalized: {
+    type: String,
+    required: true,
+    maxlength: 200
+  },
+  searcher: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Add indexes
+SearchQueryHitSchema.index({ normalized: 1, searcher: 1 }, { unique: true });
+SearchQueryHitSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+const SearchQueryHit = mongoose.model<ISearchQueryHit>('SearchQueryHit', SearchQueryHitSchema);
+export default SearchQueryHit;
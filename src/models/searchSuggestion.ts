@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SuggestionType = 'product' | 'brand' | 'category';
+
+// Type-ahead entry for a product, brand or category with live listings (see suggestService)
+export interface ISearchSuggestion extends Document {
+  type: SuggestionType;
+  ref: mongoose.Types.ObjectId; // Product, Brand or Category ID
+  text: string; // Shown to the customer
+  keys: string[]; // Normalised text and each of its word-starting tails, matched by prefix
+  weight: number; // Number of live listings, ranks suggestions of the same prefix
+  updatedAt: Date;
+}
+
+const SearchSuggestionSchema: Schema = new Schema({
+  type: {
+    type: String,
+    enum: ['product', 'brand', 'category'],
+    required: true
+  },
+  ref: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  keys: [{
+    type: String
+  }],
+  weight: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: { createdAt: false, updatedAt: true }
+});
+
+// Add indexes
+SearchSuggestionSchema.index({ type: 1, ref: 1 }, { unique: true });
+SearchSuggestionSchema.index({ keys: 1, weight: -1 });
+SearchSuggestionSchema.index({ updatedAt: 1 });
+
+const SearchSuggestion = mongoose.model<ISearchSuggestion>('SearchSuggestion', SearchSuggestionSchema);
+export default SearchSuggestion;
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+// Group of words or phrases that mean the same thing to search (e.g. paracetamol, acetaminophen)
+export interface ISearchSynonym extends Document {
+  terms: string[]; // Normalised (lower case, no punctuation), at least two
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId; // Admin ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface ISearchSynonymModel extends Model<ISearchSynonym> {
+  paginate: any;
+}
+
+const SearchSynonymSchema: Schema = new Schema({
+  terms: {
+    type: [String],
+    validate: [(terms: string[]) => terms.length >= 2, 'A synonym group needs at least two terms']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin'
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+SearchSynonymSchema.index({ terms: 1 });
+
+// Add pagination plugin
+SearchSynonymSchema.plugin(mongoosePaginate);
+
+const SearchSynonym = mongoose.model<ISearchSynonym, ISearchSynonymModel>('SearchSynonym', SearchSynonymSchema);
+export default SearchSynonym;
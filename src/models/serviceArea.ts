@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Where a vendor delivers from and to, and how long it takes
+export interface IServiceArea extends Document {
+  vendorId: mongoose.Types.ObjectId; // Vendor (or Admin for admin listings)
+  mode: 'all' | 'pincodes' | 'radius'; // Everywhere, listed pincodes only, or within radiusKm of the warehouse
+  pincodes: string[]; // Exact pincodes served ('pincodes' mode)
+  pincodePrefixes: string[]; // Pincode prefixes served, e.g. "560" ('pincodes' mode)
+  warehouse: {
+    pincode: string;
+    latitude?: number; // Looked up from the pincode directory when empty
+    longitude?: number;
+  };
+  radiusKm?: number; // 'radius' mode
+  handlingDays: number; // Days to pack and hand over to the carrier
+  localTransitDays: number; // Transit within the warehouse's city (same first three pincode digits)
+  transitDays: number; // Transit anywhere else
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ServiceAreaSchema: Schema = new Schema({
+  vendorId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    unique: true
+  },
+  mode: {
+    type: String,
+    enum: ['all', 'pincodes', 'radius'],
+    default: 'all'
+  },
+  pincodes: [{
+    type: String,
+    trim: true,
+    match: /^\d{6}$/
+  }],
+  pincodePrefixes: [{
+    type: String,
+    trim: true,
+    match: /^\d{1,5}$/
+  }],
+  warehouse: {
+    pincode: {
+      type: String,
+      required: true,
+      trim: true,
+      match: /^\d{6}$/
+    },
+    latitude: { type: Number, min: -90, max: 90 },
+    longitude: { type: Number, min: -180, max: 180 }
+  },
+  radiusKm: {
+    type: Number,
+    min: 0
+  },
+  handlingDays: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  localTransitDays: {
+    type: Number,
+    default: 1,
+    min: 0
+  },
+  transitDays: {
+    type: Number,
+    default: 4,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+ServiceAreaSchema.index({ isActive: 1, mode: 1 });
+
+const ServiceArea = mongoose.model<IServiceArea>('ServiceArea', ServiceAreaSchema);
+export default ServiceArea;
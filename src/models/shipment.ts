@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ShipmentStatus =
+  | 'created'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'delivery_failed'
+  | 'returned_to_origin'
+  | 'cancelled';
+
+// One scan (or status update) reported by the carrier
+export interface IShipmentEvent {
+  status: ShipmentStatus;
+  description?: string;
+  location?: string;
+  carrierStatus?: string; // Status code exactly as the carrier sent it
+  occurredAt: Date;
+}
+
+// Parcel of one vendor group handed to a carrier
+export interface IShipment extends Document {
+  order: mongoose.Types.ObjectId; // Reference to Order
+  vendorId: mongoose.Types.ObjectId; // Vendor (or Admin) whose group is shipped
+  carrier: string; // Carrier adapter code, e.g. "mock" or "manual"
+  carrierName?: string; // Display name (e.g. the courier a vendor booked themselves)
+  awbNumber: string; // Air waybill / tracking number
+  trackingUrl?: string;
+  status: ShipmentStatus;
+  events: IShipmentEvent[]; // Oldest first
+  isActive: boolean; // Superseded shipments (re-booked with another AWB) are kept but no longer tracked
+  lastSyncedAt?: Date;
+  deliveredAt?: Date;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = [
+  'created',
+  'picked_up',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+  'delivery_failed',
+  'returned_to_origin',
+  'cancelled'
+];
+
+const ShipmentSchema: Schema = new Schema({
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  vendorId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  carrier: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  carrierName: {
+    type: String,
+    trim: true
+  },
+  awbNumber: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  trackingUrl: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: SHIPMENT_STATUSES,
+    default: 'created'
+  },
+  events: [{
+    _id: false,
+    status: { type: String, enum: SHIPMENT_STATUSES, required: true },
+    description: { type: String },
+    location: { type: String },
+    carrierStatus: { type: String },
+    occurredAt: { type: Date, required: true }
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastSyncedAt: {
+    type: Date
+  },
+  deliveredAt: {
+    type: Date
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+ShipmentSchema.index({ carrier: 1, awbNumber: 1 }, { unique: true });
+ShipmentSchema.index({ order: 1, vendorId: 1 });
+ShipmentSchema.index({ isActive: 1, status: 1, lastSyncedAt: 1 });
+
+const Shipment = mongoose.model<IShipment>('Shipment', ShipmentSchema);
+export default Shipment;
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+export interface IShippingSlab {
+  upTo?: number; // Upper bound (grams or units) of the slab, empty for the last open-ended slab
+  fee: number; // Added to the base fee when the shipment falls in this slab
+}
+
+export interface IShippingZone {
+  name: string;
+  pincodePrefixes: string[]; // e.g. "560" for Bengaluru, "19" for Jammu & Kashmir
+  surcharge: number;
+}
+
+export interface IShippingProfile extends Document {
+  vendorId: mongoose.Types.ObjectId; // Vendor (or Admin for admin listings)
+  baseFee: number; // Charged once per vendor group
+  slabBasis: 'weight' | 'quantity'; // Total grams or total units
+  slabs: IShippingSlab[]; // Sorted by upTo; the first matching slab applies
+  zones: IShippingZone[]; // The longest matching pincode prefix applies
+  freeShippingThreshold?: number; // Items value from which base, slab and zone fees are waived
+  coldChainSurcharge: number; // Added when any item needs cold-chain shipping, even with free shipping
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IShippingProfileModel extends Model<IShippingProfile> {
+  paginate: any;
+}
+
+const ShippingProfileSchema: Schema = new Schema({
+  vendorId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    unique: true
+  },
+  baseFee: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  slabBasis: {
+    type: String,
+    enum: ['weight', 'quantity'],
+    default: 'weight'
+  },
+  slabs: [{
+    _id: false,
+    upTo: { type: Number, min: 0 },
+    fee: { type: Number, required: true, min: 0 }
+  }],
+  zones: [{
+    _id: false,
+    name: { type: String, required: true, trim: true },
+    pincodePrefixes: [{ type: String, trim: true, match: /^\d{1,6}$/ }],
+    surcharge: { type: Number, default: 0, min: 0 }
+  }],
+  freeShippingThreshold: {
+    type: Number,
+    min: 0
+  },
+  coldChainSurcharge: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Keep slabs in ascending order with the open-ended slab last
+ShippingProfileSchema.pre<IShippingProfile>('save', function(next) {
+  this.slabs.sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  next();
+});
+
+// Add pagination plugin
+ShippingProfileSchema.plugin(mongoosePaginate);
+
+const ShippingProfile = mongoose.model<IShippingProfile, IShippingProfileModel>('ShippingProfile', ShippingProfileSchema);
+export default ShippingProfile;
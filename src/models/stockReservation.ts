@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IStockReservation extends Document {
+  order: mongoose.Types.ObjectId; // Reference to Order
+  vendorProduct: mongoose.Types.ObjectId; // Reference to VendorProduct
+  quantity: number;
+  expiresAt: Date; // Held until the payment is verified or this time passes
+  status: 'active' | 'converted' | 'released';
+  releasedAt?: Date; // When the hold was converted to a stock decrement or released
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StockReservationSchema: Schema = new Schema({
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  vendorProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'VendorProduct',
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'converted', 'released'],
+    default: 'active'
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+StockReservationSchema.index({ order: 1, status: 1 });
+StockReservationSchema.index({ status: 1, expiresAt: 1 });
+StockReservationSchema.index({ vendorProduct: 1 });
+
+const StockReservation = mongoose.model<IStockReservation>('StockReservation', StockReservationSchema);
+export default StockReservation;
@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import mongoosePaginate from 'mongoose-paginate-v2';
 import aggregatePaginate from 'mongoose-aggregate-paginate-v2';
+import { getSellingPrice } from '../services/pricingService';
 
 export interface IVendorProductImage {
   url: string;
@@ -8,6 +9,16 @@ export interface IVendorProductImage {
   alt?: string;
 }
 
+export interface IVendorProductBatch {
+  _id?: mongoose.Types.ObjectId;
+  batchNumber: string; // Manufacturer lot/batch number
+  manufactureDate?: Date;
+  expiryDate: Date;
+  quantity: number; // Units remaining in this batch
+  isRecalled?: boolean; // Quarantined by a product recall, never sold
+  createdAt?: Date;
+}
+
 export interface IVendorProduct extends Document {
   productId: mongoose.Types.ObjectId; // Reference to Product
   vendorId: mongoose.Types.ObjectId; // Reference to Vendor
@@ -16,7 +27,9 @@ export interface IVendorProduct extends Document {
   discount: number; // Discount percentage (0-100)
   shippingPrice: number;
   totalPrice: number;
-  stock: number;
+  stock: number; // Sum of non-expired batch quantities when batches are tracked
+  reservedStock: number; // Units held by unpaid checkouts (see StockReservation)
+  batches: mongoose.Types.DocumentArray<IVendorProductBatch>;
   sku: string; // Vendor-specific SKU
   status: 'pending' | 'approved' | 'rejected';
   isFeatured: boolean;
@@ -82,6 +95,40 @@ const VendorProductSchema: Schema = new Schema({
     min: 0,
     default: 0
   },
+  reservedStock: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  batches: [{
+    batchNumber: {
+      type: String,
+      required: true,
+      trim: true,
+      uppercase: true
+    },
+    manufactureDate: {
+      type: Date
+    },
+    expiryDate: {
+      type: Date,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0,
+      default: 0
+    },
+    isRecalled: {
+      type: Boolean,
+      default: false
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   sku: { 
     type: String, 
     required: true,
@@ -127,12 +174,32 @@ const VendorProductSchema: Schema = new Schema({
   timestamps: true
 });
 
+// Batch numbers are trimmed and upper-cased by the schema, so a lot can only be listed once per
+// listing however it was typed (the batch endpoints check this too, but listings are also created with batches)
+VendorProductSchema.pre<IVendorProduct>('validate', function(next) {
+  const seen = new Set<string>();
+  (this.batches || []).forEach((batch, index) => {
+    if (seen.has(batch.batchNumber)) {
+      this.invalidate(`batches.${index}.batchNumber`, `Batch ${batch.batchNumber} is listed more than once`, batch.batchNumber);
+    }
+    seen.add(batch.batchNumber);
+  });
+  next();
+});
+
 // Add a pre-save hook to calculate totalPrice based on price, discount, and shippingPrice
 VendorProductSchema.pre<IVendorProduct>('save', function(next) {
   // Calculate discounted price (discount applied only to product price)
-  const discountedPrice = this.price * (1 - (this.discount || 0) / 100);
+  const discountedPrice = getSellingPrice(this.price, this.discount);
   // Calculate total price (discounted price + shipping)
   this.totalPrice = Math.round((discountedPrice + this.shippingPrice) * 100) / 100;
+  // When batches are tracked, stock is the sum of all non-expired, non-recalled batches
+  if (this.batches && this.batches.length > 0) {
+    const now = new Date();
+    this.stock = this.batches
+      .filter(batch => batch.expiryDate > now && !batch.isRecalled)
+      .reduce((sum, batch) => sum + batch.quantity, 0);
+  }
   next();
 });
 
@@ -146,6 +213,8 @@ VendorProductSchema.index({ sku: 1 });
 VendorProductSchema.index({ status: 1 });
 VendorProductSchema.index({ vendorId: 1, isFeatured: 1 });
 VendorProductSchema.index({ globalProductId: 1 });
+VendorProductSchema.index({ 'batches.batchNumber': 1 });
+VendorProductSchema.index({ 'batches.expiryDate': 1 });
 
 const VendorProduct = mongoose.model<IVendorProduct, IVendorProductModel>('VendorProduct', VendorProductSchema);
 export default VendorProduct;
\ No newline at end of file
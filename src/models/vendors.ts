@@ -9,7 +9,8 @@ export interface IVendor extends Document {
   businessEmail: string;
   password: string; // Vendor's own password
   role: string; // Add role field
-  taxId?: string;
+  taxId?: string; // GSTIN, printed on tax invoices
+  businessState?: string; // State of the place of supply, decides CGST/SGST vs IGST
   bankAccount?: {
     accountNumber: string;
     routingNumber: string;
@@ -18,6 +19,8 @@ export interface IVendor extends Document {
   status: 'pending' | 'approved' | 'rejected' | 'suspended';
   totalSales?: number;
   totalProducts?: number;
+  rating: number; // Mean of approved vendor reviews (see reviewService)
+  ratingCount: number; // Number of approved vendor reviews
   lastPaymentDate?: Date;
   comparePassword: (candidatePassword: string) => Promise<boolean>;
   createdAt: Date;
@@ -61,6 +64,10 @@ const VendorSchema: Schema = new Schema({
   taxId: { 
     type: String 
   },
+  businessState: {
+    type: String,
+    trim: true
+  },
   bankAccount: {
     accountNumber: { type: String },
     routingNumber: { type: String },
@@ -79,6 +86,16 @@ const VendorSchema: Schema = new Schema({
     type: Number, 
     default: 0 
   },
+  rating: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 5
+  },
+  ratingCount: {
+    type: Number,
+    default: 0
+  },
   lastPaymentDate: { 
     type: Date 
   }
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWallet extends Document {
+  user: mongoose.Types.ObjectId; // Reference to User
+  balance: number; // Cached sum of the user's ledger entries
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletSchema: Schema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  balance: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  currency: {
+    type: String,
+    default: 'INR'
+  }
+}, {
+  timestamps: true
+});
+
+const Wallet = mongoose.model<IWallet>('Wallet', WalletSchema);
+export default Wallet;
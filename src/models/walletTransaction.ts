@@ -0,0 +1,111 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoosePaginate from 'mongoose-paginate-v2';
+
+// Ledger accounts: every customer wallet plus the platform accounts money moves from or to
+export type LedgerAccount =
+  | 'customer_wallet'
+  | 'platform_refunds'
+  | 'platform_cashback'
+  | 'platform_adjustments'
+  | 'platform_order_payments';
+
+export interface IWalletTransaction extends Document {
+  user: mongoose.Types.ObjectId; // Wallet owner
+  type: 'refund' | 'cashback' | 'adjustment' | 'order_payment' | 'order_payment_reversal';
+  direction: 'credit' | 'debit'; // From the wallet's point of view
+  amount: number;
+  debitAccount: LedgerAccount; // Account the money leaves
+  creditAccount: LedgerAccount; // Account the money enters
+  balanceAfter: number; // Wallet balance once this entry was posted
+  order?: mongoose.Types.ObjectId; // Reference to Order
+  refund?: mongoose.Types.ObjectId; // Reference to Refund
+  description?: string;
+  createdBy?: mongoose.Types.ObjectId; // Admin for manual entries, empty for system entries
+  createdByRole: 'customer' | 'vendor' | 'admin' | 'system';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extend the model interface to include pagination
+interface IWalletTransactionModel extends Model<IWalletTransaction> {
+  paginate: any;
+}
+
+const LEDGER_ACCOUNTS = [
+  'customer_wallet',
+  'platform_refunds',
+  'platform_cashback',
+  'platform_adjustments',
+  'platform_order_payments'
+];
+
+const WalletTransactionSchema: Schema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['refund', 'cashback', 'adjustment', 'order_payment', 'order_payment_reversal'],
+    required: true
+  },
+  direction: {
+    type: String,
+    enum: ['credit', 'debit'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  debitAccount: {
+    type: String,
+    enum: LEDGER_ACCOUNTS,
+    required: true
+  },
+  creditAccount: {
+    type: String,
+    enum: LEDGER_ACCOUNTS,
+    required: true
+  },
+  balanceAfter: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  refund: {
+    type: Schema.Types.ObjectId,
+    ref: 'Refund'
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId
+  },
+  createdByRole: {
+    type: String,
+    enum: ['customer', 'vendor', 'admin', 'system'],
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes
+WalletTransactionSchema.index({ user: 1, createdAt: -1 });
+WalletTransactionSchema.index({ order: 1 });
+WalletTransactionSchema.index({ type: 1 });
+
+// Add pagination plugin
+WalletTransactionSchema.plugin(mongoosePaginate);
+
+const WalletTransaction = mongoose.model<IWalletTransaction, IWalletTransactionModel>('WalletTransaction', WalletTransactionSchema);
+export default WalletTransaction;
@@ -44,9 +44,50 @@ import {
   processVendorPayment,
   getVendorPayments
 } from '../controllers/adminController';
+import {
+  createRecall,
+  getRecalls,
+  getRecallById,
+  updateRecallOrderStatus,
+  closeRecall
+} from '../controllers/recallController';
+import { getPaymentEvents, getPaymentEventById } from '../controllers/webhookController';
+import {
+  createCoupon,
+  getCoupons,
+  getCouponById,
+  updateCoupon,
+  deactivateCoupon
+} from '../controllers/couponController';
+import {
+  getShippingProfiles,
+  getShippingProfileByVendor,
+  updateShippingProfile,
+  getServiceAreaByVendor,
+  updateServiceArea,
+  importPincodeLocations
+} from '../controllers/shippingController';
+import {
+  getMyNotificationPreferences,
+  updateMyNotificationPreferences,
+  getNotificationLogs,
+  getNotificationLogById,
+  retryNotification
+} from '../controllers/notificationController';
+import { getMyInbox, markInboxRead, markInboxItemRead } from '../controllers/inboxController';
+import { getReviews, moderateReview } from '../controllers/reviewController';
+import { getQuestions, moderateQuestion, answerQuestionAdmin, moderateAnswer } from '../controllers/questionController';
+import { getSynonyms, createSynonym, updateSynonym, deleteSynonym, getSearchQueries, blockQuery, updateSearchQuery, rebuildIndex } from '../controllers/searchController';
 import { isAuthenticated, isAdmin } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { addProductSchema, adminUpdateProductSchema } from '../validation/vendorProductValidation';
+import { createRecallSchema, updateRecallOrderSchema } from '../validation/recallValidation';
+import { createCouponSchema, updateCouponSchema } from '../validation/couponValidation';
+import { shippingProfileSchema, serviceAreaSchema, pincodeLocationsSchema } from '../validation/shippingValidation';
+import { notificationPreferenceSchema, markInboxReadSchema } from '../validation/notificationValidation';
+import { moderateReviewSchema } from '../validation/reviewValidation';
+import { answerQuestionSchema, moderateQuestionSchema, moderateAnswerSchema } from '../validation/questionValidation';
+import { createSynonymSchema, updateSynonymSchema, blockSearchQuerySchema, updateSearchQuerySchema } from '../validation/searchValidation';
 
 const router = Router();
 
@@ -103,4 +144,62 @@ router.post('/vendor-payments/generate', isAuthenticated, isAdmin, generateVendo
 router.put('/vendor-payments/process', isAuthenticated, isAdmin, processVendorPayment);
 router.get('/vendor-payments', isAuthenticated, isAdmin, getVendorPayments);
 
+// Product recall routes
+router.post('/recalls', isAuthenticated, isAdmin, validate(createRecallSchema), createRecall);
+router.get('/recalls', isAuthenticated, isAdmin, getRecalls);
+router.get('/recalls/:id', isAuthenticated, isAdmin, getRecallById);
+router.put('/recalls/:id/orders/:orderId', isAuthenticated, isAdmin, validate(updateRecallOrderSchema), updateRecallOrderStatus);
+router.put('/recalls/:id/close', isAuthenticated, isAdmin, closeRecall);
+
+// Payment gateway event audit routes
+router.get('/payment-events', isAuthenticated, isAdmin, getPaymentEvents);
+router.get('/payment-events/:id', isAuthenticated, isAdmin, getPaymentEventById);
+
+// Coupon and promotion routes
+router.post('/coupons', isAuthenticated, isAdmin, validate(createCouponSchema), createCoupon);
+router.get('/coupons', isAuthenticated, isAdmin, getCoupons);
+router.get('/coupons/:id', isAuthenticated, isAdmin, getCouponById);
+router.put('/coupons/:id', isAuthenticated, isAdmin, validate(updateCouponSchema), updateCoupon);
+router.delete('/coupons/:id', isAuthenticated, isAdmin, deactivateCoupon);
+
+// Shipping profile routes
+router.get('/shipping-profiles', isAuthenticated, isAdmin, getShippingProfiles);
+router.get('/shipping-profiles/:vendorId', isAuthenticated, isAdmin, getShippingProfileByVendor);
+router.put('/shipping-profiles/:vendorId', isAuthenticated, isAdmin, validate(shippingProfileSchema), updateShippingProfile);
+
+// Serviceability routes
+router.get('/service-areas/:vendorId', isAuthenticated, isAdmin, getServiceAreaByVendor);
+router.put('/service-areas/:vendorId', isAuthenticated, isAdmin, validate(serviceAreaSchema), updateServiceArea);
+router.put('/pincodes', isAuthenticated, isAdmin, validate(pincodeLocationsSchema), importPincodeLocations);
+
+// Notification routes
+router.get('/notification-preferences', isAuthenticated, isAdmin, getMyNotificationPreferences);
+router.put('/notification-preferences', isAuthenticated, isAdmin, validate(notificationPreferenceSchema), updateMyNotificationPreferences);
+router.get('/notifications', isAuthenticated, isAdmin, getNotificationLogs);
+router.get('/notifications/:id', isAuthenticated, isAdmin, getNotificationLogById);
+router.post('/notifications/:id/retry', isAuthenticated, isAdmin, retryNotification);
+router.get('/inbox', isAuthenticated, isAdmin, getMyInbox);
+router.put('/inbox/read', isAuthenticated, isAdmin, validate(markInboxReadSchema), markInboxRead);
+router.put('/inbox/:id/read', isAuthenticated, isAdmin, markInboxItemRead);
+
+// Review moderation routes
+router.get('/reviews', isAuthenticated, isAdmin, getReviews);
+router.put('/reviews/:id/status', isAuthenticated, isAdmin, validate(moderateReviewSchema), moderateReview);
+
+// Product Q&A moderation routes
+router.get('/questions', isAuthenticated, isAdmin, getQuestions);
+router.put('/questions/:id/status', isAuthenticated, isAdmin, validate(moderateQuestionSchema), moderateQuestion);
+router.post('/questions/:id/answers', isAuthenticated, isAdmin, validate(answerQuestionSchema), answerQuestionAdmin);
+router.put('/questions/:id/answers/:answerId/status', isAuthenticated, isAdmin, validate(moderateAnswerSchema), moderateAnswer);
+
+// Search routes (synonym dictionary, popular search moderation and index maintenance)
+router.get('/search/synonyms', isAuthenticated, isAdmin, getSynonyms);
+router.post('/search/synonyms', isAuthenticated, isAdmin, validate(createSynonymSchema), createSynonym);
+router.put('/search/synonyms/:id', isAuthenticated, isAdmin, validate(updateSynonymSchema), updateSynonym);
+router.delete('/search/synonyms/:id', isAuthenticated, isAdmin, deleteSynonym);
+router.get('/search/queries', isAuthenticated, isAdmin, getSearchQueries);
+router.post('/search/queries/block', isAuthenticated, isAdmin, validate(blockSearchQuerySchema), blockQuery);
+router.put('/search/queries/:id', isAuthenticated, isAdmin, validate(updateSearchQuerySchema), updateSearchQuery);
+router.post('/search/reindex', isAuthenticated, isAdmin, rebuildIndex);
+
 export default router;
\ No newline at end of file
@@ -4,9 +4,13 @@ import {
   addItemToCart,
   updateCartItem,
   removeItemFromCart,
-  clearCart
+  clearCart,
+  applyCartCoupon,
+  removeCartCoupon
 } from '../controllers/cartController';
 import { isAuthenticated, isUser } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { applyCouponSchema } from '../validation/couponValidation';
 
 const router = Router();
 
@@ -16,5 +20,7 @@ router.post('/items', isAuthenticated, isUser, addItemToCart);
 router.put('/items/:vendorProductId', isAuthenticated, isUser, updateCartItem);
 router.delete('/items/:vendorProductId', isAuthenticated, isUser, removeItemFromCart);
 router.delete('/', isAuthenticated, isUser, clearCart);
+router.post('/coupon', isAuthenticated, isUser, validate(applyCouponSchema), applyCartCoupon);
+router.delete('/coupon', isAuthenticated, isUser, removeCartCoupon);
 
 export default router;
\ No newline at end of file
@@ -6,16 +6,53 @@ import {
   getUserOrders, 
   getOrderById, 
   cancelOrder,
+  attachOrderPrescription,
+  getOrderRefunds,
   // Admin order functions
   getAdminOrders,
   getAdminOrderById,
   updateOrderStatusAdmin,
+  cancelOrderItemsAdmin,
+  getAdminRefunds,
   // Vendor order functions
   getVendorOrders,
   getVendorOrderById,
-  updateOrderStatusVendor
+  updateOrderStatusVendor,
+  updateVendorShipment
 } from '../controllers/orderController';
+import {
+  createReturnRequest,
+  getOrderReturns,
+  getOrderReturnById,
+  cancelReturnRequest,
+  getVendorReturns,
+  getVendorReturnById,
+  updateReturnStatusVendor,
+  getAdminReturns,
+  getAdminReturnById,
+  updateReturnStatusAdmin
+} from '../controllers/returnController';
+import {
+  getOrderInvoices,
+  getOrderInvoice,
+  getVendorOrderInvoice
+} from '../controllers/invoiceController';
+import {
+  getOrderTracking,
+  createVendorShipment,
+  getVendorOrderShipments,
+  getAdminOrderShipments,
+  syncShipmentAdmin
+} from '../controllers/shipmentController';
 import { isUserAuthenticated, isAdminAuthenticated, isVendorAuthenticated } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  cancelOrderSchema,
+  cancelOrderItemsSchema,
+  createReturnSchema,
+  updateReturnStatusSchema,
+  createShipmentSchema
+} from '../validation/orderValidation';
 
 const router = Router();
 
@@ -24,16 +61,41 @@ router.post('/', isUserAuthenticated, createOrder);
 router.post('/verify-payment', isUserAuthenticated, verifyPayment);
 router.get('/my-orders', isUserAuthenticated, getUserOrders);
 router.get('/my-orders/:id', isUserAuthenticated, getOrderById);
-router.put('/my-orders/:id/cancel', isUserAuthenticated, cancelOrder);
+router.put('/my-orders/:id/cancel', isUserAuthenticated, validate(cancelOrderSchema), cancelOrder);
+router.put('/my-orders/:id/prescription', isUserAuthenticated, attachOrderPrescription);
+router.get('/my-orders/:id/refunds', isUserAuthenticated, getOrderRefunds);
+router.get('/my-orders/:id/invoices', isUserAuthenticated, getOrderInvoices);
+router.get('/my-orders/:id/invoices/:invoiceId', isUserAuthenticated, getOrderInvoice);
+router.get('/my-orders/:id/tracking', isUserAuthenticated, getOrderTracking);
+
+// Customer return routes
+router.post('/my-orders/:id/returns', isUserAuthenticated, validate(createReturnSchema), createReturnRequest);
+router.get('/my-orders/:id/returns', isUserAuthenticated, getOrderReturns);
+router.get('/my-orders/:id/returns/:returnId', isUserAuthenticated, getOrderReturnById);
+router.put('/my-orders/:id/returns/:returnId/cancel', isUserAuthenticated, cancelReturnRequest);
 
 // Admin routes
 router.get('/admin', isAdminAuthenticated, getAdminOrders);
+router.get('/admin/refunds', isAdminAuthenticated, getAdminRefunds);
+router.get('/admin/returns', isAdminAuthenticated, getAdminReturns);
+router.get('/admin/returns/:returnId', isAdminAuthenticated, getAdminReturnById);
+router.put('/admin/returns/:returnId/status', isAdminAuthenticated, validate(updateReturnStatusSchema), updateReturnStatusAdmin);
+router.post('/admin/shipments/:shipmentId/sync', isAdminAuthenticated, syncShipmentAdmin);
 router.get('/admin/:id', isAdminAuthenticated, getAdminOrderById);
 router.put('/admin/:id/status', isAdminAuthenticated, updateOrderStatusAdmin);
+router.put('/admin/:id/cancel-items', isAdminAuthenticated, validate(cancelOrderItemsSchema), cancelOrderItemsAdmin);
+router.get('/admin/:id/shipments', isAdminAuthenticated, getAdminOrderShipments);
 
 // Vendor routes
 router.get('/vendor', isVendorAuthenticated, getVendorOrders);
+router.get('/vendor/returns', isVendorAuthenticated, getVendorReturns);
+router.get('/vendor/returns/:returnId', isVendorAuthenticated, getVendorReturnById);
+router.put('/vendor/returns/:returnId/status', isVendorAuthenticated, validate(updateReturnStatusSchema), updateReturnStatusVendor);
 router.get('/vendor/:id', isVendorAuthenticated, getVendorOrderById);
 router.put('/vendor/:id/status', isVendorAuthenticated, updateOrderStatusVendor);
+router.put('/vendor/:id/shipment', isVendorAuthenticated, updateVendorShipment);
+router.get('/vendor/:id/shipments', isVendorAuthenticated, getVendorOrderShipments);
+router.post('/vendor/:id/shipments', isVendorAuthenticated, validate(createShipmentSchema), createVendorShipment);
+router.get('/vendor/:id/invoice', isVendorAuthenticated, getVendorOrderInvoice);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import {
+  // Customer prescription functions
+  uploadPrescription,
+  getUserPrescriptions,
+  getUserPrescriptionById,
+  // Admin prescription functions
+  getAdminPrescriptions,
+  approvePrescriptionAdmin,
+  rejectPrescriptionAdmin,
+  // Vendor prescription functions
+  getVendorPrescriptions,
+  approvePrescriptionVendor,
+  rejectPrescriptionVendor
+} from '../controllers/prescriptionController';
+import { isUserAuthenticated, isAdminAuthenticated, isVendorAuthenticated } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { uploadPrescriptionSchema, rejectPrescriptionSchema } from '../validation/prescriptionValidation';
+
+const router = Router();
+
+// Customer routes
+router.post('/', isUserAuthenticated, validate(uploadPrescriptionSchema), uploadPrescription);
+router.get('/my-prescriptions', isUserAuthenticated, getUserPrescriptions);
+router.get('/my-prescriptions/:id', isUserAuthenticated, getUserPrescriptionById);
+
+// Admin routes
+router.get('/admin', isAdminAuthenticated, getAdminPrescriptions);
+router.put('/admin/:id/approve', isAdminAuthenticated, approvePrescriptionAdmin);
+router.put('/admin/:id/reject', isAdminAuthenticated, validate(rejectPrescriptionSchema), rejectPrescriptionAdmin);
+
+// Vendor routes
+router.get('/vendor', isVendorAuthenticated, getVendorPrescriptions);
+router.put('/vendor/:id/approve', isVendorAuthenticated, approvePrescriptionVendor);
+router.put('/vendor/:id/reject', isVendorAuthenticated, validate(rejectPrescriptionSchema), rejectPrescriptionVendor);
+
+export default router;
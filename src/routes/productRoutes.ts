@@ -4,6 +4,7 @@ import {
   getProductsByBrand,
   getProductById,
   searchProducts,
+  getSearchSuggestions,
   getFeaturedProducts,
   getFilters,
   getAllProductsPost,
@@ -11,7 +12,9 @@ import {
   getBestSellerProducts,
   getNewArrivalProducts,
   getLimitedEditionProducts,
-  getProductsBySubCategory
+  getProductsBySubCategory,
+  checkProductServiceability,
+  getProductSubstitutes
 } from '../controllers/productController';
 
 const router = Router();
@@ -25,9 +28,12 @@ router.get('/products/new-arrival', getNewArrivalProducts);
 router.get('/products/limited-edition', getLimitedEditionProducts);
 router.get('/products/filters', getFilters);
 router.get('/products/search', searchProducts);
+router.get('/products/suggest', getSearchSuggestions);
 router.get('/products/category/:categoryId', getProductsByCategory);
 router.get('/products/subcategory/:subCategoryId', getProductsBySubCategory);
 router.get('/products/brand/:brandId', getProductsByBrand);
+router.get('/products/:vendorProductId/serviceability', checkProductServiceability);
+router.get('/products/:vendorProductId/substitutes', getProductSubstitutes);
 router.get('/products/:vendorProductId', getProductById);
 
 export default router;
\ No newline at end of file
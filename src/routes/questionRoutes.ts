@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  askQuestion,
+  getMyQuestions,
+  deleteMyQuestion,
+  toggleAnswerUpvote,
+  getProductQuestions
+} from '../controllers/questionController';
+import { isAuthenticated, isUser } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { askQuestionSchema } from '../validation/questionValidation';
+
+const router = Router();
+
+// Public routes
+router.get('/product/:productId', getProductQuestions);
+
+// Protected routes - User specific
+router.post('/', isAuthenticated, isUser, validate(askQuestionSchema), askQuestion);
+router.get('/me', isAuthenticated, isUser, getMyQuestions);
+router.delete('/:id', isAuthenticated, isUser, deleteMyQuestion);
+router.post('/:id/answers/:answerId/upvote', isAuthenticated, isUser, toggleAnswerUpvote);
+
+export default router;
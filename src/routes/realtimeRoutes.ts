@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { streamEvents } from '../controllers/realtimeController';
+import { acceptQueryToken, isAuthenticated } from '../middleware/auth';
+
+const router = Router();
+
+// Server-Sent Events stream for customers, vendors and admins (same JWT as the REST API)
+router.get('/stream', acceptQueryToken, isAuthenticated, streamEvents);
+
+export default router;
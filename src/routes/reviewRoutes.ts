@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  createReview,
+  getMyReviews,
+  updateMyReview,
+  deleteMyReview,
+  toggleReviewHelpful,
+  getProductReviews,
+  getVendorReviews
+} from '../controllers/reviewController';
+import { isAuthenticated, isUser } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { createReviewSchema, updateReviewSchema } from '../validation/reviewValidation';
+
+const router = Router();
+
+// Public routes
+router.get('/product/:productId', getProductReviews);
+router.get('/vendor/:vendorId', getVendorReviews);
+
+// Protected routes - User specific
+router.post('/', isAuthenticated, isUser, validate(createReviewSchema), createReview);
+router.get('/me', isAuthenticated, isUser, getMyReviews);
+router.put('/:id', isAuthenticated, isUser, validate(updateReviewSchema), updateMyReview);
+router.delete('/:id', isAuthenticated, isUser, deleteMyReview);
+router.post('/:id/helpful', isAuthenticated, isUser, toggleReviewHelpful);
+
+export default router;
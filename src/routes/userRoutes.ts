@@ -10,9 +10,26 @@ import {
   loginUser,
   sendToken
 } from '../controllers/userController';
+import {
+  getMyWallet,
+  getMyWalletTransactions,
+  getUserWallet,
+  adjustUserWallet
+} from '../controllers/walletController';
+import {
+  getMyAddresses,
+  getMyAddressById,
+  addAddress,
+  updateAddress,
+  deleteAddress
+} from '../controllers/addressController';
+import { getMyNotificationPreferences, updateMyNotificationPreferences } from '../controllers/notificationController';
 import { isAuthenticated, isAdmin, isUser } from '../middleware/auth';
 import { validate } from '../middleware/validation';
-import { userRegistrationSchema, userLoginSchema, updateUserSchema } from '../validation/userValidation';
+import { userRegistrationSchema, userLoginSchema, updateUserSchema, addAddressSchema, updateAddressSchema } from '../validation/userValidation';
+import { walletAdjustmentSchema } from '../validation/walletValidation';
+import { getMyInbox, markInboxRead, markInboxItemRead } from '../controllers/inboxController';
+import { notificationPreferenceSchema, markInboxReadSchema } from '../validation/notificationValidation';
 
 const router = Router();
 
@@ -24,6 +41,18 @@ router.post('/users/login', validate(userLoginSchema), loginUser);
 router.get('/users/profile', isAuthenticated, isUser, getUserById);
 router.put('/users/profile', isAuthenticated, isUser, validate(updateUserSchema), updateUser);
 router.get('/users/token', isAuthenticated, isUser, sendToken);
+router.get('/users/profile/wallet', isAuthenticated, isUser, getMyWallet);
+router.get('/users/profile/wallet/transactions', isAuthenticated, isUser, getMyWalletTransactions);
+router.get('/users/profile/addresses', isAuthenticated, isUser, getMyAddresses);
+router.post('/users/profile/addresses', isAuthenticated, isUser, validate(addAddressSchema), addAddress);
+router.get('/users/profile/addresses/:addressId', isAuthenticated, isUser, getMyAddressById);
+router.put('/users/profile/addresses/:addressId', isAuthenticated, isUser, validate(updateAddressSchema), updateAddress);
+router.delete('/users/profile/addresses/:addressId', isAuthenticated, isUser, deleteAddress);
+router.get('/users/profile/notification-preferences', isAuthenticated, isUser, getMyNotificationPreferences);
+router.put('/users/profile/notification-preferences', isAuthenticated, isUser, validate(notificationPreferenceSchema), updateMyNotificationPreferences);
+router.get('/users/profile/inbox', isAuthenticated, isUser, getMyInbox);
+router.put('/users/profile/inbox/read', isAuthenticated, isUser, validate(markInboxReadSchema), markInboxRead);
+router.put('/users/profile/inbox/:id/read', isAuthenticated, isUser, markInboxItemRead);
 
 // Protected routes - Admin specific
 router.get('/users', isAuthenticated, isAdmin, getUsers);
@@ -32,5 +61,7 @@ router.get('/users/status/active', isAuthenticated, isAdmin, getActiveUsers);
 router.get('/users/:id', isAuthenticated, isAdmin, getUserById);
 router.put('/users/:id', isAuthenticated, isAdmin, validate(updateUserSchema), updateUser);
 router.delete('/users/:id', isAuthenticated, isAdmin, deleteUser);
+router.get('/users/:id/wallet', isAuthenticated, isAdmin, getUserWallet);
+router.post('/users/:id/wallet/adjustments', isAuthenticated, isAdmin, validate(walletAdjustmentSchema), adjustUserWallet);
 
 export default router;
\ No newline at end of file
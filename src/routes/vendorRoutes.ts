@@ -10,12 +10,31 @@ import {
   deleteVendorProduct, 
   registerVendor,
   // New route for toggling active status
-  toggleVendorProductActiveStatus
+  toggleVendorProductActiveStatus,
+  // Batch inventory routes
+  getVendorProductBatches,
+  addVendorProductBatch,
+  updateVendorProductBatch,
+  deleteVendorProductBatch
   // Remove order-related functions as they've been moved to orderRoutes.ts
 } from '../controllers/vendorController';
+import {
+  createVendorCoupon,
+  getVendorCoupons,
+  updateVendorCoupon,
+  deactivateVendorCoupon
+} from '../controllers/couponController';
+import { getMyNotificationPreferences, updateMyNotificationPreferences } from '../controllers/notificationController';
+import { getMyShippingProfile, updateMyShippingProfile, getMyServiceArea, updateMyServiceArea } from '../controllers/shippingController';
+import { getMyInbox, markInboxRead, markInboxItemRead } from '../controllers/inboxController';
+import { getVendorQuestions, answerQuestionVendor } from '../controllers/questionController';
 import { isAuthenticated, isVendor } from '../middleware/auth';
 import { validate } from '../middleware/validation';
-import { addProductSchema, updateProductSchema, vendorRegistrationSchema } from '../validation/vendorProductValidation';
+import { addProductSchema, updateProductSchema, vendorRegistrationSchema, batchSchema, updateBatchSchema } from '../validation/vendorProductValidation';
+import { createVendorCouponSchema, updateVendorCouponSchema } from '../validation/couponValidation';
+import { shippingProfileSchema, serviceAreaSchema } from '../validation/shippingValidation';
+import { notificationPreferenceSchema, markInboxReadSchema } from '../validation/notificationValidation';
+import { answerQuestionSchema } from '../validation/questionValidation';
 
 const router = Router();
 
@@ -36,6 +55,39 @@ router.delete('/products/:id', deleteVendorProduct);
 // New route for toggling active status
 router.patch('/products/:id/toggle-active', toggleVendorProductActiveStatus);
 
+// Batch (lot) inventory routes
+router.get('/products/:id/batches', getVendorProductBatches);
+router.post('/products/:id/batches', validate(batchSchema), addVendorProductBatch);
+router.put('/products/:id/batches/:batchId', validate(updateBatchSchema), updateVendorProductBatch);
+router.delete('/products/:id/batches/:batchId', deleteVendorProductBatch);
+
+// Coupon routes (vendor-funded, limited to the vendor's own listings)
+router.post('/coupons', validate(createVendorCouponSchema), createVendorCoupon);
+router.get('/coupons', getVendorCoupons);
+router.put('/coupons/:id', validate(updateVendorCouponSchema), updateVendorCoupon);
+router.delete('/coupons/:id', deactivateVendorCoupon);
+
+// Shipping profile (per-order base fee, slabs, zones, free shipping, cold chain)
+router.get('/shipping-profile', getMyShippingProfile);
+router.put('/shipping-profile', validate(shippingProfileSchema), updateMyShippingProfile);
+
+// Service area (pincodes or radius delivered to, and delivery times)
+router.get('/service-area', getMyServiceArea);
+router.put('/service-area', validate(serviceAreaSchema), updateMyServiceArea);
+
+// Notification preferences
+router.get('/notification-preferences', getMyNotificationPreferences);
+router.put('/notification-preferences', validate(notificationPreferenceSchema), updateMyNotificationPreferences);
+
+// In-app inbox
+router.get('/inbox', getMyInbox);
+router.put('/inbox/read', validate(markInboxReadSchema), markInboxRead);
+router.put('/inbox/:id/read', markInboxItemRead);
+
+// Product questions (on products the vendor sells)
+router.get('/questions', getVendorQuestions);
+router.post('/questions/:id/answers', validate(answerQuestionSchema), answerQuestionVendor);
+
 // Remove order routes as they've been moved to orderRoutes.ts
 
 export default router;
\ No newline at end of file
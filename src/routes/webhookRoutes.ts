@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { razorpayWebhook, carrierWebhook } from '../controllers/webhookController';
+
+const router = Router();
+
+// Payment gateway webhooks (authenticated by signature, not by token)
+router.post('/razorpay', razorpayWebhook);
+
+// Carrier tracking webhooks (authenticated by each carrier's own signature)
+router.post('/carriers/:carrier', carrierWebhook);
+
+export default router;
@@ -0,0 +1,78 @@
+/**
+ * One-off: issues the tax invoices of vendor groups that shipped before invoicing existed.
+ * Each invoice is issued in its own transaction, so a failure neither leaves a half-saved
+ * invoice nor uses up an invoice number. Safe to run again; invoiced groups are skipped.
+ *
+ * Usage:
+ *   npm run invoices:backfill
+ */
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+dotenv.config();
+
+import { connectDB } from '../config/database';
+import Order from '../models/order';
+import Invoice from '../models/invoice';
+import { ensureVendorGroups, issueGroupInvoice } from '../services/orderLifecycle';
+
+// Group statuses that have been supplied and so carry a tax invoice
+const INVOICED_STATUSES = ['shipped', 'delivered'];
+
+const main = async (): Promise<void> => {
+  await connectDB();
+
+  const orderIds = await Order.distinct('_id', {
+    $or: [
+      { 'vendorGroups.status': { $in: INVOICED_STATUSES } },
+      // Orders from before vendor groups carry only the order status
+      { vendorGroups: { $size: 0 }, orderStatus: { $in: INVOICED_STATUSES } }
+    ]
+  });
+
+  let issued = 0;
+  let failed = 0;
+
+  for (const orderId of orderIds) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const order = (await Order.findById(orderId).session(session))!;
+      await ensureVendorGroups(order, session);
+
+      for (const group of order.vendorGroups) {
+        if (!INVOICED_STATUSES.includes(group.status)) {
+          continue;
+        }
+        if (await Invoice.exists({ order: orderId, vendorId: group.vendorId }).session(session)) {
+          continue;
+        }
+        await issueGroupInvoice(order, group, session);
+        issued++;
+      }
+
+      // Keep the vendor groups built for older orders
+      if (order.isModified()) {
+        await order.save({ session });
+      }
+
+      await session.commitTransaction();
+      session.endSession();
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+
+      failed++;
+      console.error(`Error issuing invoices for order ${orderId}:`, error);
+    }
+  }
+
+  console.log(`Issued ${issued} invoice(s) across ${orderIds.length} order(s); ${failed} order(s) failed`);
+  await mongoose.disconnect();
+};
+
+main().catch(error => {
+  console.error('Error backfilling invoices:', error);
+  process.exit(1);
+});
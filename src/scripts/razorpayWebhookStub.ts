@@ -0,0 +1,112 @@
+/**
+ * Local stand-in for Razorpay: posts a signed webhook payload to the API.
+ *
+ * Usage:
+ *   npm run webhook:stub -- <event> <razorpayOrderId> [razorpayPaymentId] [amountInRupees]
+ *
+ * Events: payment.captured, payment.failed, order.paid, refund.processed
+ * Uses RAZORPAY_WEBHOOK_SECRET and posts to WEBHOOK_URL (default http://localhost:3002/api/v1/webhooks/razorpay)
+ */
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const SUPPORTED_EVENTS = ['payment.captured', 'payment.failed', 'order.paid', 'refund.processed'];
+
+// Build a payload shaped like the one Razorpay sends for the event
+const buildPayload = (event: string, orderId: string, paymentId: string, amount: number) => {
+  const payment = {
+    entity: {
+      id: paymentId,
+      entity: 'payment',
+      amount,
+      currency: 'INR',
+      status: event === 'payment.failed' ? 'failed' : 'captured',
+      order_id: orderId,
+      method: 'upi',
+      captured: event !== 'payment.failed',
+      error_code: event === 'payment.failed' ? 'BAD_REQUEST_ERROR' : null,
+      error_description: event === 'payment.failed' ? 'Payment was declined by the stub' : null,
+      created_at: Math.floor(Date.now() / 1000)
+    }
+  };
+
+  const payload: any = { payment };
+
+  if (event === 'order.paid') {
+    payload.order = {
+      entity: {
+        id: orderId,
+        entity: 'order',
+        amount,
+        amount_paid: amount,
+        amount_due: 0,
+        currency: 'INR',
+        status: 'paid'
+      }
+    };
+  }
+
+  if (event === 'refund.processed') {
+    payload.refund = {
+      entity: {
+        id: `rfnd_stub_${Date.now()}`,
+        entity: 'refund',
+        amount,
+        currency: 'INR',
+        payment_id: paymentId,
+        status: 'processed',
+        created_at: Math.floor(Date.now() / 1000)
+      }
+    };
+  }
+
+  return {
+    entity: 'event',
+    account_id: 'acc_stub',
+    event,
+    contains: Object.keys(payload),
+    payload,
+    created_at: Math.floor(Date.now() / 1000)
+  };
+};
+
+const main = async (): Promise<void> => {
+  const [event, orderId, paymentId = `pay_stub_${Date.now()}`, amountInRupees = '1'] = process.argv.slice(2);
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  const url = process.env.WEBHOOK_URL || 'http://localhost:3002/api/v1/webhooks/razorpay';
+
+  if (!event || !SUPPORTED_EVENTS.includes(event) || !orderId) {
+    console.error('Usage: npm run webhook:stub -- <event> <razorpayOrderId> [razorpayPaymentId] [amountInRupees]');
+    console.error(`Events: ${SUPPORTED_EVENTS.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (!secret) {
+    console.error('RAZORPAY_WEBHOOK_SECRET must be set');
+    process.exit(1);
+  }
+
+  const body = JSON.stringify(buildPayload(event, orderId, paymentId, Math.round(parseFloat(amountInRupees) * 100)));
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+  const eventId = `evt_stub_${crypto.randomBytes(8).toString('hex')}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Signature': signature,
+      'X-Razorpay-Event-Id': eventId
+    },
+    body
+  });
+
+  console.log(`${event} (${eventId}) -> ${response.status}`);
+  console.log(await response.text());
+};
+
+main().catch(error => {
+  console.error('Error posting webhook:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import User, { IUser, IUserAddress } from '../models/User';
+import { IOrder } from '../models/order';
+import { AppError } from '../utils/errorHandler';
+
+// Most addresses a customer can save
+export const MAX_SAVED_ADDRESSES = 20;
+
+/**
+ * Keeps exactly one default shipping and one default billing address in a user's address book.
+ * The given address takes over any default it is flagged with; the first address fills any gap.
+ * @param user - The address book owner
+ * @param preferred - Address whose default flags win, if any
+ */
+export const normalizeDefaultAddresses = (user: IUser, preferred?: IUserAddress): void => {
+  (['isDefaultShipping', 'isDefaultBilling'] as const).forEach(flag => {
+    if (preferred && preferred[flag]) {
+      user.addresses.forEach(address => {
+        address[flag] = String(address._id) === String(preferred._id);
+      });
+    }
+
+    const defaults = user.addresses.filter(address => address[flag]);
+    defaults.slice(1).forEach(address => {
+      address[flag] = false;
+    });
+    if (defaults.length === 0 && user.addresses.length > 0) {
+      user.addresses[0][flag] = true;
+    }
+  });
+};
+
+/**
+ * Copies a saved address into the shape stored on orders
+ * @param address - The saved address
+ */
+export const toOrderAddress = (address: IUserAddress): IOrder['shippingAddress'] => {
+  return {
+    name: address.name,
+    street: address.landmark ? `${address.street}, ${address.landmark}` : address.street,
+    city: address.city,
+    state: address.state,
+    zipCode: address.zipCode,
+    country: address.country,
+    phone: address.phone
+  };
+};
+
+/**
+ * Finds one of a user's saved addresses
+ * @param userId - The address book owner
+ * @param addressId - Saved address ID
+ * @param session - Optional MongoDB session for transactions
+ */
+export const getSavedAddress = async (
+  userId: mongoose.Types.ObjectId | string,
+  addressId: string,
+  session?: mongoose.ClientSession
+): Promise<IUserAddress> => {
+  if (!mongoose.Types.ObjectId.isValid(addressId)) {
+    throw new AppError(`Invalid address ID: ${addressId}`, 400);
+  }
+
+  const user = await User.findById(userId, { addresses: 1 }).session(session || null);
+  const address = user?.addresses.id(addressId);
+
+  if (!address) {
+    throw new AppError('Address not found', 404);
+  }
+  return address;
+};
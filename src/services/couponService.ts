@@ -0,0 +1,196 @@
+import mongoose from 'mongoose';
+import Coupon, { ICoupon } from '../models/coupon';
+import CouponRedemption from '../models/couponRedemption';
+import { AppError } from '../utils/errorHandler';
+
+// A priced line the coupon may apply to (cart item or order line)
+export interface CouponLine {
+  vendorProductId: mongoose.Types.ObjectId;
+  vendorId: mongoose.Types.ObjectId;
+  category?: mongoose.Types.ObjectId;
+  brand?: mongoose.Types.ObjectId;
+  price: number;
+  quantity: number;
+}
+
+export interface CouponEvaluation {
+  coupon: ICoupon;
+  discountAmount: number;
+  lineDiscounts: Array<{ vendorProductId: mongoose.Types.ObjectId; amount: number }>; // Only eligible lines
+}
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Whether an id is in a scope list (an empty list matches everything)
+const inScope = (scope: mongoose.Types.ObjectId[], id?: mongoose.Types.ObjectId): boolean => {
+  return scope.length === 0 || (!!id && scope.some(scoped => scoped.equals(id)));
+};
+
+/**
+ * Normalizes a coupon code as stored (trimmed, uppercase)
+ * @param code - Code entered by the customer
+ */
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Whether a line falls within a coupon's category, brand and vendor scope
+ * @param coupon - The coupon
+ * @param line - The priced line
+ */
+export const isLineEligible = (coupon: ICoupon, line: CouponLine): boolean => {
+  return inScope(coupon.scope.categories, line.category)
+    && inScope(coupon.scope.brands, line.brand)
+    && inScope(coupon.scope.vendors, line.vendorId);
+};
+
+/**
+ * Checks that a coupon is active, within its validity window and under its usage limits for a customer
+ * @param coupon - The coupon
+ * @param userId - The customer redeeming it
+ * @param session - Optional MongoDB session for transactions
+ */
+export const assertCouponUsable = async (
+  coupon: ICoupon,
+  userId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const now = new Date();
+
+  if (!coupon.isActive) {
+    throw new AppError('This coupon is no longer active', 400);
+  }
+
+  if (coupon.validFrom > now) {
+    throw new AppError('This coupon is not valid yet', 400);
+  }
+
+  if (coupon.validUntil && coupon.validUntil < now) {
+    throw new AppError('This coupon has expired', 400);
+  }
+
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    throw new AppError('This coupon has reached its usage limit', 400);
+  }
+
+  const userRedemptions = await CouponRedemption.countDocuments({
+    coupon: coupon._id,
+    user: userId,
+    status: 'applied'
+  }).session(session || null);
+
+  if (userRedemptions >= coupon.perUserLimit) {
+    throw new AppError('You have already used this coupon the maximum number of times', 400);
+  }
+};
+
+/**
+ * Works out the discount a coupon gives on a set of lines, split across the eligible lines by value
+ * @param code - Coupon code entered by the customer
+ * @param userId - The customer redeeming it
+ * @param lines - Priced lines of the cart or order
+ * @param session - Optional MongoDB session for transactions
+ * @returns The coupon, the total discount and each eligible line's share
+ */
+export const evaluateCoupon = async (
+  code: string,
+  userId: mongoose.Types.ObjectId | string,
+  lines: CouponLine[],
+  session?: mongoose.ClientSession
+): Promise<CouponEvaluation> => {
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) }).session(session || null);
+  if (!coupon) {
+    throw new AppError('Invalid coupon code', 404);
+  }
+
+  await assertCouponUsable(coupon, userId, session);
+
+  const eligibleLines = lines.filter(line => isLineEligible(coupon, line));
+  if (eligibleLines.length === 0) {
+    throw new AppError('This coupon does not apply to any item in your cart', 400);
+  }
+
+  const eligibleTotal = eligibleLines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  if (eligibleTotal < coupon.minCartValue) {
+    throw new AppError(`Add items worth ${roundAmount(coupon.minCartValue - eligibleTotal)} more to use this coupon`, 400);
+  }
+
+  let discountAmount = coupon.discountType === 'percentage'
+    ? eligibleTotal * coupon.discountValue / 100
+    : coupon.discountValue;
+  if (coupon.maxDiscount) {
+    discountAmount = Math.min(discountAmount, coupon.maxDiscount);
+  }
+  discountAmount = roundAmount(Math.min(discountAmount, eligibleTotal));
+
+  // Split pro rata by line value; the last line takes the rounding remainder
+  let allocated = 0;
+  const lineDiscounts = eligibleLines.map((line, index) => {
+    const amount = index === eligibleLines.length - 1
+      ? roundAmount(discountAmount - allocated)
+      : roundAmount(discountAmount * (line.price * line.quantity) / eligibleTotal);
+    allocated = roundAmount(allocated + amount);
+    return { vendorProductId: line.vendorProductId, amount };
+  });
+
+  return { coupon, discountAmount, lineDiscounts };
+};
+
+/**
+ * Records a coupon redemption for an order, enforcing the global usage limit atomically
+ * @param evaluation - Result of `evaluateCoupon`
+ * @param userId - The customer
+ * @param orderId - The order the coupon was used on
+ * @param session - Optional MongoDB session for transactions
+ */
+export const redeemCoupon = async (
+  evaluation: CouponEvaluation,
+  userId: mongoose.Types.ObjectId | string,
+  orderId: mongoose.Types.ObjectId,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  // Conditional increment so concurrent checkouts cannot exceed the limit
+  const coupon = await Coupon.findOneAndUpdate(
+    {
+      _id: evaluation.coupon._id,
+      $or: [
+        { usageLimit: { $exists: false } },
+        { usageLimit: null },
+        { $expr: { $lt: ['$usedCount', '$usageLimit'] } }
+      ]
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true, session }
+  );
+
+  if (!coupon) {
+    throw new AppError('This coupon has reached its usage limit', 400);
+  }
+
+  await CouponRedemption.create([{
+    coupon: coupon._id,
+    user: userId,
+    order: orderId,
+    discountAmount: evaluation.discountAmount
+  }], { session });
+};
+
+/**
+ * Frees the coupon usage of an order that was cancelled outright
+ * @param orderId - The cancelled order
+ * @param session - Optional MongoDB session for transactions
+ */
+export const releaseCouponRedemption = async (
+  orderId: mongoose.Types.ObjectId,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const redemption = await CouponRedemption.findOneAndUpdate(
+    { order: orderId, status: 'applied' },
+    { status: 'released', releasedAt: new Date() },
+    { new: true, session }
+  );
+
+  if (redemption) {
+    await Coupon.updateOne({ _id: redemption.coupon, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } }, { session });
+  }
+};
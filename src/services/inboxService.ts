@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import Notification from '../models/notification';
+import { NotificationRecipientRole } from '../models/notificationLog';
+import { IOrder } from '../models/order';
+import Admin from '../models/admin';
+import { runAfterCommit } from '../utils/transaction';
+
+export interface InboxEntry {
+  type: string;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+export interface InboxRecipient {
+  id: mongoose.Types.ObjectId | string;
+  role: NotificationRecipientRole;
+}
+
+/**
+ * Adds an entry to the in-app inboxes of some recipients.
+ * Inside a transaction the entry is written once it commits (and dropped if it aborts), outside the
+ * session, so a failed inbox write is only logged and cannot abort the change it reports.
+ * @param recipients - Users, vendors or admins to notify
+ * @param entry - What to show
+ * @param session - Optional MongoDB session of the change being reported
+ */
+export const postToInbox = async (
+  recipients: InboxRecipient[],
+  entry: InboxEntry,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  if (recipients.length === 0) {
+    return;
+  }
+
+  runAfterCommit(session, () => {
+    Notification.create(recipients.map(recipient => ({
+      recipient: recipient.id,
+      recipientRole: recipient.role,
+      ...entry
+    }))).catch(error => console.error(`Error posting ${entry.type} to inbox:`, error));
+  });
+};
+
+/**
+ * Adds an entry to the inbox of every active admin (once the change commits, see postToInbox)
+ * @param entry - What to show
+ * @param session - Optional MongoDB session of the change being reported
+ */
+export const postToAdminInboxes = async (entry: InboxEntry, session?: mongoose.ClientSession): Promise<void> => {
+  runAfterCommit(session, () => {
+    Admin.find({ isActive: true }, { _id: 1 })
+      .then(admins => postToInbox(admins.map(admin => ({ id: admin._id as mongoose.Types.ObjectId, role: 'admin' })), entry))
+      .catch(error => console.error(`Error posting ${entry.type} to admin inboxes:`, error));
+  });
+};
+
+/**
+ * Tells every seller of an order (vendors, or admins for admin listings) they have a new order to fulfil,
+ * once the order commits
+ * @param order - The new order
+ * @param session - Optional MongoDB session for transactions
+ */
+export const postNewOrderToSellers = async (order: IOrder, session?: mongoose.ClientSession): Promise<void> => {
+  runAfterCommit(session, () => {
+    const sellerIds = order.vendorGroups.map(group => group.vendorId);
+
+    Admin.find({ _id: { $in: sellerIds } }, { _id: 1 })
+      .then(admins => postToInbox(order.vendorGroups.map(group => ({
+        id: group.vendorId,
+        role: admins.some(admin => (admin._id as mongoose.Types.ObjectId).equals(group.vendorId)) ? 'admin' : 'vendor'
+      })), {
+        type: 'order.new',
+        title: 'New order',
+        message: `Order #${String(order._id).slice(-6).toUpperCase()} has items for you to fulfil`,
+        data: { orderId: order._id }
+      }))
+      .catch(error => console.error('Error posting new order to seller inboxes:', error));
+  });
+};
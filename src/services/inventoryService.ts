@@ -0,0 +1,268 @@
+import mongoose from 'mongoose';
+import VendorProduct, { IVendorProduct } from '../models/vendorProduct';
+import StockReservation from '../models/stockReservation';
+import { IOrderItemBatch } from '../models/order';
+import { publish, getLowStockThreshold } from './realtimeService';
+import { AppError } from '../utils/errorHandler';
+
+// Default number of minutes stock is held for an unpaid Razorpay checkout
+const DEFAULT_RESERVATION_MINUTES = 15;
+
+/**
+ * Returns the sellable stock of a vendor product, less units held by unpaid checkouts
+ * @param vendorProduct - The vendor product document
+ * @returns Sum of sellable batch quantities, or the plain stock count for listings without batches
+ */
+export const getAvailableStock = (vendorProduct: IVendorProduct): number => {
+  const reserved = vendorProduct.reservedStock || 0;
+
+  if (!vendorProduct.batches || vendorProduct.batches.length === 0) {
+    return Math.max(vendorProduct.stock - reserved, 0);
+  }
+
+  const now = new Date();
+  const sellable = vendorProduct.batches
+    .filter(batch => batch.expiryDate > now && !batch.isRecalled)
+    .reduce((sum, batch) => sum + batch.quantity, 0);
+  return Math.max(sellable - reserved, 0);
+};
+
+// Tells the vendor and admins when a listing's available stock drops below the low-stock threshold
+const reportLowStock = (
+  vendorProduct: IVendorProduct,
+  availableBefore: number,
+  session?: mongoose.ClientSession
+): void => {
+  const threshold = getLowStockThreshold();
+  const available = getAvailableStock(vendorProduct);
+
+  if (availableBefore >= threshold && available < threshold) {
+    publish('inventory.low_stock', [{ role: 'vendor', id: vendorProduct.vendorId }, { role: 'admin' }], {
+      vendorProductId: vendorProduct._id,
+      vendorId: vendorProduct.vendorId,
+      availableStock: available,
+      threshold
+    }, session);
+  }
+};
+
+/**
+ * Returns how long stock is held for an unpaid checkout (STOCK_RESERVATION_MINUTES)
+ * @returns Hold window in minutes
+ */
+export const getReservationWindowMinutes = (): number => {
+  const minutes = parseInt(process.env.STOCK_RESERVATION_MINUTES || '', 10);
+  return minutes > 0 ? minutes : DEFAULT_RESERVATION_MINUTES;
+};
+
+/**
+ * Deducts stock from a vendor product, allocating batches first-expiry-first-out
+ * @param vendorProductId - The vendor product to deduct from
+ * @param quantity - Number of units to deduct
+ * @param session - Optional MongoDB session for transactions
+ * @returns The batches the units were taken from (empty for listings without batches)
+ */
+export const allocateStock = async (
+  vendorProductId: mongoose.Types.ObjectId | string,
+  quantity: number,
+  session?: mongoose.ClientSession
+): Promise<IOrderItemBatch[]> => {
+  const vendorProduct = await VendorProduct.findById(vendorProductId).session(session || null);
+
+  if (!vendorProduct) {
+    throw new AppError(`Vendor product with ID ${vendorProductId} not found`, 404);
+  }
+
+  const availableBefore = getAvailableStock(vendorProduct);
+
+  // Listings without batch tracking keep a single stock counter
+  if (!vendorProduct.batches || vendorProduct.batches.length === 0) {
+    if (availableBefore < quantity) {
+      throw new AppError(`Insufficient stock for vendor product ${vendorProductId}`, 400);
+    }
+    vendorProduct.stock -= quantity;
+    await vendorProduct.save({ session });
+    reportLowStock(vendorProduct, availableBefore, session);
+    return [];
+  }
+
+  if (availableBefore < quantity) {
+    throw new AppError(`Insufficient non-expired stock for vendor product ${vendorProductId}`, 400);
+  }
+
+  const now = new Date();
+  const sellableBatches = vendorProduct.batches
+    .filter(batch => batch.expiryDate > now && !batch.isRecalled && batch.quantity > 0)
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+
+  const allocations: IOrderItemBatch[] = [];
+  let remaining = quantity;
+
+  for (const batch of sellableBatches) {
+    if (remaining === 0) break;
+
+    const taken = Math.min(batch.quantity, remaining);
+    batch.quantity -= taken;
+    remaining -= taken;
+
+    allocations.push({
+      batchId: batch._id,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+      quantity: taken
+    });
+  }
+
+  await vendorProduct.save({ session });
+  reportLowStock(vendorProduct, availableBefore, session);
+  return allocations;
+};
+
+/**
+ * Returns previously allocated units to their batches (e.g. on cancellation)
+ * @param vendorProductId - The vendor product to restock
+ * @param quantity - Number of units to restore
+ * @param allocations - Batches recorded on the order item when stock was deducted
+ * @param session - Optional MongoDB session for transactions
+ */
+export const restoreStock = async (
+  vendorProductId: mongoose.Types.ObjectId | string,
+  quantity: number,
+  allocations: IOrderItemBatch[] = [],
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const vendorProduct = await VendorProduct.findById(vendorProductId).session(session || null);
+
+  if (!vendorProduct) {
+    return;
+  }
+
+  if (!vendorProduct.batches || vendorProduct.batches.length === 0 || allocations.length === 0) {
+    vendorProduct.stock += quantity;
+    await vendorProduct.save({ session });
+    return;
+  }
+
+  let remaining = quantity;
+  for (const allocation of allocations) {
+    if (remaining === 0) break;
+
+    const batch = vendorProduct.batches.find(b =>
+      (allocation.batchId && b._id?.equals(allocation.batchId)) || b.batchNumber === allocation.batchNumber
+    );
+    if (!batch) continue;
+
+    const restored = Math.min(allocation.quantity, remaining);
+    batch.quantity += restored;
+    remaining -= restored;
+  }
+
+  await vendorProduct.save({ session });
+};
+
+/**
+ * Holds units of a vendor product for an order until its payment is verified
+ * @param orderId - The order the units are held for
+ * @param vendorProductId - The vendor product to reserve
+ * @param quantity - Number of units to hold
+ * @param expiresAt - When the hold lapses if the payment is never verified
+ * @param session - Optional MongoDB session for transactions
+ */
+export const reserveStock = async (
+  orderId: mongoose.Types.ObjectId | string,
+  vendorProductId: mongoose.Types.ObjectId | string,
+  quantity: number,
+  expiresAt: Date,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  // Conditional increment so two checkouts cannot both hold the last unit
+  const vendorProduct = await VendorProduct.findOneAndUpdate(
+    {
+      _id: vendorProductId,
+      $expr: { $gte: [{ $subtract: ['$stock', { $ifNull: ['$reservedStock', 0] }] }, quantity] }
+    },
+    { $inc: { reservedStock: quantity } },
+    { new: true, session }
+  );
+
+  if (!vendorProduct) {
+    throw new AppError(`Insufficient stock for vendor product ${vendorProductId}`, 400);
+  }
+  reportLowStock(vendorProduct, getAvailableStock(vendorProduct) + quantity, session);
+
+  await StockReservation.create([{
+    order: orderId,
+    vendorProduct: vendorProductId,
+    quantity,
+    expiresAt
+  }], { session });
+};
+
+/**
+ * Ends the active holds of an order, either because stock was deducted or the hold was dropped
+ * @param orderId - The order whose holds should end
+ * @param vendorProductIds - Limit to these vendor products (all of the order's holds when omitted)
+ * @param status - 'converted' when stock is being deducted, 'released' otherwise
+ * @param session - Optional MongoDB session for transactions
+ * @returns Number of holds ended
+ */
+export const releaseReservations = async (
+  orderId: mongoose.Types.ObjectId | string,
+  vendorProductIds: Array<mongoose.Types.ObjectId | string> | undefined,
+  status: 'converted' | 'released',
+  session?: mongoose.ClientSession
+): Promise<number> => {
+  const filter: any = { order: orderId, status: 'active' };
+  if (vendorProductIds) {
+    filter.vendorProduct = { $in: vendorProductIds };
+  }
+
+  const reservations = await StockReservation.find(filter).session(session || null);
+
+  for (const reservation of reservations) {
+    await VendorProduct.updateOne(
+      { _id: reservation.vendorProduct },
+      { $inc: { reservedStock: -reservation.quantity } },
+      { session }
+    );
+
+    reservation.status = status;
+    reservation.releasedAt = new Date();
+    await reservation.save({ session });
+  }
+
+  return reservations.length;
+};
+
+/**
+ * Shrinks the active hold of an order on a vendor product (e.g. when part of a line is cancelled)
+ * @param orderId - The order holding the units
+ * @param vendorProductId - The reserved vendor product
+ * @param quantity - Number of units to stop holding
+ * @param session - Optional MongoDB session for transactions
+ */
+export const reduceReservation = async (
+  orderId: mongoose.Types.ObjectId | string,
+  vendorProductId: mongoose.Types.ObjectId | string,
+  quantity: number,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const reservation = await StockReservation.findOne({
+    order: orderId,
+    vendorProduct: vendorProductId,
+    status: 'active'
+  }).session(session || null);
+
+  if (!reservation) {
+    return;
+  }
+
+  if (quantity >= reservation.quantity) {
+    await releaseReservations(orderId, [vendorProductId], 'released', session);
+    return;
+  }
+
+  await VendorProduct.updateOne({ _id: vendorProductId }, { $inc: { reservedStock: -quantity } }, { session });
+  reservation.quantity -= quantity;
+  await reservation.save({ session });
+};
@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import { IOrder, IOrderItem, IOrderVendorGroup } from '../models/order';
+import Invoice, { IInvoice, IInvoiceLine } from '../models/invoice';
+import Counter from '../models/counter';
+import VendorProduct from '../models/vendorProduct';
+import { getSellerTaxProfiles, isInterStateSupply, computeLineTax } from './taxService';
+import { renderTextPdf } from '../utils/pdf';
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Indian financial year (April to March) a date falls in
+ * @param date - The date
+ * @returns e.g. "2026-27"
+ */
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// Next invoice number of the financial year. Taken in the session that saves the invoice, so an
+// aborted issue also rolls the counter back; without a session a failed save leaves a gap.
+const getNextInvoiceNumber = async (financialYear: string, session?: mongoose.ClientSession): Promise<string> => {
+  const counter = await Counter.findOneAndUpdate(
+    { key: `invoice:${financialYear}` },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true, session }
+  );
+  return `INV/${financialYear}/${String(counter!.seq).padStart(6, '0')}`;
+};
+
+/**
+ * Issues the tax invoice for a vendor group's supplied lines, once; later calls return the existing invoice
+ * @param order - The order
+ * @param group - The vendor group being invoiced
+ * @param lines - Lines and the quantities actually supplied
+ * @param session - Optional MongoDB session for transactions
+ * @returns The invoice
+ */
+export const issueInvoice = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  lines: Array<{ item: IOrderItem; quantity: number }>,
+  session?: mongoose.ClientSession
+): Promise<IInvoice> => {
+  const existing = await Invoice.findOne({ order: order._id, vendorId: group.vendorId }).session(session || null);
+  if (existing) {
+    return existing;
+  }
+
+  const seller = (await getSellerTaxProfiles([group.vendorId], session)).get(group.vendorId.toString())!;
+  const interState = isInterStateSupply(seller.state, order.shippingAddress.state);
+
+  const vendorProducts = await VendorProduct.find({
+    _id: { $in: lines.map(line => line.item.vendorProductId) }
+  }).populate('productId', 'name hsnCode').session(session || null);
+
+  const invoiceLines: IInvoiceLine[] = lines.map(({ item, quantity }) => {
+    const vendorProduct = vendorProducts.find(vp => (vp._id as mongoose.Types.ObjectId).equals(item.vendorProductId));
+    const product = vendorProduct?.productId as any;
+    const tax = computeLineTax(item, quantity, interState);
+
+    return {
+      vendorProductId: item.vendorProductId,
+      description: product?.name || 'Product',
+      hsnCode: item.hsnCode || product?.hsnCode,
+      quantity,
+      unitPrice: item.price,
+      discount: roundAmount(item.price * quantity - tax.taxableValue - tax.taxAmount),
+      taxableValue: tax.taxableValue,
+      gstRate: item.taxRate || 0,
+      cgst: tax.cgst,
+      sgst: tax.sgst,
+      igst: tax.igst,
+      total: roundAmount(tax.taxableValue + tax.taxAmount)
+    };
+  });
+
+  const sum = (field: 'taxableValue' | 'cgst' | 'sgst' | 'igst' | 'total') =>
+    roundAmount(invoiceLines.reduce((total, line) => total + line[field], 0));
+
+  const issuedAt = new Date();
+  const financialYear = getFinancialYear(issuedAt);
+  const shippingCharge = group.shippingPrice || 0;
+
+  const invoice = new Invoice({
+    invoiceNumber: await getNextInvoiceNumber(financialYear, session),
+    financialYear,
+    order: order._id,
+    user: order.user,
+    vendorId: group.vendorId,
+    seller,
+    buyer: {
+      name: order.shippingAddress.name,
+      address: [order.shippingAddress.street, order.shippingAddress.city, order.shippingAddress.state, order.shippingAddress.zipCode]
+        .filter(Boolean)
+        .join(', '),
+      state: order.shippingAddress.state,
+      phone: order.shippingAddress.phone
+    },
+    supplyType: interState ? 'inter_state' : 'intra_state',
+    lines: invoiceLines,
+    shippingCharge,
+    totals: {
+      taxableValue: sum('taxableValue'),
+      cgst: sum('cgst'),
+      sgst: sum('sgst'),
+      igst: sum('igst'),
+      totalTax: roundAmount(sum('cgst') + sum('sgst') + sum('igst')),
+      grandTotal: roundAmount(sum('total') + shippingCharge)
+    },
+    issuedAt
+  });
+
+  try {
+    await invoice.save({ session });
+  } catch (error: any) {
+    // Issued concurrently outside a transaction: use that invoice (inside one, the whole transaction fails)
+    if (error.code === 11000 && !session) {
+      const issued = await Invoice.findOne({ order: order._id, vendorId: group.vendorId });
+      if (issued) {
+        return issued;
+      }
+    }
+    throw error;
+  }
+  return invoice;
+};
+
+/**
+ * Renders a tax invoice as a PDF
+ * @param invoice - The invoice
+ * @returns The PDF file contents
+ */
+export const renderInvoicePdf = (invoice: IInvoice): Buffer => {
+  const money = (amount: number) => amount.toFixed(2).padStart(10);
+  const rule = '-'.repeat(100);
+  const interState = invoice.supplyType === 'inter_state';
+
+  const lines: string[] = [
+    'TAX INVOICE',
+    '',
+    `Invoice No: ${invoice.invoiceNumber}`,
+    `Invoice Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`,
+    `Order ID: ${invoice.order}`,
+    `Supply: ${interState ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}`,
+    '',
+    'Sold by:',
+    `  ${invoice.seller.name}`,
+    ...(invoice.seller.address ? [`  ${invoice.seller.address}`] : []),
+    ...(invoice.seller.state ? [`  State: ${invoice.seller.state}`] : []),
+    ...(invoice.seller.gstin ? [`  GSTIN: ${invoice.seller.gstin}`] : []),
+    '',
+    'Billed / shipped to:',
+    `  ${invoice.buyer.name}`,
+    ...(invoice.buyer.address ? [`  ${invoice.buyer.address}`] : []),
+    '',
+    rule,
+    `${'Item'.padEnd(28)}${'HSN'.padEnd(9)}${'Qty'.padStart(4)}${'Taxable'.padStart(10)}${'GST%'.padStart(6)}` +
+      (interState ? `${'IGST'.padStart(10)}${''.padStart(10)}` : `${'CGST'.padStart(10)}${'SGST'.padStart(10)}`) +
+      `${'Total'.padStart(10)}`,
+    rule
+  ];
+
+  invoice.lines.forEach(line => {
+    lines.push(
+      `${line.description.slice(0, 27).padEnd(28)}${(line.hsnCode || '-').padEnd(9)}${String(line.quantity).padStart(4)}` +
+      `${money(line.taxableValue)}${String(line.gstRate).padStart(6)}` +
+      (interState ? `${money(line.igst)}${''.padStart(10)}` : `${money(line.cgst)}${money(line.sgst)}`) +
+      `${money(line.total)}`
+    );
+  });
+
+  lines.push(
+    rule,
+    `${'Taxable value'.padEnd(30)}Rs.${money(invoice.totals.taxableValue)}`,
+    ...(interState
+      ? [`${'IGST'.padEnd(30)}Rs.${money(invoice.totals.igst)}`]
+      : [`${'CGST'.padEnd(30)}Rs.${money(invoice.totals.cgst)}`, `${'SGST'.padEnd(30)}Rs.${money(invoice.totals.sgst)}`]),
+    `${'Shipping'.padEnd(30)}Rs.${money(invoice.shippingCharge)}`,
+    `${'Invoice total'.padEnd(30)}Rs.${money(invoice.totals.grandTotal)}`,
+    '',
+    'Prices are inclusive of GST. This is a computer generated invoice.'
+  );
+
+  return renderTextPdf(lines);
+};
@@ -0,0 +1,32 @@
+import { dispatchPendingNotifications } from './notificationService';
+
+// How often queued and retried notifications are sent
+const DISPATCH_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Starts the periodic send of queued notifications
+ * @param intervalMs - Dispatch interval in milliseconds
+ * @returns The interval timer
+ */
+export const startNotificationDispatcher = (intervalMs: number = DISPATCH_INTERVAL_MS): NodeJS.Timeout => {
+  let running = false;
+
+  return setInterval(() => {
+    // A slow provider must not let runs pile up
+    if (running) {
+      return;
+    }
+    running = true;
+
+    dispatchPendingNotifications()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Sent ${count} notification(s)`);
+        }
+      })
+      .catch(error => console.error('Error dispatching notifications:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+};
@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import NotificationLog, { INotificationLog, NotificationChannel, NotificationRecipientRole } from '../models/notificationLog';
+import NotificationPreference from '../models/notificationPreference';
+import User from '../models/User';
+import Vendor from '../models/vendors';
+import Admin from '../models/admin';
+import { getChannelAdapter } from '../utils/notificationChannels';
+import { NOTIFICATION_TEMPLATES, NotificationEvent } from './notificationTemplates';
+import { postToInbox } from './inboxService';
+import { runAfterCommit } from '../utils/transaction';
+
+export interface NotificationRecipient {
+  id: mongoose.Types.ObjectId | string;
+  role: NotificationRecipientRole;
+}
+
+interface RecipientContact {
+  email?: string;
+  phone?: string;
+  pushTokens: string[];
+}
+
+// Default attempts per message before it is marked failed (NOTIFICATION_MAX_ATTEMPTS)
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// How long a message being sent is held back from other dispatchers
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+// Returns how many times a message is tried before it is marked failed
+const getMaxAttempts = (): number => {
+  const attempts = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '', 10);
+  return attempts > 0 ? attempts : DEFAULT_MAX_ATTEMPTS;
+};
+
+// Email, phone and push tokens of a recipient
+const getRecipientContact = async (
+  recipient: NotificationRecipient,
+  pushTokens: string[],
+  session?: mongoose.ClientSession
+): Promise<RecipientContact> => {
+  if (recipient.role === 'customer') {
+    const user = await User.findById(recipient.id, { email: 1, phoneNumber: 1 }).session(session || null);
+    return { email: user?.email, phone: user?.phoneNumber, pushTokens };
+  }
+
+  if (recipient.role === 'vendor') {
+    const vendor = await Vendor.findById(recipient.id, { businessEmail: 1, businessPhone: 1 }).session(session || null);
+    return { email: vendor?.businessEmail, phone: vendor?.businessPhone, pushTokens };
+  }
+
+  const admin = await Admin.findById(recipient.id, { email: 1 }).session(session || null);
+  return { email: admin?.email, pushTokens };
+};
+
+/**
+ * Sends one message and records the outcome. Failed messages are retried with exponential backoff
+ * (1, 2, 4... minutes) until NOTIFICATION_MAX_ATTEMPTS is reached.
+ * @param log - The notification log entry to send
+ * @returns The updated log entry
+ */
+export const deliverNotification = async (log: INotificationLog): Promise<INotificationLog> => {
+  const adapter = getChannelAdapter(log.channel);
+  log.attempts += 1;
+  log.provider = adapter.provider;
+
+  try {
+    await adapter.send({ channel: log.channel, to: log.to, subject: log.subject, body: log.body, data: log.data });
+    log.status = 'sent';
+    log.sentAt = new Date();
+    log.lastError = undefined;
+  } catch (error: any) {
+    log.lastError = error?.message || 'Unknown error';
+    if (log.attempts >= getMaxAttempts()) {
+      log.status = 'failed';
+    } else {
+      log.status = 'pending';
+      log.nextAttemptAt = new Date(Date.now() + Math.pow(2, log.attempts - 1) * 60 * 1000);
+    }
+  }
+
+  await log.save();
+  return log;
+};
+
+// Helper to post the inbox copy of an event and send it on the recipient's enabled channels. Runs
+// after the change it reports has committed; messages that fail are retried by the dispatcher.
+const sendEventNotification = async (
+  event: NotificationEvent,
+  recipient: NotificationRecipient,
+  data: Record<string, any>
+): Promise<void> => {
+  const template = NOTIFICATION_TEMPLATES[event];
+
+  // The in-app inbox always gets a copy; preferences only control the outside channels
+  await postToInbox([recipient], {
+    type: event,
+    title: template.subject(data),
+    message: template.short(data),
+    data
+  });
+
+  const preference = await NotificationPreference.findOne({
+    recipient: recipient.id,
+    recipientRole: recipient.role
+  });
+
+  if (preference?.mutedEvents.includes(event)) {
+    return;
+  }
+
+  const channels = preference?.channels || { email: true, sms: true, push: true };
+  const contact = await getRecipientContact(recipient, preference?.pushTokens || []);
+
+  const addresses: Record<NotificationChannel, string | undefined> = {
+    email: contact.email,
+    sms: contact.phone,
+    push: contact.pushTokens.length > 0 ? contact.pushTokens.join(',') : undefined
+  };
+
+  const logs = (Object.keys(addresses) as NotificationChannel[])
+    .filter(channel => channels[channel] && addresses[channel])
+    .map(channel => ({
+      event,
+      channel,
+      recipient: recipient.id,
+      recipientRole: recipient.role,
+      to: addresses[channel],
+      subject: template.subject(data),
+      body: channel === 'email' ? template.body(data) : template.short(data),
+      data,
+      // Sent below; held back from the dispatcher unless this process stops first
+      nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS)
+    }));
+
+  if (logs.length === 0) {
+    return;
+  }
+
+  const created = await NotificationLog.create(logs);
+  for (const log of created) {
+    await deliverNotification(log);
+  }
+};
+
+/**
+ * Notifies a user, vendor or admin of an event on every channel they have enabled.
+ * Inside a transaction nothing is written until it commits, and nothing at all if it aborts, so
+ * no message goes out for a change that rolled back and a notification error cannot fail the change
+ * (errors are logged). Returns without waiting for the messages to be sent.
+ * @param event - What happened
+ * @param recipient - Who to tell
+ * @param data - Values for the message template
+ * @param session - Optional MongoDB session of the change being reported
+ */
+export const notify = async (
+  event: NotificationEvent,
+  recipient: NotificationRecipient,
+  data: Record<string, any>,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  runAfterCommit(session, () => {
+    sendEventNotification(event, recipient, data)
+      .catch(error => console.error(`Error sending ${event} notification:`, error));
+  });
+};
+
+/**
+ * Sends messages that are due: new ones committed by a transaction and failed ones due a retry
+ * @param limit - Most messages to send in one run
+ * @returns Number of messages sent
+ */
+export const dispatchPendingNotifications = async (limit: number = 100): Promise<number> => {
+  let sent = 0;
+
+  for (let i = 0; i < limit; i++) {
+    // Claim one due message at a time so parallel dispatchers never send it twice
+    const log = await NotificationLog.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { $set: { nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+
+    if (!log) {
+      break;
+    }
+
+    const result = await deliverNotification(log);
+    if (result.status === 'sent') {
+      sent++;
+    }
+  }
+
+  return sent;
+};
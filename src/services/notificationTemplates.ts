@@ -0,0 +1,67 @@
+export type NotificationEvent =
+  | 'user.registered'
+  | 'vendor.registered'
+  | 'vendor.status_changed'
+  | 'order.placed'
+  | 'order.payment_verified'
+  | 'order.shipped'
+  | 'order.delivered'
+  | 'order.cancelled';
+
+export interface NotificationTemplate {
+  subject: (data: Record<string, any>) => string; // Email subject and push title
+  body: (data: Record<string, any>) => string; // Email body
+  short: (data: Record<string, any>) => string; // SMS and push body
+}
+
+// Helper to format rupee amounts
+const inr = (amount: number | undefined): string => `Rs. ${(amount || 0).toFixed(2)}`;
+
+// Last six characters of an order ID, as shown to customers
+const shortId = (id: any): string => String(id).slice(-6).toUpperCase();
+
+// Message templates for every notification event
+export const NOTIFICATION_TEMPLATES: Record<NotificationEvent, NotificationTemplate> = {
+  'user.registered': {
+    subject: () => 'Welcome to Medical E-commerce',
+    body: data => `Hi ${data.firstName},\n\nYour account has been created. You can now order medicines and health products from verified pharmacies.`,
+    short: data => `Hi ${data.firstName}, welcome to Medical E-commerce!`
+  },
+  'vendor.registered': {
+    subject: () => 'Your seller registration was received',
+    body: data => `Hello ${data.businessName},\n\nThanks for registering as a seller. Our team will review your business details and let you know once your account is approved.`,
+    short: data => `${data.businessName}: your seller registration is under review.`
+  },
+  'vendor.status_changed': {
+    subject: data => `Your seller account is ${data.status}`,
+    body: data => data.status === 'approved'
+      ? `Hello ${data.businessName},\n\nYour seller account has been approved. You can now list products and receive orders.`
+      : `Hello ${data.businessName},\n\nYour seller account status is now "${data.status}". Please contact support if you have questions.`,
+    short: data => `${data.businessName}: your seller account is now ${data.status}.`
+  },
+  'order.placed': {
+    subject: data => `Order #${shortId(data.orderId)} placed`,
+    body: data => `Thank you for your order #${shortId(data.orderId)} of ${inr(data.grandTotal)} (${data.paymentMethod}).${data.requiresPrescription ? '\n\nYour order contains prescription medicines and will be processed once the prescription is verified.' : ''}`,
+    short: data => `Order #${shortId(data.orderId)} of ${inr(data.grandTotal)} placed.`
+  },
+  'order.payment_verified': {
+    subject: data => `Payment received for order #${shortId(data.orderId)}`,
+    body: data => `We have received your payment of ${inr(data.amount)} for order #${shortId(data.orderId)}. We will let you know when it ships.`,
+    short: data => `Payment of ${inr(data.amount)} received for order #${shortId(data.orderId)}.`
+  },
+  'order.shipped': {
+    subject: data => `Order #${shortId(data.orderId)} has shipped`,
+    body: data => `Items from ${data.vendorName || 'your order'} have shipped${data.carrier ? ` with ${data.carrier}` : ''}.${data.awbNumber ? `\nTracking number: ${data.awbNumber}` : ''}${data.trackingUrl ? `\nTrack it at ${data.trackingUrl}` : ''}`,
+    short: data => `Order #${shortId(data.orderId)} shipped${data.awbNumber ? ` (AWB ${data.awbNumber})` : ''}.`
+  },
+  'order.delivered': {
+    subject: data => `Order #${shortId(data.orderId)} delivered`,
+    body: data => `Items from ${data.vendorName || 'your order'} have been delivered. We hope you are feeling better!`,
+    short: data => `Order #${shortId(data.orderId)} delivered.`
+  },
+  'order.cancelled': {
+    subject: data => `Order #${shortId(data.orderId)} cancelled`,
+    body: data => `Items from ${data.vendorName || 'your order'} have been cancelled${data.reason ? `: ${data.reason}` : ''}.${data.refundAmount ? `\nA refund of ${inr(data.refundAmount)} has been initiated.` : ''}`,
+    short: data => `Order #${shortId(data.orderId)} cancelled.`
+  }
+};
@@ -0,0 +1,806 @@
+import mongoose from 'mongoose';
+import { IOrder, IOrderItem, IOrderItemBatch, IOrderVendorGroup, OrderStatus, IOrderStatusHistory } from '../models/order';
+import VendorProduct from '../models/vendorProduct';
+import Vendor from '../models/vendors';
+import Prescription from '../models/prescription';
+import {
+  allocateStock,
+  restoreStock,
+  reserveStock,
+  reduceReservation,
+  releaseReservations,
+  getReservationWindowMinutes
+} from './inventoryService';
+import { createRefund, reverseWalletPayment, RefundRequest } from './refundService';
+import { releaseCouponRedemption } from './couponService';
+import { getLineNetAmount, getLinePayoutAmount } from './pricingService';
+import { issueInvoice } from './invoiceService';
+import { ShippingQuote } from './shippingService';
+import { notify } from './notificationService';
+import { postNewOrderToSellers } from './inboxService';
+import { publish, getOrderAudiences } from './realtimeService';
+import { IInvoice } from '../models/invoice';
+import Cart from '../models/cart';
+import { AppError } from '../utils/errorHandler';
+
+export type OrderActorRole = IOrderStatusHistory['actorRole'];
+
+export interface OrderActor {
+  id?: mongoose.Types.ObjectId;
+  role: OrderActorRole;
+}
+
+export interface TransitionOptions {
+  session?: mongoose.ClientSession;
+  note?: string;
+  refundTo?: RefundRequest['refundTo']; // Where cancellation refunds are sent (defaults to the original payment)
+}
+
+export interface CancelLineRequest {
+  vendorProductId: mongoose.Types.ObjectId | string;
+  quantity: number;
+}
+
+// Allowed status transitions; delivered and cancelled are terminal
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+// Target statuses each actor may move an order to
+const ACTOR_PERMISSIONS: Record<OrderActorRole, OrderStatus[]> = {
+  customer: ['cancelled'],
+  vendor: ['confirmed', 'processing', 'shipped', 'delivered'],
+  admin: ['confirmed', 'processing', 'shipped', 'delivered', 'cancelled'],
+  system: ['confirmed', 'processing', 'shipped', 'delivered', 'cancelled']
+};
+
+/**
+ * Checks whether an actor may move an order between two statuses
+ * @param from - Current order status
+ * @param to - Requested order status
+ * @param role - Role of the actor requesting the change
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus, role: OrderActorRole): boolean => {
+  return ORDER_TRANSITIONS[from].includes(to) && ACTOR_PERMISSIONS[role].includes(to);
+};
+
+// Progress of each status, used to derive the parent order status from its vendor groups
+const STATUS_PROGRESS: Record<OrderStatus, number> = {
+  pending: 0,
+  confirmed: 1,
+  processing: 2,
+  shipped: 3,
+  delivered: 4,
+  cancelled: 5
+};
+
+/**
+ * Derives the parent order status from its vendor groups.
+ * The order is as far along as its least advanced active group; it is cancelled only when every group is.
+ * @param groups - The vendor groups of the order
+ */
+export const deriveOrderStatus = (groups: IOrderVendorGroup[]): OrderStatus => {
+  const activeGroups = groups.filter(group => group.status !== 'cancelled');
+  if (activeGroups.length === 0) {
+    return 'cancelled';
+  }
+
+  return activeGroups.reduce<OrderStatus>(
+    (least, group) => (STATUS_PROGRESS[group.status] < STATUS_PROGRESS[least] ? group.status : least),
+    activeGroups[0].status
+  );
+};
+
+/**
+ * Groups order lines by vendor into fulfilment groups
+ * @param lines - Order lines with their vendor and per-line shipping price
+ * @param status - Initial status of every group
+ * @param shippingQuotes - Per-vendor shipping quotes; they replace the summed line shipping of their group
+ * @returns One group per vendor with its items total and shipping price
+ */
+export const buildVendorGroups = (
+  lines: Array<{ vendorId: mongoose.Types.ObjectId; price: number; quantity: number; shippingPrice: number; discount?: number }>,
+  status: OrderStatus = 'pending',
+  shippingQuotes: ShippingQuote[] = []
+): IOrderVendorGroup[] => {
+  const groups = new Map<string, IOrderVendorGroup>();
+
+  for (const line of lines) {
+    const key = line.vendorId.toString();
+    const group = groups.get(key) || {
+      vendorId: line.vendorId,
+      status,
+      itemsTotal: 0,
+      discountTotal: 0,
+      shippingPrice: 0,
+      stockAllocated: false
+    };
+    group.itemsTotal += line.price * line.quantity;
+    group.discountTotal += line.discount || 0;
+    group.shippingPrice += line.shippingPrice;
+    groups.set(key, group);
+  }
+
+  shippingQuotes.forEach(quote => {
+    const group = groups.get(quote.vendorId.toString());
+    if (group) {
+      group.shippingPrice = quote.fee;
+      group.shippingBreakdown = quote.breakdown;
+    }
+  });
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Finds the fulfilment group of a vendor in an order
+ * @param order - The order to search
+ * @param vendorId - Vendor (or Admin) ID
+ */
+export const getVendorGroup = (
+  order: IOrder,
+  vendorId: mongoose.Types.ObjectId | string
+): IOrderVendorGroup | undefined => {
+  return order.vendorGroups.find(group => group.vendorId.toString() === vendorId.toString());
+};
+
+/**
+ * Returns the order lines that belong to a vendor group
+ * @param order - The order the group belongs to
+ * @param group - The vendor group
+ */
+export const getVendorGroupItems = (order: IOrder, group: IOrderVendorGroup): IOrderItem[] => {
+  return order.vendorProducts.filter(item => item.vendorId?.toString() === group.vendorId.toString());
+};
+
+/**
+ * Units of an order line that are still being sold (not cancelled or returned)
+ * @param item - The order line
+ */
+export const getActiveQuantity = (item: IOrderItem): number => {
+  return item.quantity - (item.cancelledQuantity || 0) - (item.returnedQuantity || 0);
+};
+
+/**
+ * Value the customer paid for a vendor group's lines that are still to be fulfilled (excluding shipping)
+ * @param order - The order the group belongs to
+ * @param group - The vendor group
+ */
+export const getGroupActiveTotal = (order: IOrder, group: IOrderVendorGroup): number => {
+  return getVendorGroupItems(order, group).reduce((sum, item) => sum + getLineNetAmount(item, getActiveQuantity(item)), 0);
+};
+
+/**
+ * Value of a vendor group's active lines owed to the vendor (excluding shipping)
+ * @param order - The order the group belongs to
+ * @param group - The vendor group
+ */
+export const getGroupPayoutTotal = (order: IOrder, group: IOrderVendorGroup): number => {
+  return getVendorGroupItems(order, group).reduce((sum, item) => sum + getLinePayoutAmount(order, item, getActiveQuantity(item)), 0);
+};
+
+// Value of everything cancelled on an order, including the shipping of cancelled groups
+const getCancelledTotal = (order: IOrder): number => {
+  const cancelledLines = order.vendorProducts.reduce((sum, item) => sum + getLineNetAmount(item, item.cancelledQuantity || 0), 0);
+  const cancelledShipping = order.vendorGroups
+    .filter(group => group.status === 'cancelled')
+    .reduce((sum, group) => sum + group.shippingPrice, 0);
+  return cancelledLines + cancelledShipping;
+};
+
+/**
+ * Backfills vendor groups for orders placed before they existed, mirroring the order status.
+ * Such orders had stock deducted on payment (or creation for COD).
+ * @param order - The order to backfill
+ * @param session - Optional MongoDB session for transactions
+ */
+export const ensureVendorGroups = async (order: IOrder, session?: mongoose.ClientSession): Promise<void> => {
+  if (order.vendorGroups.length > 0) {
+    return;
+  }
+
+  const vendorProducts = await VendorProduct.find({
+    _id: { $in: order.vendorProducts.map(item => item.vendorProductId) }
+  }).session(session || null);
+
+  const lines = [];
+  for (const item of order.vendorProducts) {
+    const vendorProduct = vendorProducts.find(vp => (vp._id as mongoose.Types.ObjectId).equals(item.vendorProductId));
+    if (!vendorProduct) {
+      throw new AppError(`Vendor product with ID ${item.vendorProductId} not found`, 404);
+    }
+
+    item.vendorId = vendorProduct.vendorId;
+    lines.push({
+      vendorId: vendorProduct.vendorId,
+      price: item.price,
+      quantity: item.quantity,
+      shippingPrice: vendorProduct.shippingPrice,
+      discount: item.couponDiscount
+    });
+  }
+
+  const stockAllocated = order.paymentStatus === 'completed' || order.paymentMethod === 'cod';
+  order.vendorGroups = buildVendorGroups(lines, order.orderStatus).map(group => ({ ...group, stockAllocated }));
+};
+
+/**
+ * Deducts stock for the lines of a vendor group (FEFO batch allocation), once
+ * @param order - The order the group belongs to
+ * @param group - The vendor group to allocate stock for
+ * @param session - Optional MongoDB session for transactions
+ */
+const allocateGroupStock = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  if (group.stockAllocated) {
+    return;
+  }
+
+  for (const item of getVendorGroupItems(order, group)) {
+    // Convert any checkout hold into the actual decrement
+    await releaseReservations(order._id as mongoose.Types.ObjectId, [item.vendorProductId], 'converted', session);
+    if (getActiveQuantity(item) > 0) {
+      item.batches = await allocateStock(item.vendorProductId, getActiveQuantity(item), session);
+    }
+  }
+  group.stockAllocated = true;
+};
+
+/**
+ * Removes units from an order line's batch allocations, latest expiry first, so batch tracing
+ * (e.g. recalls) no longer counts units the customer no longer has
+ * @param item - The order line
+ * @param quantity - Number of units leaving the line
+ * @returns The batches (and quantities) the units came from
+ */
+export const takeLineBatches = (item: IOrderItem, quantity: number): IOrderItemBatch[] => {
+  const batches = item.batches || [];
+  const taken: IOrderItemBatch[] = [];
+  let remaining = quantity;
+
+  for (let i = batches.length - 1; i >= 0 && remaining > 0; i--) {
+    const units = Math.min(batches[i].quantity, remaining);
+    taken.push({
+      batchId: batches[i].batchId,
+      batchNumber: batches[i].batchNumber,
+      expiryDate: batches[i].expiryDate,
+      quantity: units
+    });
+    batches[i].quantity -= units;
+    remaining -= units;
+  }
+  item.batches = batches.filter(batch => batch.quantity > 0);
+
+  return taken;
+};
+
+/**
+ * Returns units of an order line to inventory (or drops them from its checkout hold)
+ * and removes them from the line's batch allocations, latest expiry first
+ * @param order - The order the line belongs to
+ * @param group - The vendor group of the line
+ * @param item - The order line
+ * @param quantity - Number of units to return
+ * @param session - Optional MongoDB session for transactions
+ */
+const restockLine = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  item: IOrderItem,
+  quantity: number,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  if (!group.stockAllocated) {
+    await reduceReservation(order._id as mongoose.Types.ObjectId, item.vendorProductId, quantity, session);
+    return;
+  }
+
+  // Return units to the batches they were allocated from
+  await restoreStock(item.vendorProductId, quantity, takeLineBatches(item, quantity), session);
+};
+
+/**
+ * Cancels units of a vendor group's lines: restocks them and refunds them if the order was paid
+ * @param order - The order the group belongs to
+ * @param group - The vendor group
+ * @param lines - Lines and quantities to cancel
+ * @param actor - Who is cancelling
+ * @param options - Optional session and reason
+ * @param includeShipping - Whether the group's shipping is refunded too (whole group cancelled)
+ */
+const cancelGroupLines = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  lines: Array<{ item: IOrderItem; quantity: number }>,
+  actor: OrderActor,
+  options: TransitionOptions,
+  includeShipping: boolean
+): Promise<void> => {
+  const { session, note, refundTo } = options;
+
+  for (const { item, quantity } of lines) {
+    await restockLine(order, group, item, quantity, session);
+    item.cancelledQuantity = (item.cancelledQuantity || 0) + quantity;
+  }
+
+  await createRefund(order, {
+    type: 'cancellation',
+    items: lines.map(({ item, quantity }) => ({
+      vendorProductId: item.vendorProductId,
+      vendorId: group.vendorId,
+      quantity,
+      amount: getLineNetAmount(item, quantity)
+    })),
+    shippingAmount: includeShipping ? group.shippingPrice : 0,
+    reason: note,
+    initiatedBy: actor.id,
+    initiatorRole: actor.role,
+    refundTo
+  }, session);
+};
+
+/**
+ * Issues the GST tax invoice for what a vendor group supplies (its active lines), once
+ * @param order - The order the group belongs to
+ * @param group - The vendor group
+ * @param session - Optional MongoDB session for transactions
+ * @returns The invoice
+ */
+export const issueGroupInvoice = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  session?: mongoose.ClientSession
+): Promise<IInvoice> => {
+  const lines = getVendorGroupItems(order, group)
+    .filter(item => getActiveQuantity(item) > 0)
+    .map(item => ({ item, quantity: getActiveQuantity(item) }));
+  return issueInvoice(order, group, lines, session);
+};
+
+/**
+ * Holds stock for every line of an unpaid order for the configured reservation window
+ * @param order - The newly created order
+ * @param session - Optional MongoDB session for transactions
+ */
+export const reserveOrderStock = async (order: IOrder, session?: mongoose.ClientSession): Promise<void> => {
+  const expiresAt = new Date(Date.now() + getReservationWindowMinutes() * 60 * 1000);
+
+  for (const item of order.vendorProducts) {
+    await reserveStock(order._id as mongoose.Types.ObjectId, item.vendorProductId, item.quantity, expiresAt, session);
+  }
+  order.reservationExpiresAt = expiresAt;
+};
+
+/**
+ * Deducts stock for every active vendor group of an order that has not been allocated yet
+ * @param order - The order to allocate stock for
+ * @param session - Optional MongoDB session for transactions
+ */
+export const allocateOrderStock = async (order: IOrder, session?: mongoose.ClientSession): Promise<void> => {
+  await ensureVendorGroups(order, session);
+
+  for (const group of order.vendorGroups) {
+    if (group.status !== 'cancelled') {
+      await allocateGroupStock(order, group, session);
+    }
+  }
+};
+
+/**
+ * Records a captured Razorpay payment against an order, once.
+ * Converts the checkout hold into a stock decrement, or refunds the payment if the order was already cancelled.
+ * Shared by client-side verification and the Razorpay webhook.
+ * @param order - The order the payment belongs to
+ * @param paymentId - Razorpay payment ID (pay_xxx)
+ * @param session - Optional MongoDB session for transactions
+ * @param signature - Checkout signature, when verified by the client
+ * @returns 'paid', 'already_paid', or 'refunded' when the order had been cancelled
+ */
+export const recordOrderPayment = async (
+  order: IOrder,
+  paymentId: string,
+  session?: mongoose.ClientSession,
+  signature?: string
+): Promise<'paid' | 'already_paid' | 'refunded'> => {
+  if (order.paymentStatus === 'completed' || order.paymentStatus === 'refunded') {
+    return 'already_paid';
+  }
+
+  order.paymentStatus = 'completed';
+  order.razorpayPaymentId = paymentId;
+  if (signature) {
+    order.razorpaySignature = signature;
+  }
+
+  // The reservation window lapsed and the order was cancelled, so give the money back
+  // (any wallet part was already returned when the order was cancelled)
+  if (order.orderStatus === 'cancelled') {
+    await createRefund(order, {
+      type: 'payment_reversal',
+      amount: order.grandTotal - (order.walletAmount || 0),
+      reason: 'Payment received after the order was cancelled',
+      initiatorRole: 'system'
+    }, session);
+    await order.save({ session });
+    return 'refunded';
+  }
+
+  // Lines cancelled while the order was unpaid are refunded from the captured amount
+  const cancelledTotal = getCancelledTotal(order);
+  if (cancelledTotal > 0) {
+    await createRefund(order, {
+      type: 'cancellation',
+      amount: cancelledTotal,
+      reason: 'Items cancelled before payment',
+      initiatorRole: 'system'
+    }, session);
+  }
+
+  // Convert the checkout hold into a stock decrement, allocating batches FEFO
+  await allocateOrderStock(order, session);
+  await order.save({ session });
+
+  await notify('order.payment_verified', { id: order.user, role: 'customer' }, {
+    orderId: order._id,
+    amount: order.grandTotal - (order.walletAmount || 0)
+  }, session);
+  await postNewOrderToSellers(order, session);
+  publish('payment.updated', getOrderAudiences(order), {
+    orderId: order._id,
+    paymentStatus: order.paymentStatus,
+    paymentMethod: order.paymentMethod
+  }, session);
+  publish('order.new', getOrderAudiences(order), {
+    orderId: order._id,
+    grandTotal: order.grandTotal,
+    paymentMethod: order.paymentMethod
+  }, session);
+  return 'paid';
+};
+
+/**
+ * Clears the customer's cart once their order is paid (best effort)
+ * @param order - The paid order
+ */
+export const clearOrderCart = async (order: IOrder): Promise<void> => {
+  try {
+    await Cart.findOneAndDelete({ userId: order.user });
+  } catch (cartError) {
+    console.warn('Failed to clear user cart after payment:', cartError);
+  }
+};
+
+// Helper to find the vendors (or admins) whose lines in an order are prescription-only
+const getPrescriptionVendorIds = async (order: IOrder, session?: mongoose.ClientSession): Promise<Set<string>> => {
+  const listings = await VendorProduct.find(
+    { _id: { $in: order.vendorProducts.map(item => item.vendorProductId) } },
+    'vendorId productId'
+  ).populate('productId', 'requiresPrescription').session(session || null);
+
+  return new Set(listings
+    .filter(listing => (listing.productId as any)?.requiresPrescription)
+    .map(listing => listing.vendorId.toString()));
+};
+
+// Guard: vendor groups with prescription-only lines stay on hold until the attached prescription is
+// approved by an admin, or by that group's own vendor pharmacist. Groups without such lines are not held.
+const assertPrescriptionCleared = async (
+  order: IOrder,
+  groups: IOrderVendorGroup[],
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  if (!order.requiresPrescription) {
+    return;
+  }
+
+  const rxVendorIds = await getPrescriptionVendorIds(order, session);
+  const heldGroups = groups.filter(group => rxVendorIds.has(group.vendorId.toString()));
+  if (heldGroups.length === 0) {
+    return;
+  }
+
+  const prescription = order.prescription
+    ? await Prescription.findById(order.prescription).session(session || null)
+    : null;
+
+  const cleared = prescription?.status === 'approved' || (prescription?.status === 'pending' && heldGroups.every(group =>
+    prescription.vendorReviews.some(review => review.vendorId.equals(group.vendorId) && review.status === 'approved')
+  ));
+
+  if (!cleared) {
+    throw new AppError('Order is on hold until the attached prescription is approved', 400);
+  }
+};
+
+// Guard: the transition graph, the actor's permissions and, for confirmation, the payment
+// (only cash on delivery orders are confirmed before they are paid)
+const assertGroupTransition = (order: IOrder, group: IOrderVendorGroup, to: OrderStatus, actor: OrderActor): void => {
+  if (!ORDER_TRANSITIONS[group.status].includes(to)) {
+    throw new AppError(`Cannot change status from ${group.status} to ${to}`, 400);
+  }
+
+  if (!ACTOR_PERMISSIONS[actor.role].includes(to)) {
+    throw new AppError(`A ${actor.role} cannot change order status to ${to}`, 403);
+  }
+
+  if (to === 'confirmed' && order.paymentMethod !== 'cod' && order.paymentStatus !== 'completed') {
+    throw new AppError('Order cannot be confirmed until it is paid', 400);
+  }
+};
+
+// Moves a single vendor group and runs its side effects (stock, refunds, payouts); does not save
+const applyGroupTransition = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  to: OrderStatus,
+  actor: OrderActor,
+  options: TransitionOptions
+): Promise<void> => {
+  const { session, note } = options;
+  const from = group.status;
+
+  assertGroupTransition(order, group, to, actor);
+
+  if (to === 'confirmed') {
+    // Orders that were not paid upfront have their stock deducted on confirmation
+    await allocateGroupStock(order, group, session);
+  } else if (to === 'shipped') {
+    group.shippedAt = new Date();
+    await issueGroupInvoice(order, group, session);
+  } else if (to === 'delivered') {
+    await issueGroupInvoice(order, group, session); // Groups delivered without being marked shipped
+    // Credit the vendor's sales for payouts (cancelled lines excluded)
+    await Vendor.updateOne({ _id: group.vendorId }, { $inc: { totalSales: getGroupPayoutTotal(order, group) } }, { session });
+    group.deliveredAt = new Date();
+  } else if (to === 'cancelled') {
+    // Restock and refund every line still active, plus the group's shipping
+    const lines = getVendorGroupItems(order, group)
+      .filter(item => getActiveQuantity(item) > 0)
+      .map(item => ({ item, quantity: getActiveQuantity(item) }));
+    await cancelGroupLines(order, group, lines, actor, options, true);
+    group.stockAllocated = false;
+    group.cancelledAt = new Date();
+  }
+
+  group.status = to;
+  order.statusHistory.push({
+    from,
+    to,
+    vendorId: group.vendorId,
+    changedBy: actor.id,
+    actorRole: actor.role,
+    note,
+    changedAt: new Date()
+  });
+
+  publish('order.status_changed', getOrderAudiences(order, [group.vendorId]), {
+    orderId: order._id,
+    vendorId: group.vendorId,
+    from,
+    to
+  }, session);
+
+  // Tell the customer about the milestones they care about
+  if (to === 'shipped' || to === 'delivered' || to === 'cancelled') {
+    await notify(`order.${to}`, { id: order.user, role: 'customer' }, {
+      orderId: order._id,
+      vendorId: group.vendorId,
+      carrier: group.carrier,
+      awbNumber: group.trackingNumber,
+      reason: note
+    }, session);
+  }
+};
+
+// Re-derives the parent order status from its groups and runs order-level side effects
+const syncOrderStatus = async (
+  order: IOrder,
+  actor: OrderActor,
+  note?: string,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const from = order.orderStatus;
+  const to = deriveOrderStatus(order.vendorGroups);
+
+  if (from === to) {
+    return;
+  }
+
+  if (to === 'delivered' && order.paymentMethod === 'cod' && order.paymentStatus === 'pending') {
+    order.paymentStatus = 'completed'; // Cash collected on delivery
+  }
+
+  // A split order cancelled before its Razorpay part was paid gives the wallet part back
+  if (to === 'cancelled' && order.paymentStatus !== 'completed' && (order.walletAmount || 0) > 0) {
+    await reverseWalletPayment(order, session);
+  }
+
+  // An order cancelled outright gives the customer their coupon usage back
+  if (to === 'cancelled' && order.coupon) {
+    await releaseCouponRedemption(order._id as mongoose.Types.ObjectId, session);
+  }
+
+  order.orderStatus = to;
+  order.statusHistory.push({
+    from,
+    to,
+    changedBy: actor.id,
+    actorRole: actor.role,
+    note,
+    changedAt: new Date()
+  });
+};
+
+/**
+ * Moves every active vendor group of an order to a new status, enforcing guards and running side effects.
+ * This and `transitionVendorGroup` are the only places that should change `orderStatus` or append to `statusHistory`.
+ * @param order - The order document to transition
+ * @param to - Requested order status
+ * @param actor - Who is making the change
+ * @param options - Optional session and note recorded in the status history
+ * @returns The saved order
+ */
+export const transitionOrder = async (
+  order: IOrder,
+  to: OrderStatus,
+  actor: OrderActor,
+  options: TransitionOptions = {}
+): Promise<IOrder> => {
+  const { session, note } = options;
+
+  await ensureVendorGroups(order, session);
+
+  const groups = order.vendorGroups.filter(group => group.status !== 'cancelled' && group.status !== to);
+  if (groups.length === 0) {
+    throw new AppError(`Order is already ${order.orderStatus}`, 400);
+  }
+
+  // Check every group first so the order is never left half transitioned
+  groups.forEach(group => assertGroupTransition(order, group, to, actor));
+
+  if (to !== 'cancelled') {
+    await assertPrescriptionCleared(order, groups, session);
+  }
+
+  for (const group of groups) {
+    await applyGroupTransition(order, group, to, actor, options);
+  }
+  await syncOrderStatus(order, actor, note, session);
+
+  await order.save({ session });
+  return order;
+};
+
+/**
+ * Moves one vendor's fulfilment group to a new status and re-derives the parent order status
+ * @param order - The order document to transition
+ * @param vendorId - Vendor (or Admin) whose group should change
+ * @param to - Requested group status
+ * @param actor - Who is making the change
+ * @param options - Optional session and note recorded in the status history
+ * @returns The saved order
+ */
+export const transitionVendorGroup = async (
+  order: IOrder,
+  vendorId: mongoose.Types.ObjectId | string,
+  to: OrderStatus,
+  actor: OrderActor,
+  options: TransitionOptions = {}
+): Promise<IOrder> => {
+  const { session, note } = options;
+
+  await ensureVendorGroups(order, session);
+
+  const group = getVendorGroup(order, vendorId);
+  if (!group) {
+    throw new AppError('Order not found or you do not have permission to update it', 404);
+  }
+
+  assertGroupTransition(order, group, to, actor);
+
+  if (to !== 'cancelled') {
+    await assertPrescriptionCleared(order, [group], session);
+  }
+
+  await applyGroupTransition(order, group, to, actor, options);
+  await syncOrderStatus(order, actor, note, session);
+
+  await order.save({ session });
+  return order;
+};
+
+/**
+ * Cancels individual lines (or quantities of lines) of an order, restocking and refunding only those units.
+ * Vendor groups left with nothing to fulfil are cancelled outright, refunding their shipping too.
+ * @param order - The order document
+ * @param requests - Vendor products and quantities to cancel
+ * @param actor - Who is cancelling
+ * @param options - Optional session and reason
+ * @returns The saved order
+ */
+export const cancelOrderItems = async (
+  order: IOrder,
+  requests: CancelLineRequest[],
+  actor: OrderActor,
+  options: TransitionOptions = {}
+): Promise<IOrder> => {
+  const { session, note } = options;
+
+  if (!ACTOR_PERMISSIONS[actor.role].includes('cancelled')) {
+    throw new AppError(`A ${actor.role} cannot cancel order items`, 403);
+  }
+
+  await ensureVendorGroups(order, session);
+
+  // Collect the requested quantities per group, checking everything before changing anything
+  const linesByGroup = new Map<IOrderVendorGroup, Array<{ item: IOrderItem; quantity: number }>>();
+
+  for (const request of requests) {
+    const item = order.vendorProducts.find(line => line.vendorProductId.toString() === request.vendorProductId.toString());
+    if (!item) {
+      throw new AppError(`Vendor product ${request.vendorProductId} is not part of this order`, 404);
+    }
+
+    const group = order.vendorGroups.find(g => g.vendorId.toString() === item.vendorId?.toString());
+    if (!group) {
+      throw new AppError(`Vendor product ${request.vendorProductId} is not part of this order`, 404);
+    }
+
+    if (!ORDER_TRANSITIONS[group.status].includes('cancelled')) {
+      throw new AppError(`Cannot cancel items that are already ${group.status}`, 400);
+    }
+
+    const lines = linesByGroup.get(group) || [];
+    const existing = lines.find(line => line.item === item);
+    const requested = (existing ? existing.quantity : 0) + request.quantity;
+
+    if (requested > getActiveQuantity(item)) {
+      throw new AppError(`Cannot cancel ${requested} unit(s) of vendor product ${request.vendorProductId}. Active quantity: ${getActiveQuantity(item)}`, 400);
+    }
+
+    if (existing) {
+      existing.quantity = requested;
+    } else {
+      lines.push({ item, quantity: request.quantity });
+    }
+    linesByGroup.set(group, lines);
+  }
+
+  for (const [group, lines] of linesByGroup) {
+    const remaining = getVendorGroupItems(order, group).reduce((sum, item) => sum + getActiveQuantity(item), 0);
+    const cancelling = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+    if (cancelling === remaining) {
+      await applyGroupTransition(order, group, 'cancelled', actor, options);
+    } else {
+      await cancelGroupLines(order, group, lines, actor, options, false);
+    }
+  }
+  await syncOrderStatus(order, actor, note, session);
+
+  await order.save({ session });
+  return order;
+};
+
+/**
+ * Records the initial status history entry of a new order
+ * @param order - The newly created order
+ * @param actor - Who placed the order
+ */
+export const recordOrderCreated = (order: IOrder, actor: OrderActor): void => {
+  order.statusHistory.push({
+    to: order.orderStatus,
+    changedBy: actor.id,
+    actorRole: actor.role,
+    note: 'Order placed',
+    changedAt: new Date()
+  });
+};
@@ -0,0 +1,105 @@
+import { IOrder, IOrderItem } from '../models/order';
+
+// Listing fields the pricing of a line is computed from
+export interface PriceableListing {
+  price: number; // List price per unit
+  discount?: number; // Listing discount percentage (0-100)
+  shippingPrice?: number;
+}
+
+export interface LinePricing {
+  listPrice: number; // Per unit, before the listing discount
+  discountPercent: number;
+  discountAmount: number; // Listing discount on the whole line
+  sellingPrice: number; // Per unit, what the customer is charged
+  quantity: number;
+  shippingPrice: number;
+  taxRate: number; // GST percentage included in the selling price
+  taxAmount: number; // GST included in the line total
+  lineTotal: number; // sellingPrice x quantity
+}
+
+export interface PricingSummary {
+  listTotal: number;
+  discountTotal: number;
+  totalAmount: number; // Sum of line totals
+  shippingPrice: number;
+  taxTotal: number;
+}
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Unit price after the listing discount
+ * @param price - List price per unit
+ * @param discount - Discount percentage (0-100)
+ */
+export const getSellingPrice = (price: number, discount: number = 0): number => {
+  return roundAmount(price * (1 - (discount || 0) / 100));
+};
+
+// Aggregation expression for the selling price of a vendor product document (what the customer pays after
+// the listing discount), mirroring getSellingPrice. Projected as sellingPrice wherever listings are returned.
+export const SELLING_PRICE_EXPRESSION = {
+  $round: [{ $multiply: ['$price', { $subtract: [1, { $divide: [{ $ifNull: ['$discount', 0] }, 100] }] }] }, 2]
+};
+
+/**
+ * Prices a line of a listing: list price, listing discount, selling price, shipping and the GST it includes
+ * @param listing - The vendor product (or its price fields)
+ * @param quantity - Number of units
+ * @param taxRate - GST percentage included in the price
+ */
+export const priceLine = (listing: PriceableListing, quantity: number, taxRate: number = 0): LinePricing => {
+  const discountPercent = listing.discount || 0;
+  const sellingPrice = getSellingPrice(listing.price, discountPercent);
+  const lineTotal = roundAmount(sellingPrice * quantity);
+
+  return {
+    listPrice: listing.price,
+    discountPercent,
+    discountAmount: roundAmount((listing.price - sellingPrice) * quantity),
+    sellingPrice,
+    quantity,
+    shippingPrice: listing.shippingPrice || 0,
+    taxRate,
+    // Prices are GST inclusive, so the tax is carved out of the line total
+    taxAmount: roundAmount(lineTotal * taxRate / (100 + taxRate)),
+    lineTotal
+  };
+};
+
+/**
+ * Adds up priced lines into cart/order totals
+ * @param lines - Priced lines
+ */
+export const summarizePricing = (lines: LinePricing[]): PricingSummary => {
+  return lines.reduce((summary, line) => ({
+    listTotal: roundAmount(summary.listTotal + line.listPrice * line.quantity),
+    discountTotal: roundAmount(summary.discountTotal + line.discountAmount),
+    totalAmount: roundAmount(summary.totalAmount + line.lineTotal),
+    shippingPrice: roundAmount(summary.shippingPrice + line.shippingPrice),
+    taxTotal: roundAmount(summary.taxTotal + line.taxAmount)
+  }), { listTotal: 0, discountTotal: 0, totalAmount: 0, shippingPrice: 0, taxTotal: 0 });
+};
+
+/**
+ * What the customer paid for some units of an order line, after its share of the coupon discount
+ * @param item - The order line
+ * @param quantity - Number of units
+ */
+export const getLineNetAmount = (item: IOrderItem, quantity: number): number => {
+  const couponDiscount = item.quantity > 0 ? (item.couponDiscount || 0) * quantity / item.quantity : 0;
+  return roundAmount(item.price * quantity - couponDiscount);
+};
+
+/**
+ * What the vendor earns for some units of an order line; only vendor-funded coupons come out of the vendor's share
+ * @param order - The order the line belongs to
+ * @param item - The order line
+ * @param quantity - Number of units
+ */
+export const getLinePayoutAmount = (order: IOrder, item: IOrderItem, quantity: number): number => {
+  return order.discountFundedBy === 'vendor' ? getLineNetAmount(item, quantity) : roundAmount(item.price * quantity);
+};
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import ProductQuestion from '../models/productQuestion';
+import VendorProduct from '../models/vendorProduct';
+
+export interface QuestionListOptions {
+  page: number;
+  limit: number;
+  sortBy?: string; // 'recent' (default), 'most-answered' or 'unanswered'
+}
+
+/**
+ * Returns a page of a product's approved questions with their visible answers, most upvoted first.
+ * Voter lists and moderation details are left out.
+ * @param productId - The catalogue product
+ * @param options - Page, page size and sort
+ */
+export const getPublishedQuestions = async (
+  productId: mongoose.Types.ObjectId | string,
+  options: QuestionListOptions
+): Promise<any> => {
+  const filter: any = { product: productId, status: 'approved' };
+  let sort: any = { createdAt: -1 };
+  if (options.sortBy === 'most-answered') {
+    sort = { answerCount: -1, createdAt: -1 };
+  } else if (options.sortBy === 'unanswered') {
+    filter.answerCount = 0;
+  }
+
+  const result = await ProductQuestion.paginate(filter, {
+    page: options.page,
+    limit: options.limit,
+    sort,
+    lean: true,
+    select: '-moderationNote -moderatedBy -moderatedAt',
+    populate: { path: 'user', select: 'firstName lastName' }
+  });
+
+  result.docs = result.docs.map((question: any) => ({
+    ...question,
+    answers: question.answers
+      .filter((answer: any) => answer.status === 'approved')
+      .sort((a: any, b: any) => b.upvoteCount - a.upvoteCount)
+      .map(({ upvotes, ...answer }: any) => answer)
+  }));
+
+  return result;
+};
+
+/**
+ * Whether a vendor sells a product (has an approved listing of it) and so may answer questions about it
+ * @param vendorId - The vendor
+ * @param productId - The catalogue product
+ */
+export const sellsProduct = async (
+  vendorId: mongoose.Types.ObjectId | string,
+  productId: mongoose.Types.ObjectId | string
+): Promise<boolean> => {
+  const listing = await VendorProduct.exists({ vendorId, productId, status: 'approved' });
+  return !!listing;
+};
@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+import { Response } from 'express';
+import { NotificationRecipientRole } from '../models/notificationLog';
+import { IOrder } from '../models/order';
+import { runAfterCommit } from '../utils/transaction';
+
+export type RealtimeEventType = 'order.new' | 'order.status_changed' | 'inventory.low_stock' | 'payment.updated';
+
+// Who receives an event; without an ID every connected client of the role receives it
+export interface RealtimeAudience {
+  role: NotificationRecipientRole;
+  id?: mongoose.Types.ObjectId | string;
+}
+
+interface RealtimeClient {
+  role: NotificationRecipientRole;
+  id: string;
+  res: Response;
+  heartbeat: NodeJS.Timeout;
+}
+
+// Comment line sent periodically so proxies do not close idle streams
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Default available units below which a listing is reported as low on stock
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+// Open streams of this process
+const clients = new Set<RealtimeClient>();
+let nextEventId = 1;
+
+// Writes one event to a client's stream in the Server-Sent Events format
+const writeEvent = (client: RealtimeClient, id: number, type: RealtimeEventType, data: Record<string, any>): void => {
+  client.res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Sends an event to every open stream of its audiences
+const deliver = (type: RealtimeEventType, audiences: RealtimeAudience[], data: Record<string, any>): void => {
+  const id = nextEventId++;
+  const payload = { ...data, type, sentAt: new Date() };
+
+  clients.forEach(client => {
+    const isAddressed = audiences.some(audience =>
+      audience.role === client.role && (audience.id === undefined || String(audience.id) === client.id)
+    );
+    if (!isAddressed) {
+      return;
+    }
+
+    try {
+      writeEvent(client, id, type, payload);
+    } catch (error: any) {
+      console.error(`Error writing ${type} event to ${client.role} ${client.id}:`, error);
+    }
+  });
+};
+
+/**
+ * Returns the available units below which a listing is reported as low on stock (LOW_STOCK_THRESHOLD)
+ * @returns Threshold in units
+ */
+export const getLowStockThreshold = (): number => {
+  const threshold = parseInt(process.env.LOW_STOCK_THRESHOLD || '', 10);
+  return threshold >= 0 ? threshold : DEFAULT_LOW_STOCK_THRESHOLD;
+};
+
+/**
+ * Everyone following an order: its customer, the vendors of its groups and all admins
+ * @param order - The order
+ * @param vendorIds - Limit the vendors to these (all of the order's vendors when omitted)
+ */
+export const getOrderAudiences = (
+  order: IOrder,
+  vendorIds?: mongoose.Types.ObjectId[]
+): RealtimeAudience[] => {
+  const vendors = vendorIds || order.vendorGroups.map(group => group.vendorId);
+  return [
+    { role: 'customer', id: order.user },
+    ...vendors.map(vendorId => ({ role: 'vendor' as const, id: vendorId })),
+    { role: 'admin' }
+  ];
+};
+
+/**
+ * Registers an open Server-Sent Events response as a client of a user, vendor or admin
+ * @param role - Role of the logged in account
+ * @param id - ID of the logged in account
+ * @param res - The response kept open for the stream
+ * @returns Function that unregisters the client once the connection closes
+ */
+export const subscribe = (
+  role: NotificationRecipientRole,
+  id: mongoose.Types.ObjectId | string,
+  res: Response
+): (() => void) => {
+  const client: RealtimeClient = {
+    role,
+    id: String(id),
+    res,
+    heartbeat: setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS)
+  };
+  clients.add(client);
+
+  return () => {
+    clearInterval(client.heartbeat);
+    clients.delete(client);
+  };
+};
+
+/**
+ * Pushes an event to the connected clients of some users, vendors or admins.
+ * Inside a transaction the event is held back until the session ends and is dropped
+ * if the transaction did not commit, so clients never see changes that rolled back.
+ * Streams are held in memory, so only clients connected to this process receive it.
+ * @param type - What happened
+ * @param audiences - Who to tell
+ * @param data - Event payload (IDs and the changed values)
+ * @param session - Optional MongoDB session of the change being reported
+ */
+export const publish = (
+  type: RealtimeEventType,
+  audiences: RealtimeAudience[],
+  data: Record<string, any>,
+  session?: mongoose.ClientSession
+): void => {
+  runAfterCommit(session, () => deliver(type, audiences, data));
+};
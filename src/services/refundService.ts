@@ -0,0 +1,269 @@
+import mongoose from 'mongoose';
+import { IOrder } from '../models/order';
+import Refund, { IRefund, IRefundItem } from '../models/refund';
+import Order from '../models/order';
+import { refundRazorpayPayment, findRazorpayRefundByReceipt, isRazorpayConfigured, getRazorpayErrorMessage } from '../utils/razorpay';
+import { runAfterCommit } from '../utils/transaction';
+import { creditWallet } from './walletService';
+import { publish, getOrderAudiences } from './realtimeService';
+
+export interface RefundRequest {
+  type: IRefund['type'];
+  items?: IRefundItem[];
+  shippingAmount?: number;
+  amount?: number; // Defaults to the sum of the items and shipping
+  reason?: string;
+  initiatedBy?: mongoose.Types.ObjectId;
+  initiatorRole: IRefund['initiatorRole'];
+  refundTo?: 'source' | 'wallet'; // Credit everything to the wallet instead of the original payment
+}
+
+// Times a refund is sent to Razorpay before it is marked failed
+const MAX_SUBMISSION_ATTEMPTS = 5;
+
+// An attempt this old without an outcome is taken to have died, so another may start
+const SUBMISSION_LOCK_MS = 2 * 60 * 1000;
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Whether money has been taken for an order and can be given back
+ * @param order - The order to check
+ */
+export const isOrderRefundable = (order: IOrder): boolean => {
+  return order.paymentStatus === 'completed';
+};
+
+// Amount already given back through the gateway (or as cash) for an order
+const getGatewayRefundedAmount = async (order: IOrder, session?: mongoose.ClientSession): Promise<number> => {
+  const refunds = await Refund.find({ order: order._id }).session(session || null);
+  return refunds.reduce((sum, refund) => sum + refund.amount - (refund.walletAmount || 0), 0);
+};
+
+/**
+ * Refunds part (or all) of an order's payment and records it.
+ * The gateway-paid part is refunded first (Razorpay through the gateway once the transaction commits,
+ * COD flagged for manual settlement),
+ * then the wallet-paid part is credited back to the wallet. With `refundTo: 'wallet'` everything goes to the wallet.
+ * Updates `refundedAmount` on the order (and `paymentStatus` once everything is refunded) but does not save it.
+ * @param order - The paid order
+ * @param request - What is being refunded, why and by whom
+ * @param session - Optional MongoDB session for transactions
+ * @returns The refund record, or null when nothing was paid
+ */
+export const createRefund = async (
+  order: IOrder,
+  request: RefundRequest,
+  session?: mongoose.ClientSession
+): Promise<IRefund | null> => {
+  if (!isOrderRefundable(order)) {
+    return null;
+  }
+
+  const items = request.items || [];
+  const shippingAmount = request.shippingAmount || 0;
+  const requested = request.amount !== undefined
+    ? request.amount
+    : items.reduce((sum, item) => sum + item.amount, 0) + shippingAmount;
+
+  // Never refund more than what is left of the payment
+  const amount = roundAmount(Math.min(requested, order.grandTotal - (order.refundedAmount || 0)));
+  if (amount <= 0) {
+    return null;
+  }
+
+  // Split the refund between the original payment and the wallet
+  let gatewayAmount = 0;
+  if (request.refundTo !== 'wallet' && order.paymentMethod !== 'wallet') {
+    const gatewayPaid = order.grandTotal - (order.walletAmount || 0);
+    const gatewayRefunded = await getGatewayRefundedAmount(order, session);
+    gatewayAmount = roundAmount(Math.max(Math.min(amount, gatewayPaid - gatewayRefunded), 0));
+  }
+  const walletAmount = roundAmount(amount - gatewayAmount);
+
+  const refund = new Refund({
+    order: order._id,
+    user: order.user,
+    type: request.type,
+    items,
+    shippingAmount,
+    amount,
+    walletAmount,
+    reason: request.reason,
+    initiatedBy: request.initiatedBy,
+    initiatorRole: request.initiatorRole,
+    method: gatewayAmount > 0 ? order.paymentMethod : 'wallet'
+  });
+
+  if (gatewayAmount > 0 && order.paymentMethod === 'razorpay') {
+    // Sent to Razorpay once the refund is committed (see submitGatewayRefund); confirmed by the refund.processed webhook
+    refund.gatewayStatus = 'pending';
+  } else if (gatewayAmount > 0) {
+    refund.gatewayStatus = 'manual';
+  } else {
+    // Wallet credits are instant
+    refund.gatewayStatus = 'processed';
+    refund.processedAt = new Date();
+  }
+
+  await refund.save({ session });
+
+  if (refund.method === 'razorpay') {
+    runAfterCommit(session, () => {
+      submitGatewayRefund(refund._id as mongoose.Types.ObjectId)
+        .catch(error => console.error(`Error submitting refund ${refund._id} to Razorpay:`, error));
+    });
+  }
+
+  if (walletAmount > 0) {
+    await creditWallet(order.user, walletAmount, {
+      type: 'refund',
+      description: request.reason || `Refund for order ${order._id}`,
+      order: order._id as mongoose.Types.ObjectId,
+      refund: refund._id as mongoose.Types.ObjectId,
+      createdBy: request.initiatedBy,
+      createdByRole: request.initiatorRole
+    }, session);
+  }
+
+  order.refundedAmount = roundAmount((order.refundedAmount || 0) + amount);
+  if (order.refundedAmount >= order.grandTotal) {
+    order.paymentStatus = 'refunded';
+  }
+
+  publish('payment.updated', getOrderAudiences(order), {
+    orderId: order._id,
+    paymentStatus: order.paymentStatus,
+    refundId: refund._id,
+    refundAmount: amount,
+    refundedAmount: order.refundedAmount
+  }, session);
+
+  return refund;
+};
+
+/**
+ * Returns the wallet part of an order that was cancelled before its gateway payment arrived
+ * @param order - The cancelled, unpaid order
+ * @param session - Optional MongoDB session for transactions
+ * @returns The refund record, or null when nothing was taken from the wallet
+ */
+export const reverseWalletPayment = async (
+  order: IOrder,
+  session?: mongoose.ClientSession
+): Promise<IRefund | null> => {
+  const amount = roundAmount((order.walletAmount || 0) - (order.refundedAmount || 0));
+  if (isOrderRefundable(order) || amount <= 0) {
+    return null;
+  }
+
+  const refund = new Refund({
+    order: order._id,
+    user: order.user,
+    type: 'payment_reversal',
+    amount,
+    walletAmount: amount,
+    reason: 'Order cancelled before payment was completed',
+    initiatorRole: 'system',
+    method: 'wallet',
+    gatewayStatus: 'processed',
+    processedAt: new Date()
+  });
+  await refund.save({ session });
+
+  await creditWallet(order.user, amount, {
+    type: 'order_payment_reversal',
+    description: `Wallet payment returned for cancelled order ${order._id}`,
+    order: order._id as mongoose.Types.ObjectId,
+    refund: refund._id as mongoose.Types.ObjectId,
+    createdByRole: 'system'
+  }, session);
+
+  order.refundedAmount = roundAmount((order.refundedAmount || 0) + amount);
+  return refund;
+};
+
+/**
+ * Sends a committed Razorpay refund to the gateway. The refund's ID goes out as the receipt, and an
+ * earlier gateway refund with that receipt is reused, so a retry after a lost response does not refund twice.
+ * Errors are kept for a retry by the refund submitter until MAX_SUBMISSION_ATTEMPTS is reached.
+ * @param refundId - The pending refund
+ * @returns The refund after the attempt, or null when it was already sent or is being sent elsewhere
+ */
+export const submitGatewayRefund = async (refundId: mongoose.Types.ObjectId | string): Promise<IRefund | null> => {
+  const now = new Date();
+  const refund = await Refund.findOneAndUpdate(
+    {
+      _id: refundId,
+      method: 'razorpay',
+      gatewayStatus: 'pending',
+      razorpayRefundId: { $exists: false },
+      $or: [
+        { lastSubmittedAt: { $exists: false } },
+        { lastSubmittedAt: { $lt: new Date(now.getTime() - SUBMISSION_LOCK_MS) } }
+      ]
+    },
+    { $set: { lastSubmittedAt: now }, $inc: { submissionAttempts: 1 } },
+    { new: true }
+  );
+  if (!refund) {
+    return null;
+  }
+
+  const order = await Order.findById(refund.order, 'razorpayPaymentId');
+  const receipt = String(refund._id);
+
+  try {
+    const razorpayRefundId = await findRazorpayRefundByReceipt(order?.razorpayPaymentId, receipt)
+      || await refundRazorpayPayment(order?.razorpayPaymentId, roundAmount(refund.amount - (refund.walletAmount || 0)), receipt);
+
+    if (razorpayRefundId) {
+      refund.razorpayRefundId = razorpayRefundId;
+      await Order.updateOne({ _id: refund.order }, { $set: { razorpayRefundId } });
+    } else if (!isRazorpayConfigured()) {
+      // Running without Razorpay keys: nothing reached the gateway, so it has to be settled by hand
+      refund.gatewayStatus = 'manual';
+    } else {
+      // Tolerated test-mode failure: the money was not returned
+      refund.gatewayStatus = 'failed';
+      refund.failureReason = 'Razorpay did not accept the refund';
+    }
+  } catch (error: any) {
+    if (refund.submissionAttempts < MAX_SUBMISSION_ATTEMPTS) {
+      throw error;
+    }
+    refund.gatewayStatus = 'failed';
+    refund.failureReason = getRazorpayErrorMessage(error);
+  }
+
+  await refund.save();
+  return refund;
+};
+
+/**
+ * Sends Razorpay refunds that were committed but never reached the gateway (the process stopped,
+ * or the gateway was unavailable)
+ * @param olderThanMs - Only refunds created at least this long ago, leaving fresh ones to createRefund
+ * @returns Number of refunds sent
+ */
+export const submitPendingRefunds = async (olderThanMs: number): Promise<number> => {
+  const refunds = await Refund.find({
+    method: 'razorpay',
+    gatewayStatus: 'pending',
+    razorpayRefundId: { $exists: false },
+    createdAt: { $lt: new Date(Date.now() - olderThanMs) }
+  }, { _id: 1 }).limit(100);
+
+  let submitted = 0;
+  for (const refund of refunds) {
+    try {
+      if (await submitGatewayRefund(refund._id as mongoose.Types.ObjectId)) {
+        submitted++;
+      }
+    } catch (error: any) {
+      console.error(`Error submitting refund ${refund._id} to Razorpay:`, error);
+    }
+  }
+  return submitted;
+};
@@ -0,0 +1,35 @@
+import { submitPendingRefunds } from './refundService';
+
+// How often refunds stuck before the gateway are retried
+const SUBMIT_INTERVAL_MS = 60 * 1000;
+
+// Refunds younger than this are still being sent by the request that created them
+const SUBMIT_GRACE_MS = 60 * 1000;
+
+/**
+ * Starts the periodic retry of Razorpay refunds that were committed but not yet sent to the gateway
+ * @param intervalMs - Retry interval in milliseconds
+ * @returns The interval timer
+ */
+export const startRefundSubmitter = (intervalMs: number = SUBMIT_INTERVAL_MS): NodeJS.Timeout => {
+  let running = false;
+
+  return setInterval(() => {
+    // Gateway calls are slow, so a run must not overlap the next
+    if (running) {
+      return;
+    }
+    running = true;
+
+    submitPendingRefunds(SUBMIT_GRACE_MS)
+      .then(count => {
+        if (count > 0) {
+          console.log(`Sent ${count} pending refund(s) to Razorpay`);
+        }
+      })
+      .catch(error => console.error('Error sending pending refunds:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+};
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import Order from '../models/order';
+import StockReservation from '../models/stockReservation';
+import { releaseReservations } from './inventoryService';
+import { transitionOrder } from './orderLifecycle';
+
+// How often expired checkout holds are swept
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Releases checkout holds whose window has passed and cancels the unpaid orders they belonged to
+ * @returns Number of orders whose holds were released
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+  const orderIds = await StockReservation.distinct('order', {
+    status: 'active',
+    expiresAt: { $lte: new Date() }
+  });
+
+  let released = 0;
+
+  for (const orderId of orderIds) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      await releaseReservations(orderId, undefined, 'released', session);
+
+      // Payment was never verified, so the order cannot be fulfilled
+      const order = await Order.findById(orderId).session(session);
+      if (order && order.paymentStatus !== 'completed' && order.orderStatus === 'pending') {
+        order.paymentStatus = 'failed';
+        await transitionOrder(order, 'cancelled', { role: 'system' }, {
+          session,
+          note: 'Payment was not verified within the stock reservation window'
+        });
+      }
+
+      await session.commitTransaction();
+      session.endSession();
+      released++;
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+
+      console.error(`Error releasing stock reservations for order ${orderId}:`, error);
+    }
+  }
+
+  return released;
+};
+
+/**
+ * Starts the periodic sweep of expired checkout holds
+ * @param intervalMs - Sweep interval in milliseconds
+ * @returns The interval timer
+ */
+export const startReservationSweeper = (intervalMs: number = SWEEP_INTERVAL_MS): NodeJS.Timeout => {
+  return setInterval(() => {
+    releaseExpiredReservations()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Released expired stock reservations for ${count} order(s)`);
+        }
+      })
+      .catch(error => console.error('Error sweeping stock reservations:', error));
+  }, intervalMs);
+};
@@ -0,0 +1,191 @@
+import mongoose from 'mongoose';
+import { IOrder, IOrderItem } from '../models/order';
+import ReturnRequest, { IReturnRequest, IReturnItem, ReturnStatus, IReturnHistory } from '../models/returnRequest';
+import VendorProduct from '../models/vendorProduct';
+import Vendor from '../models/vendors';
+import { restoreStock } from './inventoryService';
+import { createRefund } from './refundService';
+import { getActiveQuantity, getVendorGroup, takeLineBatches } from './orderLifecycle';
+import { getLineNetAmount, getLinePayoutAmount } from './pricingService';
+import { AppError } from '../utils/errorHandler';
+
+export interface ReturnActor {
+  id?: mongoose.Types.ObjectId;
+  role: IReturnHistory['actorRole'];
+}
+
+// Default number of days after delivery a return can be opened
+const DEFAULT_RETURN_WINDOW_DAYS = 7;
+
+// Allowed return status transitions; rejected, refunded and cancelled are terminal
+export const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected', 'cancelled'],
+  approved: ['pickup_scheduled', 'received', 'cancelled'],
+  pickup_scheduled: ['picked_up', 'received'],
+  picked_up: ['received'],
+  received: ['refunded'],
+  refunded: [],
+  rejected: [],
+  cancelled: []
+};
+
+// Returns that still hold order units (not yet refunded, rejected or cancelled)
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'pickup_scheduled', 'picked_up', 'received'];
+
+/**
+ * Returns how many days after delivery a return can be opened (RETURN_WINDOW_DAYS)
+ * @returns Return window in days
+ */
+export const getReturnWindowDays = (): number => {
+  const days = parseInt(process.env.RETURN_WINDOW_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_RETURN_WINDOW_DAYS;
+};
+
+/**
+ * Checks that a vendor's lines of an order can still be returned
+ * @param order - The order
+ * @param vendorId - Vendor (or Admin) whose lines are returned
+ */
+export const assertReturnWindowOpen = (order: IOrder, vendorId: mongoose.Types.ObjectId): void => {
+  const group = getVendorGroup(order, vendorId);
+
+  if (!group || group.status !== 'delivered') {
+    throw new AppError('Items can only be returned after they are delivered', 400);
+  }
+
+  const deliveredAt = group.deliveredAt || order.updatedAt;
+  const windowEnd = new Date(deliveredAt.getTime() + getReturnWindowDays() * 24 * 60 * 60 * 1000);
+  if (new Date() > windowEnd) {
+    throw new AppError(`The return window of ${getReturnWindowDays()} days has closed`, 400);
+  }
+};
+
+/**
+ * Units of an order line that can still be returned (sold units not already in an open return)
+ * @param order - The order
+ * @param item - The order line
+ * @param session - Optional MongoDB session for transactions
+ */
+export const getReturnableQuantity = async (
+  order: IOrder,
+  item: IOrderItem,
+  session?: mongoose.ClientSession
+): Promise<number> => {
+  const openReturns = await ReturnRequest.find({
+    order: order._id,
+    status: { $in: OPEN_RETURN_STATUSES },
+    'items.vendorProductId': item.vendorProductId
+  }).session(session || null);
+
+  const pending = openReturns.reduce((sum, returnRequest) => {
+    const line = returnRequest.items.find(i => i.vendorProductId.equals(item.vendorProductId));
+    return sum + (line ? line.quantity : 0);
+  }, 0);
+
+  return getActiveQuantity(item) - pending;
+};
+
+/**
+ * Moves a return to a new status and records it in the return history; does not save
+ * @param returnRequest - The return request
+ * @param to - Requested status
+ * @param actor - Who is making the change
+ * @param note - Optional note recorded in the history
+ */
+export const changeReturnStatus = (
+  returnRequest: IReturnRequest,
+  to: ReturnStatus,
+  actor: ReturnActor,
+  note?: string
+): void => {
+  if (!RETURN_TRANSITIONS[returnRequest.status].includes(to)) {
+    throw new AppError(`Cannot change return status from ${returnRequest.status} to ${to}`, 400);
+  }
+
+  returnRequest.status = to;
+  returnRequest.history.push({
+    status: to,
+    changedBy: actor.id,
+    actorRole: actor.role,
+    note,
+    changedAt: new Date()
+  });
+};
+
+/**
+ * Records receipt of returned items, restocks the resellable ones and refunds the customer.
+ * Units are restocked only when they come back sealed and the product is returnable.
+ * @param returnRequest - The return request being received
+ * @param order - The order the items were bought in
+ * @param conditions - Condition of each returned line (defaults to sealed)
+ * @param actor - Who received the items
+ * @param session - Optional MongoDB session for transactions
+ */
+export const receiveReturn = async (
+  returnRequest: IReturnRequest,
+  order: IOrder,
+  conditions: Array<{ vendorProductId: string; condition: IReturnItem['condition'] }>,
+  actor: ReturnActor,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  changeReturnStatus(returnRequest, 'received', actor);
+  returnRequest.receivedAt = new Date();
+
+  const vendorProducts = await VendorProduct.find({
+    _id: { $in: returnRequest.items.map(item => item.vendorProductId) }
+  }).populate('productId', 'isReturnable').session(session || null);
+
+  for (const returnItem of returnRequest.items) {
+    const orderItem = order.vendorProducts.find(item => item.vendorProductId.equals(returnItem.vendorProductId));
+    if (!orderItem) {
+      throw new AppError(`Vendor product ${returnItem.vendorProductId} is not part of this order`, 404);
+    }
+
+    const received = conditions.find(c => c.vendorProductId === returnItem.vendorProductId.toString());
+    returnItem.condition = received?.condition || 'sealed';
+
+    // Opened or damaged medicine, or non-returnable products, cannot be sold again
+    const vendorProduct = vendorProducts.find(vp => (vp._id as mongoose.Types.ObjectId).equals(returnItem.vendorProductId));
+    const isReturnable = (vendorProduct?.productId as any)?.isReturnable !== false;
+    const returnedBatches = takeLineBatches(orderItem, returnItem.quantity);
+    if (returnItem.condition === 'sealed' && isReturnable) {
+      // Back into the batches the returned units came from
+      await restoreStock(returnItem.vendorProductId, returnItem.quantity, returnedBatches, session);
+      returnItem.restocked = true;
+    }
+
+    orderItem.returnedQuantity = (orderItem.returnedQuantity || 0) + returnItem.quantity;
+  }
+
+  // Refund what the customer paid (after coupon) and take back what the vendor was credited
+  let returnedPayout = 0;
+  const refundItems = returnRequest.items.map(item => {
+    const orderItem = order.vendorProducts.find(line => line.vendorProductId.equals(item.vendorProductId))!;
+    returnedPayout += getLinePayoutAmount(order, orderItem, item.quantity);
+    return {
+      vendorProductId: item.vendorProductId,
+      vendorId: returnRequest.vendorId,
+      quantity: item.quantity,
+      amount: getLineNetAmount(orderItem, item.quantity)
+    };
+  });
+
+  const refund = await createRefund(order, {
+    type: 'return',
+    items: refundItems,
+    reason: returnRequest.reason,
+    initiatedBy: actor.id,
+    initiatorRole: actor.role
+  }, session);
+
+  // Returned units no longer count towards the vendor's sales
+  await Vendor.updateOne({ _id: returnRequest.vendorId }, { $inc: { totalSales: -returnedPayout } }, { session });
+
+  if (refund) {
+    returnRequest.refund = refund._id as mongoose.Types.ObjectId;
+    changeReturnStatus(returnRequest, 'refunded', actor, `Refunded ${refund.amount}`);
+  }
+
+  await order.save({ session });
+  await returnRequest.save({ session });
+};
@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import Order, { IOrder } from '../models/order';
+import Review, { ReviewTarget } from '../models/review';
+import Product from '../models/product';
+import Vendor from '../models/vendors';
+import VendorProduct from '../models/vendorProduct';
+import { getVendorGroup } from './orderLifecycle';
+
+export interface VerifiedPurchase {
+  order: IOrder;
+  vendorId: mongoose.Types.ObjectId; // Vendor the item was bought from
+}
+
+// Round to one decimal place, as ratings are shown
+const roundRating = (rating: number): number => Math.round(rating * 10) / 10;
+
+/**
+ * Finds the customer's latest delivered order containing a product, bought from any vendor
+ * (or the given one when vendorId is set)
+ * @param userId - The customer
+ * @param productId - The catalogue product
+ * @param vendorId - Optional vendor the product must have been bought from
+ * @returns The order and vendor, or null when the customer never received the product
+ */
+export const findProductPurchase = async (
+  userId: mongoose.Types.ObjectId | string,
+  productId: mongoose.Types.ObjectId | string,
+  vendorId?: mongoose.Types.ObjectId | string
+): Promise<VerifiedPurchase | null> => {
+  const filter: any = { productId };
+  if (vendorId) {
+    filter.vendorId = vendorId;
+  }
+  const listings = await VendorProduct.find(filter, { _id: 1, vendorId: 1 });
+  if (listings.length === 0) {
+    return null;
+  }
+
+  const orders = await Order.find({
+    user: userId,
+    'vendorProducts.vendorProductId': { $in: listings.map(listing => listing._id) }
+  }).sort({ createdAt: -1 });
+
+  for (const order of orders) {
+    for (const item of order.vendorProducts) {
+      const listing = listings.find(l => (l._id as mongoose.Types.ObjectId).equals(item.vendorProductId));
+      const sellerId = item.vendorId || listing?.vendorId;
+      if (listing && sellerId && getVendorGroup(order, sellerId)?.status === 'delivered') {
+        return { order, vendorId: sellerId };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Finds the customer's latest order with a delivered shipment from a vendor
+ * @param userId - The customer
+ * @param vendorId - The vendor
+ * @returns The order and vendor, or null when the customer never received anything from the vendor
+ */
+export const findVendorPurchase = async (
+  userId: mongoose.Types.ObjectId | string,
+  vendorId: mongoose.Types.ObjectId | string
+): Promise<VerifiedPurchase | null> => {
+  const order = await Order.findOne({
+    user: userId,
+    vendorGroups: { $elemMatch: { vendorId, status: 'delivered' } }
+  }).sort({ createdAt: -1 });
+
+  return order ? { order, vendorId: new mongoose.Types.ObjectId(vendorId.toString()) } : null;
+};
+
+/**
+ * Recalculates the average rating and review count stored on a product or vendor from its approved reviews
+ * @param targetType - Whether a product or a vendor was reviewed
+ * @param targetId - The product or vendor
+ */
+export const refreshRatingSummary = async (
+  targetType: ReviewTarget,
+  targetId: mongoose.Types.ObjectId
+): Promise<void> => {
+  const field = targetType === 'product' ? 'product' : 'vendor';
+  const [summary] = await Review.aggregate([
+    { $match: { targetType, [field]: targetId, status: 'approved' } },
+    { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } }
+  ]);
+
+  const average = summary ? roundRating(summary.average) : 0;
+  const count = summary ? summary.count : 0;
+
+  if (targetType === 'product') {
+    await Product.updateOne({ _id: targetId }, { averageRating: average, ratingCount: count });
+  } else {
+    await Vendor.updateOne({ _id: targetId }, { rating: average, ratingCount: count });
+  }
+};
+
+/**
+ * Number of approved reviews of a product or vendor at each star rating
+ * @param targetType - Whether a product or a vendor was reviewed
+ * @param targetId - The product or vendor
+ * @returns Counts keyed by star rating (1 to 5)
+ */
+export const getRatingBreakdown = async (
+  targetType: ReviewTarget,
+  targetId: mongoose.Types.ObjectId
+): Promise<Record<number, number>> => {
+  const field = targetType === 'product' ? 'product' : 'vendor';
+  const groups = await Review.aggregate([
+    { $match: { targetType, [field]: targetId, status: 'approved' } },
+    { $group: { _id: '$rating', count: { $sum: 1 } } }
+  ]);
+
+  const breakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  groups.forEach(group => {
+    breakdown[group._id] = group.count;
+  });
+  return breakdown;
+};
@@ -0,0 +1,201 @@
+import mongoose from 'mongoose';
+import VendorProduct from '../models/vendorProduct';
+import Product from '../models/product';
+import Category from '../models/category';
+import SubCategory from '../models/subCategory';
+import Brand from '../models/brand';
+import GlobalProduct from '../models/globalProduct';
+import SearchDocument from '../models/searchDocument';
+import { getAvailableStock } from './inventoryService';
+import { getSellingPrice } from './pricingService';
+import { tokenize, getTrigrams } from '../utils/searchText';
+
+// Listings indexed per batch, so a full rebuild does not load the whole catalogue at once
+const INDEX_BATCH_SIZE = 500;
+
+// Longest description kept in the index (only its start is searched)
+const MAX_INDEXED_DESCRIPTION = 500;
+
+// Helper to load documents by ID into a map keyed by the ID string
+const loadById = async <T extends { _id: unknown }>(
+  model: mongoose.Model<any>,
+  ids: Array<mongoose.Types.ObjectId | undefined>,
+  fields: string
+): Promise<Map<string, T>> => {
+  const unique = [...new Set(ids.filter(Boolean).map(id => id!.toString()))];
+  if (unique.length === 0) {
+    return new Map();
+  }
+  const docs: T[] = await model.find({ _id: { $in: unique } }, fields).lean();
+  return new Map(docs.map(doc => [String(doc._id), doc]));
+};
+
+/**
+ * Rebuilds the search entries of some vendor listings; listings that are gone, unapproved
+ * or inactive are removed from the index
+ * @param vendorProductIds - Listings to index
+ * @returns Number of listings indexed (excluding removals)
+ */
+export const indexListings = async (vendorProductIds: mongoose.Types.ObjectId[]): Promise<number> => {
+  if (vendorProductIds.length === 0) {
+    return 0;
+  }
+
+  const listings = await VendorProduct.find({ _id: { $in: vendorProductIds } });
+  const products = await loadById<any>(Product, listings.map(l => l.productId), 'name description category subCategory brand globalProduct composition requiresPrescription averageRating');
+  const productList = [...products.values()];
+  const [categories, subCategories, brands, globalProducts] = await Promise.all([
+    loadById<any>(Category, productList.map(p => p.category), 'name'),
+    loadById<any>(SubCategory, productList.map(p => p.subCategory), 'name'),
+    loadById<any>(Brand, productList.map(p => p.brand), 'name'),
+    loadById<any>(GlobalProduct, productList.map(p => p.globalProduct), 'name isActive')
+  ]);
+
+  const operations: any[] = [];
+  const indexed = new Set<string>();
+
+  for (const listing of listings) {
+    const product = products.get(String(listing.productId));
+    if (!product || listing.status !== 'approved' || !listing.isActive) {
+      continue;
+    }
+
+    const category = categories.get(String(product.category));
+    const subCategory = subCategories.get(String(product.subCategory));
+    const brand = brands.get(String(product.brand));
+    const globalProduct = globalProducts.get(String(product.globalProduct));
+    const salts = [...new Set([
+      ...(globalProduct?.isActive ? [globalProduct.name] : []),
+      ...(product.composition?.activeIngredients || []).map((ingredient: any) => ingredient.name)
+    ])];
+    const description = (product.description || '').slice(0, MAX_INDEXED_DESCRIPTION);
+
+    const terms = [...new Set(tokenize([
+      product.name,
+      brand?.name,
+      category?.name,
+      subCategory?.name,
+      ...salts,
+      description
+    ].filter(Boolean).join(' ')))];
+
+    operations.push({
+      updateOne: {
+        filter: { vendorProduct: listing._id },
+        update: {
+          $set: {
+            product: product._id,
+            vendor: listing.vendorId,
+            category: product.category,
+            subCategory: product.subCategory,
+            brand: product.brand,
+            name: product.name,
+            description,
+            brandName: brand?.name,
+            categoryName: category?.name,
+            subCategoryName: subCategory?.name,
+            salts,
+            terms,
+            grams: [...new Set(terms.flatMap(getTrigrams))],
+            sellingPrice: getSellingPrice(listing.price, listing.discount),
+            requiresPrescription: product.requiresPrescription,
+            averageRating: product.averageRating || 0,
+            inStock: getAvailableStock(listing) > 0,
+            indexedAt: new Date()
+          }
+        },
+        upsert: true
+      }
+    });
+    indexed.add(String(listing._id));
+  }
+
+  const removed = vendorProductIds.filter(id => !indexed.has(id.toString()));
+  if (removed.length > 0) {
+    operations.push({ deleteMany: { filter: { vendorProduct: { $in: removed } } } });
+  }
+
+  if (operations.length > 0) {
+    await SearchDocument.bulkWrite(operations, { ordered: false });
+  }
+
+  return indexed.size;
+};
+
+// Helper to index listings matching a filter, one batch at a time
+const indexMatchingListings = async (filter: any): Promise<number> => {
+  let count = 0;
+  let lastId: mongoose.Types.ObjectId | undefined;
+
+  for (;;) {
+    const batch = await VendorProduct.find(
+      lastId ? { ...filter, _id: { $gt: lastId } } : filter,
+      { _id: 1 }
+    ).sort({ _id: 1 }).limit(INDEX_BATCH_SIZE);
+
+    if (batch.length === 0) {
+      return count;
+    }
+
+    count += await indexListings(batch.map(listing => listing._id as mongoose.Types.ObjectId));
+    lastId = batch[batch.length - 1]._id as mongoose.Types.ObjectId;
+  }
+};
+
+/**
+ * Re-indexes the listings changed since a point in time: listings, their products, and the
+ * categories, subcategories, brands and generics those products are filed under
+ * @param since - Last sync time
+ * @returns Number of listings indexed
+ */
+export const syncSearchIndex = async (since: Date): Promise<number> => {
+  const changed = { updatedAt: { $gt: since } };
+  const [categoryIds, subCategoryIds, brandIds, globalProductIds] = await Promise.all([
+    Category.distinct('_id', changed),
+    SubCategory.distinct('_id', changed),
+    Brand.distinct('_id', changed),
+    GlobalProduct.distinct('_id', changed)
+  ]);
+
+  const productIds = await Product.distinct('_id', {
+    $or: [
+      changed,
+      { category: { $in: categoryIds } },
+      { subCategory: { $in: subCategoryIds } },
+      { brand: { $in: brandIds } },
+      { globalProduct: { $in: globalProductIds } }
+    ]
+  });
+
+  return indexMatchingListings({ $or: [changed, { productId: { $in: productIds } }] });
+};
+
+/**
+ * Removes search entries whose listing was deleted, unapproved or deactivated
+ * @returns Number of entries removed
+ */
+export const removeStaleSearchDocuments = async (): Promise<number> => {
+  const liveIds = new Set(
+    (await VendorProduct.distinct('_id', { status: 'approved', isActive: true })).map(id => id.toString())
+  );
+  const indexedIds = await SearchDocument.distinct('vendorProduct');
+  const stale = indexedIds.filter(id => !liveIds.has(id.toString()));
+
+  if (stale.length === 0) {
+    return 0;
+  }
+
+  const result = await SearchDocument.deleteMany({ vendorProduct: { $in: stale } });
+  return result.deletedCount;
+};
+
+/**
+ * Indexes every listing from scratch and drops entries that no longer have one
+ * @returns Number of listings indexed
+ */
+export const rebuildSearchIndex = async (): Promise<number> => {
+  const startedAt = new Date();
+  const count = await indexMatchingListings({ status: 'approved', isActive: true });
+  await SearchDocument.deleteMany({ indexedAt: { $lt: startedAt } });
+  return count;
+};
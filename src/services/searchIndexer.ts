@@ -0,0 +1,63 @@
+import { rebuildSearchIndex, syncSearchIndex, removeStaleSearchDocuments } from './searchIndexService';
+import { refreshSuggestions } from './suggestService';
+
+// How often changed listings are re-indexed
+const INDEX_INTERVAL_MS = 60 * 1000;
+
+// Changes are re-read from this long before the last run, so writes committed late by a transaction are not missed
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+// Runs between sweeps for deleted or deactivated listings (the type-ahead suggestions are rebuilt then too)
+const STALE_SWEEP_EVERY_RUNS = 10;
+
+/**
+ * Starts the periodic search index refresh; the first run rebuilds the whole index
+ * @param intervalMs - Refresh interval in milliseconds
+ * @returns The interval timer
+ */
+export const startSearchIndexer = (intervalMs: number = INDEX_INTERVAL_MS): NodeJS.Timeout => {
+  let running = false;
+  let lastRunAt: Date | undefined;
+  let runs = 0;
+
+  const run = async (): Promise<number> => {
+    const startedAt = new Date();
+    let count: number;
+
+    if (!lastRunAt) {
+      count = await rebuildSearchIndex();
+      await refreshSuggestions();
+    } else {
+      count = await syncSearchIndex(new Date(lastRunAt.getTime() - SYNC_OVERLAP_MS));
+      if (++runs % STALE_SWEEP_EVERY_RUNS === 0) {
+        await removeStaleSearchDocuments();
+        await refreshSuggestions();
+      }
+    }
+
+    lastRunAt = startedAt;
+    return count;
+  };
+
+  const tick = (): void => {
+    // A large rebuild must not let runs pile up
+    if (running) {
+      return;
+    }
+    running = true;
+
+    run()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Indexed ${count} listing(s) for search`);
+        }
+      })
+      .catch(error => console.error('Error refreshing the search index:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  tick();
+  return setInterval(tick, intervalMs);
+};
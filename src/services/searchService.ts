@@ -0,0 +1,338 @@
+import mongoose from 'mongoose';
+import SearchDocument from '../models/searchDocument';
+import SearchSynonym from '../models/searchSynonym';
+import VendorProduct from '../models/vendorProduct';
+import { SELLING_PRICE_EXPRESSION } from './pricingService';
+import { normalizeText, tokenize, getTrigrams, wordSimilarity } from '../utils/searchText';
+
+export interface SearchFilters {
+  category?: string;
+  subCategory?: string;
+  brand?: string;
+  vendor?: string;
+  requiresPrescription?: boolean;
+  inStock?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+}
+
+export interface SearchRequest {
+  query: string;
+  filters: SearchFilters;
+  sortBy?: string; // 'relevance' (default), 'price-low', 'price-high', 'rating' or 'name'
+  page: number;
+  limit: number;
+}
+
+interface QueryWord {
+  word: string;
+  alternatives: string[]; // Words from synonym groups
+}
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS = {
+  name: 3,
+  salts: 2.5,
+  brandName: 2,
+  categoryName: 1.5,
+  subCategoryName: 1.5,
+  description: 0.5
+};
+
+// Matches through a synonym count slightly less than the word itself
+const SYNONYM_WEIGHT = 0.9;
+
+// Most entries scored per query (best trigram overlap first)
+const CANDIDATE_LIMIT = 1000;
+
+// Longest query considered, in words
+const MAX_QUERY_WORDS = 8;
+
+// How long synonym groups are cached
+const SYNONYM_CACHE_MS = 60 * 1000;
+
+// Price buckets of the price facet
+const PRICE_RANGES = [
+  { label: 'Under ₹100', min: 0, max: 100 },
+  { label: '₹100 - ₹250', min: 100, max: 250 },
+  { label: '₹250 - ₹500', min: 250, max: 500 },
+  { label: '₹500 - ₹1000', min: 500, max: 1000 },
+  { label: 'Over ₹1000', min: 1000, max: Infinity }
+];
+
+let synonymCache: { groups: string[][]; loadedAt: number } | undefined;
+
+// Active synonym groups, cached briefly so each search does not re-read them
+const getSynonymGroups = async (): Promise<string[][]> => {
+  if (synonymCache && Date.now() - synonymCache.loadedAt < SYNONYM_CACHE_MS) {
+    return synonymCache.groups;
+  }
+
+  const synonyms = await SearchSynonym.find({ isActive: true }, { terms: 1 }).lean();
+  synonymCache = { groups: synonyms.map(synonym => synonym.terms), loadedAt: Date.now() };
+  return synonymCache.groups;
+};
+
+/**
+ * Drops the cached synonym groups (after an admin changes them)
+ */
+export const clearSynonymCache = (): void => {
+  synonymCache = undefined;
+};
+
+/**
+ * Splits a query into words and adds the words of their synonyms as alternatives.
+ * Multi-word synonyms (e.g. "vitamin c" and "ascorbic acid") apply when the whole phrase is in the query.
+ * @param query - The search text
+ * @returns Query words with their alternatives
+ */
+export const expandQuery = async (query: string): Promise<QueryWord[]> => {
+  const words = [...new Set(tokenize(query))].slice(0, MAX_QUERY_WORDS);
+  const padded = ` ${normalizeText(query)} `;
+  const groups = await getSynonymGroups();
+
+  const expanded = words.map(word => ({ word, alternatives: new Set<string>() }));
+
+  groups.forEach(group => {
+    const matched = group.filter(phrase => padded.includes(` ${phrase} `));
+    if (matched.length === 0) {
+      return;
+    }
+
+    const alternatives = group.filter(phrase => !matched.includes(phrase)).flatMap(tokenize);
+    const matchedWords = new Set(matched.flatMap(tokenize));
+    expanded
+      .filter(entry => matchedWords.has(entry.word))
+      .forEach(entry => alternatives.forEach(alternative => entry.alternatives.add(alternative)));
+  });
+
+  return expanded.map(entry => ({ word: entry.word, alternatives: [...entry.alternatives] }));
+};
+
+// Relevance of an index entry to the query words; 0 when nothing matches
+const scoreDocument = (doc: any, words: QueryWord[], normalizedQuery: string): number => {
+  const fields = (Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>).map(field => ({
+    weight: FIELD_WEIGHTS[field],
+    words: tokenize(Array.isArray(doc[field]) ? doc[field].join(' ') : doc[field] || '')
+  }));
+
+  let total = 0;
+  let matched = 0;
+
+  for (const { word, alternatives } of words) {
+    let best = 0;
+    for (const field of fields) {
+      for (const fieldWord of field.words) {
+        const direct = wordSimilarity(word, fieldWord);
+        const viaSynonym = alternatives.reduce((max, alt) => Math.max(max, SYNONYM_WEIGHT * wordSimilarity(alt, fieldWord)), 0);
+        best = Math.max(best, field.weight * Math.max(direct, viaSynonym));
+      }
+    }
+    if (best > 0) {
+      matched++;
+      total += best;
+    }
+  }
+
+  if (matched === 0) {
+    return 0;
+  }
+
+  // Entries matching every word rank above those matching some
+  let score = total * Math.pow(matched / words.length, 2);
+
+  // Names starting with the query as typed
+  if (normalizeText(doc.name).startsWith(normalizedQuery)) {
+    score += 1;
+  }
+
+  // Small nudges for listings that can be bought now and are well rated
+  if (doc.inStock) {
+    score += 0.3;
+  }
+  score += (doc.averageRating || 0) * 0.05;
+
+  return Math.round(score * 1000) / 1000;
+};
+
+// Index filter for the structured filters of a search
+const buildFilterMatch = (filters: SearchFilters): any => {
+  const match: any = {};
+  const toObjectId = (id: string) => new mongoose.Types.ObjectId(id);
+
+  if (filters.category && mongoose.Types.ObjectId.isValid(filters.category)) {
+    match.category = toObjectId(filters.category);
+  }
+  if (filters.subCategory && mongoose.Types.ObjectId.isValid(filters.subCategory)) {
+    match.subCategory = toObjectId(filters.subCategory);
+  }
+  if (filters.brand && mongoose.Types.ObjectId.isValid(filters.brand)) {
+    match.brand = toObjectId(filters.brand);
+  }
+  if (filters.vendor && mongoose.Types.ObjectId.isValid(filters.vendor)) {
+    match.vendor = toObjectId(filters.vendor);
+  }
+  if (filters.requiresPrescription !== undefined) {
+    match.requiresPrescription = filters.requiresPrescription;
+  }
+  if (filters.inStock) {
+    match.inStock = true;
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    match.sellingPrice = {};
+    if (filters.minPrice !== undefined) {
+      match.sellingPrice.$gte = filters.minPrice;
+    }
+    if (filters.maxPrice !== undefined) {
+      match.sellingPrice.$lte = filters.maxPrice;
+    }
+  }
+  if (filters.minRating !== undefined) {
+    match.averageRating = { $gte: filters.minRating };
+  }
+
+  return match;
+};
+
+// Helper to count matches by a value with its label, most common first
+const countBy = (docs: any[], idField: string, nameField: string): Array<{ _id: string; name: string; count: number }> => {
+  const counts = new Map<string, { _id: string; name: string; count: number }>();
+  docs.forEach(doc => {
+    if (!doc[idField]) {
+      return;
+    }
+    const key = String(doc[idField]);
+    const entry = counts.get(key) || { _id: key, name: doc[nameField], count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count).slice(0, 20);
+};
+
+// Facet counts over every match of a search
+const buildFacets = (docs: any[]): any => ({
+  categories: countBy(docs, 'category', 'categoryName'),
+  subCategories: countBy(docs, 'subCategory', 'subCategoryName'),
+  brands: countBy(docs, 'brand', 'brandName'),
+  prescription: {
+    required: docs.filter(doc => doc.requiresPrescription).length,
+    notRequired: docs.filter(doc => !doc.requiresPrescription).length
+  },
+  availability: {
+    inStock: docs.filter(doc => doc.inStock).length,
+    outOfStock: docs.filter(doc => !doc.inStock).length
+  },
+  priceRanges: PRICE_RANGES.map(range => ({
+    label: range.label,
+    min: range.min,
+    max: range.max === Infinity ? null : range.max,
+    count: docs.filter(doc => doc.sellingPrice >= range.min && doc.sellingPrice < range.max).length
+  })),
+  ratings: [4, 3, 2, 1].map(stars => ({
+    minRating: stars,
+    count: docs.filter(doc => doc.averageRating >= stars).length
+  }))
+});
+
+// Current listing details for a page of results, in the shape the product listings use
+const hydrateListings = async (vendorProductIds: mongoose.Types.ObjectId[]): Promise<any[]> => {
+  return VendorProduct.aggregate([
+    { $match: { _id: { $in: vendorProductIds }, status: 'approved', isActive: true } },
+    { $lookup: { from: 'products', localField: 'productId', foreignField: '_id', as: 'productDetails' } },
+    { $unwind: '$productDetails' },
+    { $lookup: { from: 'categories', localField: 'productDetails.category', foreignField: '_id', as: 'categoryDetails' } },
+    { $unwind: { path: '$categoryDetails', preserveNullAndEmptyArrays: true } },
+    { $lookup: { from: 'brands', localField: 'productDetails.brand', foreignField: '_id', as: 'brandDetails' } },
+    { $unwind: { path: '$brandDetails', preserveNullAndEmptyArrays: true } },
+    { $lookup: { from: 'vendors', localField: 'vendorId', foreignField: '_id', as: 'vendorDetails' } },
+    { $unwind: { path: '$vendorDetails', preserveNullAndEmptyArrays: true } },
+    {
+      $project: {
+        _id: 1,
+        price: 1,
+        sellingPrice: SELLING_PRICE_EXPRESSION,
+        discount: 1,
+        stock: 1,
+        sku: 1,
+        isActive: 1,
+        createdAt: 1,
+        updatedAt: 1,
+        productDetails: {
+          _id: 1,
+          name: 1,
+          description: 1,
+          images: 1,
+          requiresPrescription: 1,
+          averageRating: 1,
+          ratingCount: 1
+        },
+        categoryDetails: { _id: 1, name: 1 },
+        brandDetails: { _id: 1, name: 1 },
+        vendorDetails: { _id: 1, businessName: 1, rating: 1 }
+      }
+    }
+  ]);
+};
+
+/**
+ * Searches the listings index: trigram candidates, typo-tolerant word matching with synonyms,
+ * relevance scoring weighted by field, and facet counts over every match
+ * @param request - Query text, filters, sort and page
+ * @returns A page of listings with their relevance, plus facets and the words searched for
+ */
+export const searchListings = async (request: SearchRequest): Promise<any> => {
+  const words = await expandQuery(request.query);
+  const normalizedQuery = normalizeText(request.query);
+  const page = Math.max(request.page || 1, 1);
+  const limit = Math.min(Math.max(request.limit || 10, 1), 100);
+
+  const grams = [...new Set(words.flatMap(word => [word.word, ...word.alternatives]).flatMap(getTrigrams))];
+
+  const candidates = grams.length === 0 ? [] : await SearchDocument.aggregate([
+    { $match: { grams: { $in: grams }, ...buildFilterMatch(request.filters) } },
+    { $addFields: { overlap: { $size: { $setIntersection: ['$grams', grams] } } } },
+    { $sort: { overlap: -1 } },
+    { $limit: CANDIDATE_LIMIT },
+    { $project: { grams: 0, terms: 0 } }
+  ]);
+
+  const matches = candidates
+    .map(doc => ({ ...doc, relevance: scoreDocument(doc, words, normalizedQuery) }))
+    .filter(doc => doc.relevance > 0);
+
+  const sorters: Record<string, (a: any, b: any) => number> = {
+    'price-low': (a, b) => a.sellingPrice - b.sellingPrice,
+    'price-high': (a, b) => b.sellingPrice - a.sellingPrice,
+    rating: (a, b) => b.averageRating - a.averageRating || b.relevance - a.relevance,
+    name: (a, b) => a.name.localeCompare(b.name)
+  };
+  matches.sort(sorters[request.sortBy || ''] || ((a, b) => b.relevance - a.relevance));
+
+  const totalDocs = matches.length;
+  const totalPages = Math.ceil(totalDocs / limit);
+  const pageMatches = matches.slice((page - 1) * limit, page * limit);
+
+  // Listing details are read live, so prices and stock are current and stale entries drop out
+  const listings = await hydrateListings(pageMatches.map(match => match.vendorProduct));
+  const docs = pageMatches
+    .map(match => {
+      const listing = listings.find(l => l._id.equals(match.vendorProduct));
+      return listing ? { ...listing, relevance: match.relevance } : null;
+    })
+    .filter(Boolean);
+
+  return {
+    docs,
+    totalDocs,
+    limit,
+    page,
+    totalPages,
+    hasPrevPage: page > 1,
+    hasNextPage: page < totalPages,
+    prevPage: page > 1 ? page - 1 : null,
+    nextPage: page < totalPages ? page + 1 : null,
+    facets: buildFacets(matches),
+    searchedTerms: words
+  };
+};
@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import ServiceArea, { IServiceArea } from '../models/serviceArea';
+import PincodeLocation from '../models/pincodeLocation';
+import { AppError } from '../utils/errorHandler';
+
+export interface ServiceabilityResult {
+  vendorId: mongoose.Types.ObjectId;
+  serviceable: boolean;
+  reason?: string; // Why the pincode is not served
+  distanceKm?: number; // From the warehouse ('radius' mode)
+  deliveryDays?: number;
+  estimatedDeliveryDate?: Date;
+}
+
+// Used for vendors that have not set up a service area
+const DEFAULT_DELIVERY_DAYS = 5;
+
+// Pincodes are six digits in India
+const PINCODE_PATTERN = /^\d{6}$/;
+
+/**
+ * Checks and normalizes a delivery pincode
+ * @param pincode - Pincode as entered
+ * @returns The six-digit pincode
+ */
+export const normalizePincode = (pincode: unknown): string => {
+  const value = String(pincode ?? '').trim();
+  if (!PINCODE_PATTERN.test(value)) {
+    throw new AppError('Please provide a valid 6-digit pincode', 400);
+  }
+  return value;
+};
+
+// Great-circle distance between two points in kilometres
+const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Coordinates of pincodes from the pincode directory
+const getPincodeCoordinates = async (
+  pincodes: string[],
+  session?: mongoose.ClientSession
+): Promise<Map<string, { latitude: number; longitude: number }>> => {
+  const locations = await PincodeLocation.find({ pincode: { $in: pincodes } }).session(session || null);
+  return new Map(locations.map(location => [location.pincode, { latitude: location.latitude, longitude: location.longitude }]));
+};
+
+// Delivery date after a number of days from now
+const addDays = (days: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+/**
+ * Works out whether a service area covers a pincode and how long delivery takes
+ * @param area - The vendor's service area, or null when the vendor delivers everywhere
+ * @param vendorId - Vendor (or Admin) the area belongs to
+ * @param pincode - Delivery pincode
+ * @param coordinates - Pincode directory entries for the pincode and the warehouse ('radius' mode)
+ */
+export const evaluateServiceArea = (
+  area: IServiceArea | null,
+  vendorId: mongoose.Types.ObjectId,
+  pincode: string,
+  coordinates: Map<string, { latitude: number; longitude: number }> = new Map()
+): ServiceabilityResult => {
+  if (!area) {
+    return { vendorId, serviceable: true, deliveryDays: DEFAULT_DELIVERY_DAYS, estimatedDeliveryDate: addDays(DEFAULT_DELIVERY_DAYS) };
+  }
+
+  let distanceKm: number | undefined;
+
+  if (area.mode === 'pincodes') {
+    const served = area.pincodes.includes(pincode) || area.pincodePrefixes.some(prefix => pincode.startsWith(prefix));
+    if (!served) {
+      return { vendorId, serviceable: false, reason: `Seller does not deliver to ${pincode}` };
+    }
+  } else if (area.mode === 'radius') {
+    const destination = coordinates.get(pincode);
+    const warehouse = area.warehouse.latitude !== undefined && area.warehouse.longitude !== undefined
+      ? { latitude: area.warehouse.latitude, longitude: area.warehouse.longitude }
+      : coordinates.get(area.warehouse.pincode);
+
+    // Distances cannot be measured for pincodes missing from the directory
+    if (!destination || !warehouse) {
+      return { vendorId, serviceable: false, reason: `Delivery to ${pincode} could not be confirmed` };
+    }
+
+    distanceKm = Math.round(haversineKm(warehouse.latitude, warehouse.longitude, destination.latitude, destination.longitude) * 10) / 10;
+    if (distanceKm > (area.radiusKm || 0)) {
+      return { vendorId, serviceable: false, reason: `Seller only delivers within ${area.radiusKm || 0} km`, distanceKm };
+    }
+  }
+
+  const isLocal = pincode.slice(0, 3) === area.warehouse.pincode.slice(0, 3);
+  const deliveryDays = area.handlingDays + (isLocal ? area.localTransitDays : area.transitDays);
+
+  return { vendorId, serviceable: true, distanceKm, deliveryDays, estimatedDeliveryDate: addDays(deliveryDays) };
+};
+
+/**
+ * Checks whether vendors deliver to a pincode, with an estimated delivery date for each
+ * @param vendorIds - Vendors (or Admins) to check
+ * @param pincode - Delivery pincode
+ * @param session - Optional MongoDB session for transactions
+ * @returns Results keyed by vendor ID
+ */
+export const checkServiceability = async (
+  vendorIds: mongoose.Types.ObjectId[],
+  pincode: string,
+  session?: mongoose.ClientSession
+): Promise<Map<string, ServiceabilityResult>> => {
+  const areas = await ServiceArea.find({ vendorId: { $in: vendorIds }, isActive: true }).session(session || null);
+
+  // Only radius areas need the pincode directory
+  const radiusAreas = areas.filter(area => area.mode === 'radius');
+  const coordinates = radiusAreas.length > 0
+    ? await getPincodeCoordinates([pincode, ...radiusAreas.map(area => area.warehouse.pincode)], session)
+    : new Map();
+
+  const results = new Map<string, ServiceabilityResult>();
+  vendorIds.forEach(vendorId => {
+    const area = areas.find(a => a.vendorId.equals(vendorId)) || null;
+    results.set(vendorId.toString(), evaluateServiceArea(area, vendorId, pincode, coordinates));
+  });
+  return results;
+};
+
+/**
+ * Vendors that do not deliver to a pincode, for filtering listings
+ * @param pincode - Delivery pincode
+ * @returns IDs of vendors (or Admins) whose service area excludes the pincode
+ */
+export const getUnserviceableVendorIds = async (pincode: string): Promise<mongoose.Types.ObjectId[]> => {
+  const areas = await ServiceArea.find({ isActive: true, mode: { $ne: 'all' } });
+
+  const radiusAreas = areas.filter(area => area.mode === 'radius');
+  const coordinates = radiusAreas.length > 0
+    ? await getPincodeCoordinates([pincode, ...radiusAreas.map(area => area.warehouse.pincode)])
+    : new Map();
+
+  return areas
+    .filter(area => !evaluateServiceArea(area, area.vendorId, pincode, coordinates).serviceable)
+    .map(area => area.vendorId);
+};
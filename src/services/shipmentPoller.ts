@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import Shipment from '../models/shipment';
+import { manualCarrier } from '../utils/carriers';
+import { syncShipment } from './shipmentService';
+
+// How often carriers are polled for shipments that did not get a webhook
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// Shipments refreshed per poll, so a backlog does not hammer the carrier APIs
+const POLL_BATCH_SIZE = 100;
+
+/**
+ * Refreshes the tracking of in-flight shipments that have not been updated for a poll interval
+ * @param staleAfterMs - Only shipments not synced for this long are polled
+ * @returns Number of shipments that got new events
+ */
+export const pollActiveShipments = async (staleAfterMs: number = POLL_INTERVAL_MS): Promise<number> => {
+  const shipments = await Shipment.find({
+    isActive: true,
+    carrier: { $ne: manualCarrier.code },
+    status: { $nin: ['delivered', 'returned_to_origin', 'cancelled'] },
+    $or: [
+      { lastSyncedAt: { $exists: false } },
+      { lastSyncedAt: { $lte: new Date(Date.now() - staleAfterMs) } }
+    ]
+  }).sort({ lastSyncedAt: 1 }).limit(POLL_BATCH_SIZE);
+
+  let updated = 0;
+
+  for (const shipment of shipments) {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const newEvents = await syncShipment(shipment, session);
+
+      await session.commitTransaction();
+      session.endSession();
+      if (newEvents > 0) {
+        updated++;
+      }
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+
+      console.error(`Error polling shipment ${shipment.awbNumber}:`, error);
+    }
+  }
+
+  return updated;
+};
+
+/**
+ * Starts the periodic carrier poll
+ * @param intervalMs - Poll interval in milliseconds
+ * @returns The interval timer
+ */
+export const startShipmentPoller = (intervalMs: number = POLL_INTERVAL_MS): NodeJS.Timeout => {
+  return setInterval(() => {
+    pollActiveShipments(intervalMs)
+      .then(count => {
+        if (count > 0) {
+          console.log(`Updated tracking for ${count} shipment(s)`);
+        }
+      })
+      .catch(error => console.error('Error polling shipments:', error));
+  }, intervalMs);
+};
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import Order, { IOrder, IOrderVendorGroup, OrderStatus } from '../models/order';
+import Shipment, { IShipment, ShipmentStatus } from '../models/shipment';
+import ServiceArea from '../models/serviceArea';
+import { getCarrierAdapter, manualCarrier, CarrierTrackingEvent } from '../utils/carriers';
+import { transitionVendorGroup, getVendorGroupItems, getActiveQuantity, OrderActor } from './orderLifecycle';
+import { AppError } from '../utils/errorHandler';
+
+export interface ShipmentDetails {
+  carrier?: string; // Carrier adapter code, or the name of a courier booked outside the platform
+  awbNumber?: string; // Required unless the carrier books pickups itself
+  trackingUrl?: string;
+}
+
+// Shipment statuses after which the carrier sends no more updates
+const FINAL_SHIPMENT_STATUSES: ShipmentStatus[] = ['delivered', 'returned_to_origin', 'cancelled'];
+
+// Order group status a shipment status implies, if any
+const GROUP_STATUS_FOR_SHIPMENT: Partial<Record<ShipmentStatus, OrderStatus>> = {
+  picked_up: 'shipped',
+  in_transit: 'shipped',
+  out_for_delivery: 'shipped',
+  delivered: 'delivered'
+};
+
+// Forward path of a vendor group, used to catch a group up with its parcel
+const GROUP_PATH: OrderStatus[] = ['confirmed', 'processing', 'shipped', 'delivered'];
+
+/**
+ * Books (or records) the shipment of a vendor group and mirrors its carrier and AWB on the group.
+ * A previous shipment of the group is superseded. Does not save the order.
+ * @param order - The order being shipped
+ * @param group - The vendor group being shipped
+ * @param details - Carrier and AWB; carriers that can book pickups issue the AWB themselves
+ * @param actor - Who is shipping
+ * @param session - Optional MongoDB session for transactions
+ * @returns The new shipment
+ */
+export const createShipment = async (
+  order: IOrder,
+  group: IOrderVendorGroup,
+  details: ShipmentDetails,
+  actor: OrderActor,
+  session?: mongoose.ClientSession
+): Promise<IShipment> => {
+  if (['delivered', 'cancelled'].includes(group.status)) {
+    throw new AppError(`Cannot ship a ${group.status} order`, 400);
+  }
+
+  // Couriers without an integration are recorded by name under the manual carrier
+  const adapter = getCarrierAdapter(details.carrier || manualCarrier.code) || manualCarrier;
+  const carrierName = adapter === manualCarrier ? details.carrier : adapter.name;
+
+  let awbNumber = details.awbNumber;
+  let trackingUrl = details.trackingUrl;
+  if (!awbNumber) {
+    if (!adapter.canBook) {
+      throw new AppError('AWB (tracking) number is required for this carrier', 400);
+    }
+
+    const area = await ServiceArea.findOne({ vendorId: group.vendorId }).session(session || null);
+    const booking = await adapter.book({
+      orderId: (order._id as mongoose.Types.ObjectId).toString(),
+      vendorId: group.vendorId.toString(),
+      pickupPincode: area?.warehouse.pincode,
+      deliveryPincode: order.shippingAddress.zipCode,
+      itemCount: getVendorGroupItems(order, group).reduce((sum, item) => sum + getActiveQuantity(item), 0)
+    });
+    awbNumber = booking.awbNumber;
+    trackingUrl = trackingUrl || booking.trackingUrl;
+  }
+
+  const existing = await Shipment.findOne({ carrier: adapter.code, awbNumber }).session(session || null);
+  if (existing && !existing.order.equals(order._id as mongoose.Types.ObjectId)) {
+    throw new AppError(`AWB ${awbNumber} is already used by another order`, 409);
+  }
+
+  await Shipment.updateMany(
+    { order: order._id, vendorId: group.vendorId, isActive: true, _id: { $ne: existing?._id } },
+    { $set: { isActive: false } },
+    { session }
+  );
+
+  const shipment = existing || new Shipment({
+    order: order._id,
+    vendorId: group.vendorId,
+    carrier: adapter.code,
+    awbNumber,
+    createdBy: actor.id
+  });
+  shipment.carrierName = carrierName;
+  shipment.trackingUrl = trackingUrl || adapter.getTrackingUrl(awbNumber);
+  shipment.isActive = true;
+  if (!existing) {
+    shipment.events.push({ status: 'created', description: 'Shipment booked', occurredAt: new Date() });
+  }
+  await shipment.save({ session });
+
+  group.trackingNumber = awbNumber;
+  group.carrier = carrierName || adapter.name;
+
+  return shipment;
+};
+
+// Moves a vendor group forward (as the system) until it reaches the status its parcel is in
+const advanceGroupForShipment = async (
+  shipment: IShipment,
+  target: OrderStatus,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const order = await Order.findById(shipment.order).session(session || null);
+  const group = order?.vendorGroups.find(g => g.vendorId.equals(shipment.vendorId));
+  if (!order || !group || group.status === 'cancelled') {
+    return;
+  }
+
+  const from = GROUP_PATH.indexOf(group.status);
+  const to = GROUP_PATH.indexOf(target);
+  for (let step = from + 1; step <= to; step++) {
+    await transitionVendorGroup(order, shipment.vendorId, GROUP_PATH[step], { role: 'system' }, {
+      session,
+      note: `Carrier update for AWB ${shipment.awbNumber}`
+    });
+  }
+};
+
+/**
+ * Adds carrier tracking events to a shipment's timeline and moves the order along with the parcel:
+ * a picked up parcel marks the vendor group shipped and a delivered one marks it delivered.
+ * Events already on the timeline are ignored, so repeated webhooks and polls are harmless.
+ * @param shipment - The shipment being tracked
+ * @param events - Events reported by the carrier
+ * @param session - Optional MongoDB session for transactions
+ * @returns Number of new events
+ */
+export const applyTrackingEvents = async (
+  shipment: IShipment,
+  events: CarrierTrackingEvent[],
+  session?: mongoose.ClientSession
+): Promise<number> => {
+  const newEvents = events.filter(event => !shipment.events.some(existing => (
+    existing.status === event.status && existing.occurredAt.getTime() === event.occurredAt.getTime()
+  )));
+
+  shipment.lastSyncedAt = new Date();
+  if (newEvents.length === 0) {
+    await shipment.save({ session });
+    return 0;
+  }
+
+  newEvents.forEach(event => {
+    shipment.events.push({
+      status: event.status,
+      description: event.description,
+      location: event.location,
+      carrierStatus: event.carrierStatus,
+      occurredAt: event.occurredAt
+    });
+  });
+  shipment.events.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  const latest = shipment.events[shipment.events.length - 1];
+  shipment.status = latest.status;
+  if (latest.status === 'delivered') {
+    shipment.deliveredAt = latest.occurredAt;
+  }
+  await shipment.save({ session });
+
+  // Superseded shipments keep their timeline but no longer drive the order
+  const target = GROUP_STATUS_FOR_SHIPMENT[latest.status];
+  if (shipment.isActive && target) {
+    await advanceGroupForShipment(shipment, target, session);
+  }
+
+  return newEvents.length;
+};
+
+/**
+ * Fetches the latest events of a shipment from its carrier and applies them
+ * @param shipment - The shipment to refresh
+ * @param session - Optional MongoDB session for transactions
+ * @returns Number of new events
+ */
+export const syncShipment = async (
+  shipment: IShipment,
+  session?: mongoose.ClientSession
+): Promise<number> => {
+  const adapter = getCarrierAdapter(shipment.carrier);
+  if (!adapter) {
+    return 0;
+  }
+
+  const events = await adapter.fetchEvents(shipment.awbNumber);
+  return applyTrackingEvents(shipment, events, session);
+};
+
+/**
+ * Whether a shipment can still receive carrier updates
+ * @param shipment - The shipment
+ */
+export const isShipmentTrackable = (shipment: IShipment): boolean => {
+  return shipment.isActive && !FINAL_SHIPMENT_STATUSES.includes(shipment.status) && shipment.carrier !== manualCarrier.code;
+};
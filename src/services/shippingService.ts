@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import ShippingProfile, { IShippingProfile } from '../models/shippingProfile';
+import { IOrderShippingBreakdown } from '../models/order';
+
+// A cart or order line as the shipping engine sees it
+export interface ShippingLine {
+  vendorId: mongoose.Types.ObjectId;
+  quantity: number;
+  itemsValue: number; // Selling price x quantity
+  weightGrams?: number; // Per unit
+  requiresColdChain?: boolean;
+  legacyShippingPrice: number; // VendorProduct.shippingPrice, used when the vendor has no profile
+}
+
+export interface ShippingQuote {
+  vendorId: mongoose.Types.ObjectId;
+  fee: number;
+  breakdown: IOrderShippingBreakdown;
+}
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Zone whose pincode prefix matches the most digits
+const findZone = (profile: IShippingProfile, pincode?: string) => {
+  if (!pincode) {
+    return undefined;
+  }
+
+  let match: { name: string; surcharge: number; length: number } | undefined;
+  profile.zones.forEach(zone => {
+    zone.pincodePrefixes.forEach(prefix => {
+      if (pincode.startsWith(prefix) && (!match || prefix.length > match.length)) {
+        match = { name: zone.name, surcharge: zone.surcharge, length: prefix.length };
+      }
+    });
+  });
+  return match;
+};
+
+/**
+ * Quotes shipping for one vendor group
+ * @param vendorId - Vendor (or Admin) shipping the group
+ * @param profile - The vendor's active shipping profile, or null for per-listing shipping
+ * @param lines - The vendor's lines
+ * @param pincode - Destination pincode; zone surcharges are skipped when unknown
+ */
+export const quoteVendorShipping = (
+  vendorId: mongoose.Types.ObjectId,
+  profile: IShippingProfile | null,
+  lines: ShippingLine[],
+  pincode?: string
+): ShippingQuote => {
+  const coldChain = lines.some(line => line.requiresColdChain);
+
+  if (!profile) {
+    const fee = roundAmount(lines.reduce((sum, line) => sum + line.legacyShippingPrice, 0));
+    return {
+      vendorId,
+      fee,
+      breakdown: { baseFee: fee, slabFee: 0, zoneSurcharge: 0, coldChainSurcharge: 0, freeShippingApplied: false, legacy: true }
+    };
+  }
+
+  const itemsValue = lines.reduce((sum, line) => sum + line.itemsValue, 0);
+  const measure = profile.slabBasis === 'quantity'
+    ? lines.reduce((sum, line) => sum + line.quantity, 0)
+    : lines.reduce((sum, line) => sum + (line.weightGrams || 0) * line.quantity, 0);
+
+  const slab = profile.slabs.find(s => s.upTo === undefined || s.upTo === null || measure <= s.upTo);
+  const zone = findZone(profile, pincode);
+  const freeShippingApplied = profile.freeShippingThreshold !== undefined
+    && profile.freeShippingThreshold !== null
+    && itemsValue >= profile.freeShippingThreshold;
+
+  const baseFee = freeShippingApplied ? 0 : profile.baseFee;
+  const slabFee = freeShippingApplied ? 0 : (slab ? slab.fee : 0);
+  const zoneSurcharge = freeShippingApplied ? 0 : (zone ? zone.surcharge : 0);
+  const coldChainSurcharge = coldChain ? profile.coldChainSurcharge : 0;
+
+  return {
+    vendorId,
+    fee: roundAmount(baseFee + slabFee + zoneSurcharge + coldChainSurcharge),
+    breakdown: { baseFee, slabFee, zoneSurcharge, zone: zone?.name, coldChainSurcharge, freeShippingApplied, legacy: false }
+  };
+};
+
+/**
+ * Quotes shipping per vendor group for a set of lines, using each vendor's shipping profile
+ * @param lines - Cart or order lines
+ * @param pincode - Destination pincode, when known
+ * @param session - Optional MongoDB session for transactions
+ * @returns One quote per vendor and the total shipping
+ */
+export const quoteShipping = async (
+  lines: ShippingLine[],
+  pincode?: string,
+  session?: mongoose.ClientSession
+): Promise<{ quotes: ShippingQuote[]; total: number }> => {
+  const linesByVendor = new Map<string, ShippingLine[]>();
+  lines.forEach(line => {
+    const key = line.vendorId.toString();
+    linesByVendor.set(key, [...(linesByVendor.get(key) || []), line]);
+  });
+
+  const profiles = await ShippingProfile.find({
+    vendorId: { $in: Array.from(linesByVendor.values()).map(vendorLines => vendorLines[0].vendorId) },
+    isActive: true
+  }).session(session || null);
+
+  const quotes = Array.from(linesByVendor.values()).map(vendorLines => {
+    const vendorId = vendorLines[0].vendorId;
+    const profile = profiles.find(p => p.vendorId.equals(vendorId)) || null;
+    return quoteVendorShipping(vendorId, profile, vendorLines, pincode?.trim());
+  });
+
+  return {
+    quotes,
+    total: roundAmount(quotes.reduce((sum, quote) => sum + quote.fee, 0))
+  };
+};
@@ -0,0 +1,169 @@
+import mongoose from 'mongoose';
+import Product from '../models/product';
+import GlobalProduct from '../models/globalProduct';
+import VendorProduct from '../models/vendorProduct';
+import { SELLING_PRICE_EXPRESSION } from './pricingService';
+
+export interface SubstituteListOptions {
+  page: number;
+  limit: number;
+  sortBy?: string; // 'price' (default) or 'unitPrice' (price per tablet, ml, ...)
+  excludeVendorProductId?: mongoose.Types.ObjectId | string; // The listing being viewed
+}
+
+/**
+ * Finds the catalogue products that can replace a product. Products with a structured
+ * composition match others with the identical composition key; products without one fall back
+ * to the products manually grouped with them under an active GlobalProduct.
+ * @param productId - The catalogue product
+ * @returns The substitute product IDs (including the product itself) and how they were matched
+ */
+export const findSubstituteProductIds = async (
+  productId: mongoose.Types.ObjectId | string
+): Promise<{ productIds: mongoose.Types.ObjectId[]; matchedBy: 'composition' | 'globalProduct' | null }> => {
+  const product = await Product.findById(productId, 'compositionKey globalProduct').lean();
+  if (!product) {
+    return { productIds: [], matchedBy: null };
+  }
+
+  if (product.compositionKey) {
+    const productIds = await Product.distinct('_id', { compositionKey: product.compositionKey }) as mongoose.Types.ObjectId[];
+    return { productIds, matchedBy: 'composition' };
+  }
+
+  const globalProduct = product.globalProduct
+    ? await GlobalProduct.findOne({ _id: product.globalProduct, isActive: true }, 'productIds').lean()
+    : null;
+  if (globalProduct) {
+    return { productIds: [product._id as mongoose.Types.ObjectId, ...globalProduct.productIds], matchedBy: 'globalProduct' };
+  }
+
+  return { productIds: [], matchedBy: null };
+};
+
+/**
+ * Returns a page of approved, active listings that can replace a product, cheapest first.
+ * Other vendors' listings of the same product are included and flagged with isSameProduct.
+ * @param productId - The catalogue product
+ * @param options - Page, page size, sort and the listing to leave out
+ */
+export const getSubstitutes = async (
+  productId: mongoose.Types.ObjectId | string,
+  options: SubstituteListOptions
+): Promise<any> => {
+  const { productIds, matchedBy } = await findSubstituteProductIds(productId);
+
+  const match: any = {
+    productId: { $in: productIds },
+    status: 'approved',
+    isActive: true
+  };
+  if (options.excludeVendorProductId) {
+    match._id = { $ne: new mongoose.Types.ObjectId(options.excludeVendorProductId.toString()) };
+  }
+
+  const sort: any = options.sortBy === 'unitPrice'
+    ? { hasUnitPrice: -1, unitPrice: 1, sellingPrice: 1, _id: 1 }
+    : { sellingPrice: 1, _id: 1 };
+
+  const aggregate = VendorProduct.aggregate([
+    { $match: match },
+    {
+      $lookup: {
+        from: 'products',
+        localField: 'productId',
+        foreignField: '_id',
+        as: 'productDetails'
+      }
+    },
+    {
+      $unwind: '$productDetails'
+    },
+    {
+      $lookup: {
+        from: 'brands',
+        localField: 'productDetails.brand',
+        foreignField: '_id',
+        as: 'brandDetails'
+      }
+    },
+    {
+      $unwind: {
+        path: '$brandDetails',
+        preserveNullAndEmptyArrays: true
+      }
+    },
+    {
+      $lookup: {
+        from: 'vendors',
+        localField: 'vendorId',
+        foreignField: '_id',
+        as: 'vendorDetails'
+      }
+    },
+    {
+      $unwind: {
+        path: '$vendorDetails',
+        preserveNullAndEmptyArrays: true
+      }
+    },
+    {
+      $addFields: {
+        sellingPrice: SELLING_PRICE_EXPRESSION
+      }
+    },
+    {
+      $addFields: {
+        // Price per unit of the pack, to compare packs of different sizes
+        unitPrice: {
+          $cond: [
+            { $gt: [{ $ifNull: ['$productDetails.composition.packSize', 0] }, 0] },
+            { $round: [{ $divide: ['$sellingPrice', '$productDetails.composition.packSize'] }, 2] },
+            null
+          ]
+        },
+        hasUnitPrice: { $gt: [{ $ifNull: ['$productDetails.composition.packSize', 0] }, 0] },
+        isSameProduct: { $eq: ['$productId', new mongoose.Types.ObjectId(productId.toString())] }
+      }
+    },
+    {
+      $sort: sort
+    },
+    {
+      $project: {
+        _id: 1,
+        price: 1,
+        sellingPrice: 1,
+        unitPrice: 1,
+        isSameProduct: 1,
+        stock: 1,
+        productDetails: {
+          _id: 1,
+          name: 1,
+          images: 1,
+          requiresPrescription: 1,
+          composition: 1,
+          averageRating: 1,
+          ratingCount: 1
+        },
+        brandDetails: {
+          _id: 1,
+          name: 1
+        },
+        vendorDetails: {
+          _id: 1,
+          businessName: 1,
+          rating: 1,
+          ratingCount: 1
+        }
+      }
+    }
+  ]);
+
+  const result = await (VendorProduct.aggregatePaginate as any)(aggregate, {
+    page: options.page,
+    limit: options.limit
+  });
+
+  return { ...result, matchedBy };
+};
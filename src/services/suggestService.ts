@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import SearchDocument from '../models/searchDocument';
+import SearchSuggestion, { SuggestionType } from '../models/searchSuggestion';
+import SearchQuery from '../models/searchQuery';
+import SearchQueryHit from '../models/searchQueryHit';
+import { normalizeText, escapeRegex } from '../utils/searchText';
+
+export interface Suggestion {
+  type: SuggestionType | 'query';
+  text: string;
+  id?: mongoose.Types.ObjectId; // Product, Brand or Category ID
+}
+
+// Shortest prefix suggestions are looked up for
+const MIN_PREFIX_LENGTH = 2;
+
+// Longest query remembered for popular searches
+const MAX_RECORDED_QUERY_LENGTH = 200;
+
+// Fewest different searchers a query needs before it is suggested to others
+const MIN_POPULAR_SEARCHERS = 5;
+
+// Queries that may be suggested: found something, searched by enough people and not blocked
+const POPULAR_QUERY_FILTER = {
+  resultCount: { $gt: 0 },
+  count: { $gte: MIN_POPULAR_SEARCHERS },
+  isBlocked: { $ne: true }
+};
+
+/**
+ * Prefix keys of a suggestion: its normalised text and each tail starting at a later word,
+ * so "Crocin Advance" is found by "cro" and by "adv"
+ * @param text - Suggestion text
+ */
+export const getSuggestionKeys = (text: string): string[] => {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  return words.map((_, i) => words.slice(i).join(' '));
+};
+
+/**
+ * Rebuilds the type-ahead entries from the search index: products, brands and categories
+ * that currently have live listings, weighted by how many
+ * @returns Number of entries written
+ */
+export const refreshSuggestions = async (): Promise<number> => {
+  const startedAt = new Date();
+
+  const [products, brands, categories] = await Promise.all(
+    (['product', 'brand', 'category'] as const).map(field => SearchDocument.aggregate([
+      { $match: { [field]: { $ne: null } } },
+      {
+        $group: {
+          _id: `$${field}`,
+          text: { $first: field === 'product' ? '$name' : `$${field}Name` },
+          weight: { $sum: 1 }
+        }
+      }
+    ]))
+  );
+
+  const operations = ([
+    ['product', products],
+    ['brand', brands],
+    ['category', categories]
+  ] as Array<[SuggestionType, any[]]>).flatMap(([type, entries]) => entries
+    .filter(entry => entry.text)
+    .map(entry => ({
+      updateOne: {
+        filter: { type, ref: entry._id },
+        update: { $set: { text: entry.text, keys: getSuggestionKeys(entry.text), weight: entry.weight, updatedAt: new Date() } },
+        upsert: true
+      }
+    })));
+
+  if (operations.length > 0) {
+    await SearchSuggestion.bulkWrite(operations, { ordered: false });
+  }
+
+  // Products, brands and categories without live listings any more
+  await SearchSuggestion.deleteMany({ updatedAt: { $lt: startedAt } });
+
+  return operations.length;
+};
+
+/**
+ * Counts a search towards the popular searches. Each searcher counts once a day per query, so
+ * repeating a search does not make it popular.
+ * @param query - The search text
+ * @param resultCount - Number of matches it returned
+ * @param searcher - Who searched (their IP address); only a hash of it is stored
+ */
+export const recordSearchQuery = async (query: string, resultCount: number, searcher: string): Promise<void> => {
+  const normalized = normalizeText(query).slice(0, MAX_RECORDED_QUERY_LENGTH);
+  if (normalized.length < MIN_PREFIX_LENGTH) {
+    return;
+  }
+
+  try {
+    await SearchQueryHit.create({
+      normalized,
+      searcher: crypto.createHash('sha256').update(searcher).digest('hex')
+    });
+  } catch (error: any) {
+    // Already counted for this searcher
+    if (error.code === 11000) {
+      return;
+    }
+    throw error;
+  }
+
+  await SearchQuery.updateOne(
+    { normalized },
+    {
+      $set: { text: query.trim().slice(0, MAX_RECORDED_QUERY_LENGTH), resultCount, lastSearchedAt: new Date() },
+      $inc: { count: 1 }
+    },
+    { upsert: true }
+  );
+};
+
+/**
+ * Hides a query from the popular searches, recording it first if nobody has searched it yet
+ * @param query - The search text
+ * @returns The blocked query
+ */
+export const blockSearchQuery = async (query: string) => {
+  const normalized = normalizeText(query).slice(0, MAX_RECORDED_QUERY_LENGTH);
+
+  return SearchQuery.findOneAndUpdate(
+    { normalized },
+    {
+      $set: { isBlocked: true },
+      $setOnInsert: { text: query.trim().slice(0, MAX_RECORDED_QUERY_LENGTH), lastSearchedAt: new Date() }
+    },
+    { upsert: true, new: true }
+  );
+};
+
+/**
+ * Most searched queries that found something, among those searched by enough people and not blocked
+ * @param limit - Number of queries
+ */
+export const getPopularSearches = async (limit: number): Promise<Suggestion[]> => {
+  const queries = await SearchQuery.find(POPULAR_QUERY_FILTER, { text: 1 })
+    .sort({ count: -1 })
+    .limit(limit)
+    .lean();
+
+  return queries.map(query => ({ type: 'query', text: query.text }));
+};
+
+/**
+ * Type-ahead suggestions for a prefix: products, brands and categories from the prefix index,
+ * plus popular searches starting with it. Matches at the start of a name rank above matches
+ * at a later word, then by number of listings.
+ * @param prefix - What the customer has typed so far
+ * @param limit - Most suggestions of each type
+ */
+export const getSuggestions = async (
+  prefix: string,
+  limit: number
+): Promise<Record<'products' | 'brands' | 'categories' | 'queries', Suggestion[]>> => {
+  const normalized = normalizeText(prefix);
+  if (normalized.length < MIN_PREFIX_LENGTH) {
+    return { products: [], brands: [], categories: [], queries: await getPopularSearches(limit) };
+  }
+
+  const pattern = new RegExp(`^${escapeRegex(normalized)}`);
+
+  const [entries, queries] = await Promise.all([
+    SearchSuggestion.find({ keys: pattern }, { type: 1, text: 1, ref: 1, keys: 1, weight: 1 })
+      .sort({ weight: -1 })
+      .limit(limit * 10)
+      .lean(),
+    SearchQuery.find({ ...POPULAR_QUERY_FILTER, normalized: pattern }, { text: 1 })
+      .sort({ count: -1 })
+      .limit(limit)
+      .lean()
+  ]);
+
+  const ranked = entries
+    .map(entry => ({ ...entry, startsWith: entry.keys[0]?.startsWith(normalized) ? 1 : 0 }))
+    .sort((a, b) => b.startsWith - a.startsWith || b.weight - a.weight);
+
+  const pick = (type: SuggestionType): Suggestion[] => ranked
+    .filter(entry => entry.type === type)
+    .slice(0, limit)
+    .map(entry => ({ type, text: entry.text, id: entry.ref }));
+
+  return {
+    products: pick('product'),
+    brands: pick('brand'),
+    categories: pick('category'),
+    queries: queries.map(query => ({ type: 'query', text: query.text }))
+  };
+};
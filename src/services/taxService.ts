@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import { IOrderItem } from '../models/order';
+import Vendor from '../models/vendors';
+import { IInvoiceParty } from '../models/invoice';
+import { getLineNetAmount } from './pricingService';
+
+export interface GstSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Compare state names loosely ("Tamil Nadu" vs "tamil nadu ")
+const normalizeState = (state?: string): string => (state || '').trim().toLowerCase();
+
+/**
+ * The platform's own seller details (used for admin listings and vendors without a state)
+ * @returns Name, address, GSTIN and state from the PLATFORM_* environment variables
+ */
+export const getPlatformSeller = (): IInvoiceParty => ({
+  name: process.env.PLATFORM_NAME || 'Medical E-commerce',
+  address: process.env.PLATFORM_ADDRESS,
+  gstin: process.env.PLATFORM_GSTIN,
+  state: process.env.PLATFORM_STATE
+});
+
+/**
+ * Loads the seller details of each vendor, falling back to the platform for admin listings
+ * @param vendorIds - Vendor (or Admin) IDs
+ * @param session - Optional MongoDB session for transactions
+ * @returns Seller details keyed by vendor ID
+ */
+export const getSellerTaxProfiles = async (
+  vendorIds: Array<mongoose.Types.ObjectId | string>,
+  session?: mongoose.ClientSession
+): Promise<Map<string, IInvoiceParty>> => {
+  const vendors = await Vendor.find({ _id: { $in: vendorIds } }).session(session || null);
+  const platform = getPlatformSeller();
+
+  const profiles = new Map<string, IInvoiceParty>();
+  vendorIds.forEach(vendorId => {
+    const vendor = vendors.find(v => (v._id as mongoose.Types.ObjectId).equals(vendorId));
+    profiles.set(vendorId.toString(), vendor ? {
+      name: vendor.businessName,
+      address: vendor.businessAddress,
+      gstin: vendor.taxId,
+      state: vendor.businessState || platform.state,
+      phone: vendor.businessPhone
+    } : platform);
+  });
+
+  return profiles;
+};
+
+/**
+ * Whether a supply crosses state lines (IGST) rather than staying within one state (CGST + SGST).
+ * Unknown states are treated as inter-state.
+ * @param sellerState - State the seller ships from
+ * @param buyerState - State of the shipping address
+ */
+export const isInterStateSupply = (sellerState?: string, buyerState?: string): boolean => {
+  if (!normalizeState(sellerState) || !normalizeState(buyerState)) {
+    return true;
+  }
+  return normalizeState(sellerState) !== normalizeState(buyerState);
+};
+
+/**
+ * Splits a GST amount into CGST/SGST halves or IGST
+ * @param taxAmount - Total GST
+ * @param interState - Whether the supply is inter-state
+ */
+export const splitGst = (taxAmount: number, interState: boolean): GstSplit => {
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: roundAmount(taxAmount) };
+  }
+  const cgst = roundAmount(taxAmount / 2);
+  return { cgst, sgst: roundAmount(taxAmount - cgst), igst: 0 };
+};
+
+/**
+ * Works out the GST included in some units of an order line, after its coupon discount
+ * @param item - The order line
+ * @param quantity - Number of units
+ * @param interState - Whether the supply is inter-state
+ * @returns Taxable value, total GST and its split
+ */
+export const computeLineTax = (
+  item: IOrderItem,
+  quantity: number,
+  interState: boolean
+): GstSplit & { taxableValue: number; taxAmount: number } => {
+  const net = getLineNetAmount(item, quantity);
+  const rate = item.taxRate || 0;
+
+  // Selling prices are GST inclusive, so the tax is carved out of what the customer paid
+  const taxAmount = roundAmount(net * rate / (100 + rate));
+
+  return {
+    taxableValue: roundAmount(net - taxAmount),
+    taxAmount,
+    ...splitGst(taxAmount, interState)
+  };
+};
+
+/**
+ * Records the tax lines of an order line (call once its price and coupon discount are final)
+ * @param item - The order line
+ * @param interState - Whether the supply is inter-state
+ */
+export const applyLineTax = (item: IOrderItem, interState: boolean): void => {
+  const tax = computeLineTax(item, item.quantity, interState);
+  item.taxableValue = tax.taxableValue;
+  item.taxAmount = tax.taxAmount;
+  item.cgst = tax.cgst;
+  item.sgst = tax.sgst;
+  item.igst = tax.igst;
+};
@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import Wallet, { IWallet } from '../models/wallet';
+import WalletTransaction, { IWalletTransaction, LedgerAccount } from '../models/walletTransaction';
+import { AppError } from '../utils/errorHandler';
+
+export interface WalletEntryDetails {
+  type: IWalletTransaction['type'];
+  description?: string;
+  order?: mongoose.Types.ObjectId;
+  refund?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  createdByRole: IWalletTransaction['createdByRole'];
+}
+
+// Platform account on the other side of each kind of entry
+const COUNTER_ACCOUNTS: Record<IWalletTransaction['type'], LedgerAccount> = {
+  refund: 'platform_refunds',
+  cashback: 'platform_cashback',
+  adjustment: 'platform_adjustments',
+  order_payment: 'platform_order_payments',
+  order_payment_reversal: 'platform_order_payments'
+};
+
+// Round to paise
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Returns a user's wallet, creating an empty one on first use
+ * @param userId - The wallet owner
+ * @param session - Optional MongoDB session for transactions
+ */
+export const getOrCreateWallet = async (
+  userId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<IWallet> => {
+  const wallet = await Wallet.findOneAndUpdate(
+    { user: userId },
+    { $setOnInsert: { user: userId, balance: 0 } },
+    { upsert: true, new: true, session }
+  );
+  return wallet as IWallet;
+};
+
+/**
+ * Adds money to a user's wallet and posts the matching ledger entry
+ * @param userId - The wallet owner
+ * @param amount - Amount in INR
+ * @param details - Why the money is credited
+ * @param session - Optional MongoDB session for transactions
+ * @returns The ledger entry
+ */
+export const creditWallet = async (
+  userId: mongoose.Types.ObjectId | string,
+  amount: number,
+  details: WalletEntryDetails,
+  session?: mongoose.ClientSession
+): Promise<IWalletTransaction> => {
+  const value = roundAmount(amount);
+  if (value <= 0) {
+    throw new AppError('Wallet credit must be a positive amount', 400);
+  }
+
+  await getOrCreateWallet(userId, session);
+  const wallet = await Wallet.findOneAndUpdate(
+    { user: userId },
+    { $inc: { balance: value } },
+    { new: true, session }
+  );
+
+  const [entry] = await WalletTransaction.create([{
+    user: userId,
+    direction: 'credit',
+    amount: value,
+    debitAccount: COUNTER_ACCOUNTS[details.type],
+    creditAccount: 'customer_wallet',
+    balanceAfter: roundAmount(wallet!.balance),
+    ...details
+  }], { session });
+
+  return entry;
+};
+
+/**
+ * Takes money from a user's wallet and posts the matching ledger entry. Never overdraws.
+ * @param userId - The wallet owner
+ * @param amount - Amount in INR
+ * @param details - Why the money is debited
+ * @param session - Optional MongoDB session for transactions
+ * @returns The ledger entry
+ */
+export const debitWallet = async (
+  userId: mongoose.Types.ObjectId | string,
+  amount: number,
+  details: WalletEntryDetails,
+  session?: mongoose.ClientSession
+): Promise<IWalletTransaction> => {
+  const value = roundAmount(amount);
+  if (value <= 0) {
+    throw new AppError('Wallet debit must be a positive amount', 400);
+  }
+
+  // Conditional decrement so concurrent checkouts cannot spend the same balance twice
+  const wallet = await Wallet.findOneAndUpdate(
+    { user: userId, balance: { $gte: value } },
+    { $inc: { balance: -value } },
+    { new: true, session }
+  );
+
+  if (!wallet) {
+    throw new AppError('Insufficient wallet balance', 400);
+  }
+
+  const [entry] = await WalletTransaction.create([{
+    user: userId,
+    direction: 'debit',
+    amount: value,
+    debitAccount: 'customer_wallet',
+    creditAccount: COUNTER_ACCOUNTS[details.type],
+    balanceAfter: roundAmount(wallet.balance),
+    ...details
+  }], { session });
+
+  return entry;
+};
+
+/**
+ * Returns a user's wallet balance
+ * @param userId - The wallet owner
+ * @param session - Optional MongoDB session for transactions
+ */
+export const getWalletBalance = async (
+  userId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession
+): Promise<number> => {
+  const wallet = await Wallet.findOne({ user: userId }).session(session || null);
+  return wallet ? roundAmount(wallet.balance) : 0;
+};
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { ShipmentStatus } from '../models/shipment';
+
+// What a carrier needs to book a pickup
+export interface CarrierBookingRequest {
+  orderId: string;
+  vendorId: string;
+  pickupPincode?: string;
+  deliveryPincode: string;
+  itemCount: number; // Units in the parcel
+}
+
+export interface CarrierBooking {
+  awbNumber: string;
+  trackingUrl?: string;
+}
+
+// A tracking update in the shipment's own status vocabulary
+export interface CarrierTrackingEvent {
+  awbNumber: string;
+  status: ShipmentStatus;
+  carrierStatus?: string;
+  description?: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+/**
+ * Integration with one courier. Adapters translate the courier's API and webhook payloads
+ * into shipment statuses; everything else (orders, timelines) is handled by the shipment service.
+ */
+export interface CarrierAdapter {
+  code: string;
+  name: string;
+  // Whether the adapter can book pickups itself (otherwise the AWB must be entered by hand)
+  canBook: boolean;
+  book(request: CarrierBookingRequest): Promise<CarrierBooking>;
+  getTrackingUrl(awbNumber: string): string | undefined;
+  // Latest known events of a shipment (used by the poller), oldest first
+  fetchEvents(awbNumber: string): Promise<CarrierTrackingEvent[]>;
+  // Checks a webhook delivery was sent by the carrier
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): boolean;
+  // Turns a webhook payload into tracking events
+  parseWebhook(body: any): CarrierTrackingEvent[];
+}
+
+// Minutes the mock carrier takes between scans (MOCK_CARRIER_STEP_MINUTES)
+const getMockStepMinutes = (): number => {
+  const minutes = parseFloat(process.env.MOCK_CARRIER_STEP_MINUTES || '');
+  return minutes > 0 ? minutes : 60;
+};
+
+// Scans the mock carrier reports, in order, one per step after booking
+const MOCK_TIMELINE: Array<{ status: ShipmentStatus; code: string; description: string; location: string }> = [
+  { status: 'picked_up', code: 'PKD', description: 'Shipment picked up from seller', location: 'Origin hub' },
+  { status: 'in_transit', code: 'ITR', description: 'Shipment in transit', location: 'Sorting centre' },
+  { status: 'out_for_delivery', code: 'OFD', description: 'Out for delivery', location: 'Destination hub' },
+  { status: 'delivered', code: 'DLV', description: 'Delivered', location: 'Destination' }
+];
+
+// Mock status codes mapped to shipment statuses (used for webhooks)
+const MOCK_STATUS_CODES: Record<string, ShipmentStatus> = {
+  PKD: 'picked_up',
+  ITR: 'in_transit',
+  OFD: 'out_for_delivery',
+  DLV: 'delivered',
+  UND: 'delivery_failed',
+  RTO: 'returned_to_origin',
+  CAN: 'cancelled'
+};
+
+/**
+ * Local carrier for development and testing. The AWB encodes its booking time, and the shipment
+ * moves one scan forward every MOCK_CARRIER_STEP_MINUTES until it is delivered. Webhooks are signed
+ * with MOCK_CARRIER_WEBHOOK_SECRET in the x-carrier-signature header.
+ */
+export const mockCarrier: CarrierAdapter = {
+  code: 'mock',
+  name: 'Mock Courier',
+  canBook: true,
+
+  book: async () => {
+    const awbNumber = `MOCK${Date.now().toString(36).toUpperCase()}${crypto.randomBytes(2).toString('hex').toUpperCase()}`;
+    return { awbNumber, trackingUrl: mockCarrier.getTrackingUrl(awbNumber) };
+  },
+
+  getTrackingUrl: (awbNumber: string) => `https://track.mock-courier.local/${awbNumber}`,
+
+  fetchEvents: async (awbNumber: string) => {
+    const bookedAt = parseInt(awbNumber.slice(4, -4), 36);
+    if (!awbNumber.startsWith('MOCK') || Number.isNaN(bookedAt)) {
+      return [];
+    }
+
+    const stepMs = getMockStepMinutes() * 60 * 1000;
+    const steps = Math.min(Math.floor((Date.now() - bookedAt) / stepMs), MOCK_TIMELINE.length);
+
+    return MOCK_TIMELINE.slice(0, steps).map((scan, index) => ({
+      awbNumber,
+      status: scan.status,
+      carrierStatus: scan.code,
+      description: scan.description,
+      location: scan.location,
+      occurredAt: new Date(bookedAt + (index + 1) * stepMs)
+    }));
+  },
+
+  verifyWebhook: (rawBody, headers) => {
+    const secret = process.env.MOCK_CARRIER_WEBHOOK_SECRET;
+    const signature = headers['x-carrier-signature'];
+    if (!secret || typeof signature !== 'string') {
+      return false;
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  },
+
+  // Payload: { awb, status, description?, location?, timestamp? } or { events: [...] }
+  parseWebhook: (body: any) => {
+    const updates: any[] = Array.isArray(body?.events) ? body.events : [body];
+    return updates
+      .filter(update => update?.awb && MOCK_STATUS_CODES[update.status])
+      .map(update => ({
+        awbNumber: String(update.awb),
+        status: MOCK_STATUS_CODES[update.status],
+        carrierStatus: update.status,
+        description: update.description,
+        location: update.location,
+        occurredAt: update.timestamp ? new Date(update.timestamp) : new Date()
+      }));
+  }
+};
+
+/**
+ * Couriers the vendor books outside the platform. Only the AWB is recorded; status updates
+ * come from the vendor marking the order shipped and delivered.
+ */
+export const manualCarrier: CarrierAdapter = {
+  code: 'manual',
+  name: 'Self-shipped',
+  canBook: false,
+  book: async () => {
+    throw new Error('Manual shipments need an AWB number');
+  },
+  getTrackingUrl: () => undefined,
+  fetchEvents: async () => [],
+  verifyWebhook: () => false,
+  parseWebhook: () => []
+};
+
+const adapters = new Map<string, CarrierAdapter>([
+  [mockCarrier.code, mockCarrier],
+  [manualCarrier.code, manualCarrier]
+]);
+
+/**
+ * Makes a carrier integration available to the shipment service
+ * @param adapter - The carrier adapter
+ */
+export const registerCarrierAdapter = (adapter: CarrierAdapter): void => {
+  adapters.set(adapter.code, adapter);
+};
+
+/**
+ * Finds a carrier adapter by code
+ * @param code - Carrier code
+ * @returns The adapter, or undefined for unknown carriers
+ */
+export const getCarrierAdapter = (code: string): CarrierAdapter | undefined => {
+  return adapters.get(code.toLowerCase());
+};
+
+// Codes of the registered carriers
+export const getCarrierCodes = (): string[] => Array.from(adapters.keys());
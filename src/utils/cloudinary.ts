@@ -178,4 +178,58 @@ export const uploadCategoryImages = async (
   return Promise.all(uploadPromises);
 };
 
+/**
+ * Uploads prescription images/PDFs to Cloudinary
+ * @param files - Array of file objects from express-fileupload
+ * @param userId - User ID for folder structure
+ * @returns Promise with array of upload results
+ */
+export const uploadPrescriptionFiles = async (
+  files: any[],
+  userId: string
+): Promise<{ url: string; publicId: string; fileType: 'image' | 'pdf'; originalName?: string }[]> => {
+  // Create folder path: prescriptions/userId
+  const folderPath = `prescriptions/${userId}`;
+
+  const uploadPromises = files.map(async (file) => {
+    // Cloudinary stores PDFs under the image resource type as well
+    const result = await uploadToCloudinary(file.data, folderPath);
+    const isPdf = file.mimetype === 'application/pdf';
+
+    return {
+      url: result.url,
+      publicId: result.publicId,
+      fileType: isPdf ? 'pdf' as const : 'image' as const,
+      originalName: file.name
+    };
+  });
+
+  return Promise.all(uploadPromises);
+};
+
+/**
+ * Uploads return request photos to Cloudinary
+ * @param files - Array of file objects from express-fileupload
+ * @param userId - User ID for folder structure
+ * @returns Promise with array of upload results
+ */
+export const uploadReturnPhotos = async (
+  files: any[],
+  userId: string
+): Promise<{ url: string; publicId: string }[]> => {
+  // Create folder path: returns/userId
+  const folderPath = `returns/${userId}`;
+
+  const uploadPromises = files.map(async (file) => {
+    const result = await uploadToCloudinary(file.data, folderPath);
+
+    return {
+      url: result.url,
+      publicId: result.publicId
+    };
+  });
+
+  return Promise.all(uploadPromises);
+};
+
 export default cloudinary;
\ No newline at end of file
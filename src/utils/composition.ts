@@ -0,0 +1,41 @@
+import { IProductComposition } from '../models/product';
+import { normalizeText } from './searchText';
+
+// Mass units converted to milligrams, so 0.5 g and 500 mg compare equal
+const MILLIGRAMS_PER_UNIT: Record<string, number> = {
+  g: 1000,
+  mg: 1,
+  mcg: 0.001
+};
+
+// Drops floating point noise from unit conversions (e.g. 0.1 x 3)
+const roundStrength = (value: number): number => Number(value.toPrecision(6));
+
+/**
+ * Canonical key of a composition: its active ingredients (names normalised, strengths in
+ * common units and per single ml or g) in name order, and the dosage form.
+ * Products with the same key are substitutes; pack size does not matter.
+ * @param composition - Structured composition of a product
+ * @returns The key, or undefined when the composition is incomplete
+ */
+export const getCompositionKey = (composition?: Partial<IProductComposition> | null): string | undefined => {
+  const ingredients = composition?.activeIngredients || [];
+  if (ingredients.length === 0 || !composition?.dosageForm) {
+    return undefined;
+  }
+
+  const parts = ingredients.map(ingredient => {
+    const factor = MILLIGRAMS_PER_UNIT[ingredient.unit];
+    let strength = factor ? ingredient.strength * factor : ingredient.strength;
+    let unit: string = factor ? 'mg' : ingredient.unit;
+
+    if (ingredient.perAmount && ingredient.perUnit) {
+      strength = strength / ingredient.perAmount;
+      unit = `${unit}/${ingredient.perUnit}`;
+    }
+
+    return `${normalizeText(ingredient.name)} ${roundStrength(strength)}${unit}`;
+  });
+
+  return `${parts.sort().join(' + ')} | ${composition.dosageForm}`;
+};
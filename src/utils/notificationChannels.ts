@@ -0,0 +1,127 @@
+import fs from 'fs';
+import { NotificationChannel } from '../models/notificationLog';
+
+export interface OutboundMessage {
+  channel: NotificationChannel;
+  to: string; // Email address, phone number, or comma-separated push tokens
+  subject?: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+// Sends messages on one channel through one provider
+export interface ChannelAdapter {
+  provider: string;
+  send(message: OutboundMessage): Promise<void>;
+}
+
+/**
+ * Local sink for development and testing: appends each message as a JSON line to
+ * NOTIFICATION_SINK_FILE, or prints it to the console when no file is set
+ */
+export const sinkAdapter: ChannelAdapter = {
+  provider: 'sink',
+  send: async (message) => {
+    const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    if (process.env.NOTIFICATION_SINK_FILE) {
+      await fs.promises.appendFile(process.env.NOTIFICATION_SINK_FILE, `${line}\n`);
+    } else {
+      console.log(`[notification:${message.channel}] ${line}`);
+    }
+  }
+};
+
+// SMTP transport, created on first use (nodemailer is only needed when SMTP_HOST is set)
+let smtpTransport: any;
+const getSmtpTransport = (): any => {
+  if (!smtpTransport) {
+    const nodemailer = require('nodemailer');
+    smtpTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined
+    });
+  }
+  return smtpTransport;
+};
+
+// Email over SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM)
+export const smtpAdapter: ChannelAdapter = {
+  provider: 'smtp',
+  send: async (message) => {
+    await getSmtpTransport().sendMail({
+      from: process.env.SMTP_FROM,
+      to: message.to,
+      subject: message.subject,
+      text: message.body
+    });
+  }
+};
+
+// Helper to POST JSON and fail on non-2xx responses
+const postJson = async (url: string, headers: Record<string, string>, body: any): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}: ${await response.text()}`);
+  }
+};
+
+// SMS through an HTTP gateway (SMS_API_URL, SMS_API_KEY, SMS_SENDER_ID)
+export const smsAdapter: ChannelAdapter = {
+  provider: 'sms',
+  send: async (message) => {
+    await postJson(process.env.SMS_API_URL as string, { Authorization: `Bearer ${process.env.SMS_API_KEY}` }, {
+      to: message.to,
+      sender: process.env.SMS_SENDER_ID,
+      message: message.body
+    });
+  }
+};
+
+// Push through Firebase Cloud Messaging (FCM_SERVER_KEY)
+export const pushAdapter: ChannelAdapter = {
+  provider: 'push',
+  send: async (message) => {
+    await postJson('https://fcm.googleapis.com/fcm/send', { Authorization: `key=${process.env.FCM_SERVER_KEY}` }, {
+      registration_ids: message.to.split(','),
+      notification: { title: message.subject, body: message.body },
+      data: message.data
+    });
+  }
+};
+
+// Whether the real provider of a channel is configured
+const isChannelConfigured = (channel: NotificationChannel): boolean => {
+  switch (channel) {
+    case 'email':
+      return !!process.env.SMTP_HOST;
+    case 'sms':
+      return !!(process.env.SMS_API_URL && process.env.SMS_API_KEY);
+    case 'push':
+      return !!process.env.FCM_SERVER_KEY;
+  }
+};
+
+const adapters: Record<NotificationChannel, ChannelAdapter> = {
+  email: smtpAdapter,
+  sms: smsAdapter,
+  push: pushAdapter
+};
+
+/**
+ * Returns the adapter a channel's messages are sent through. Channels without a configured
+ * provider, and every channel when NOTIFICATION_SINK=true, go to the local sink.
+ * @param channel - The channel
+ */
+export const getChannelAdapter = (channel: NotificationChannel): ChannelAdapter => {
+  if (process.env.NOTIFICATION_SINK === 'true' || !isChannelConfigured(channel)) {
+    return sinkAdapter;
+  }
+  return adapters[channel];
+};
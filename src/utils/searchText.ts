@@ -0,0 +1,108 @@
+// Text helpers shared by the search index and the search queries
+
+/**
+ * Lower-cases text, strips accents and replaces punctuation with spaces
+ * @param text - Any text
+ * @returns Normalised text with single spaces
+ */
+export const normalizeText = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Splits text into normalised words (single letters are dropped, numbers kept)
+ * @param text - Any text
+ */
+export const tokenize = (text: string): string[] => {
+  return normalizeText(text)
+    .split(' ')
+    .filter(word => word.length > 1 || /\d/.test(word));
+};
+
+/**
+ * Trigrams of a word, padded so the start and end of the word count (e.g. "^pa", "par", ..., "ol$")
+ * @param word - A normalised word
+ */
+export const getTrigrams = (word: string): string[] => {
+  const padded = `^${word}$`;
+  if (padded.length <= 3) {
+    return [padded];
+  }
+
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+/**
+ * Levenshtein distance between two words, giving up once it exceeds a limit
+ * @param a - First word
+ * @param b - Second word
+ * @param max - Largest distance of interest
+ * @returns The distance, or max + 1 when it is larger than max
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos tolerated for a query word of a given length
+const getAllowedTypos = (length: number): number => {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+};
+
+/**
+ * How well a query word matches a word of a document, from 0 (no match) to 1 (exact)
+ * @param query - Normalised query word
+ * @param word - Normalised document word
+ */
+export const wordSimilarity = (query: string, word: string): number => {
+  if (query === word) {
+    return 1;
+  }
+
+  // Words still being typed
+  if (query.length >= 3 && word.startsWith(query)) {
+    return 0.9;
+  }
+
+  const allowed = getAllowedTypos(query.length);
+  if (allowed === 0) {
+    return 0;
+  }
+
+  const distance = editDistance(query, word, allowed);
+  return distance <= allowed ? 0.8 * (1 - distance / Math.max(query.length, word.length)) : 0;
+};
+
+/**
+ * Escapes text for use inside a regular expression, so user input only ever matches literally
+ * @param text - Any text
+ */
+export const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
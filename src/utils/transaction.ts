@@ -0,0 +1,20 @@
+import mongoose from 'mongoose';
+
+/**
+ * Runs a task once the transaction of a session has committed, and drops it if the transaction aborts.
+ * Without a session, or outside a transaction, the task runs straight away.
+ * @param session - Optional MongoDB session of the change the task follows
+ * @param task - Work that must only happen for committed changes (gateway calls, messages)
+ */
+export const runAfterCommit = (session: mongoose.ClientSession | undefined, task: () => void): void => {
+  if (session && session.inTransaction()) {
+    session.once('ended', () => {
+      if (session.transaction.isCommitted) {
+        task();
+      }
+    });
+    return;
+  }
+
+  task();
+};
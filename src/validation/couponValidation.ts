@@ -0,0 +1,72 @@
+import Joi from 'joi';
+
+// Validation schema for the scope of a coupon (empty lists match everything)
+const couponScopeSchema = Joi.object({
+  categories: Joi.array().items(Joi.string()).optional(),
+  brands: Joi.array().items(Joi.string()).optional(),
+  vendors: Joi.array().items(Joi.string()).optional()
+});
+
+// Fields shared by admin and vendor coupons
+const couponFields = {
+  code: Joi.string().trim().alphanum().min(3).max(30),
+  description: Joi.string().max(500).allow(''),
+  discountType: Joi.string().valid('percentage', 'flat'),
+  discountValue: Joi.number().positive().when('discountType', {
+    is: 'percentage',
+    then: Joi.number().max(100)
+  }),
+  maxDiscount: Joi.number().min(0),
+  minCartValue: Joi.number().min(0),
+  usageLimit: Joi.number().integer().min(1).allow(null),
+  perUserLimit: Joi.number().integer().min(1),
+  validFrom: Joi.date(),
+  validUntil: Joi.date().when('validFrom', {
+    is: Joi.exist(),
+    then: Joi.date().greater(Joi.ref('validFrom'))
+  }).allow(null),
+  isActive: Joi.boolean()
+};
+
+// Validation schema for creating a coupon (admin)
+export const createCouponSchema = Joi.object({
+  ...couponFields,
+  code: couponFields.code.required(),
+  discountType: couponFields.discountType.required(),
+  discountValue: couponFields.discountValue.required(),
+  scope: couponScopeSchema.optional(),
+  fundedBy: Joi.string().valid('platform', 'vendor').optional()
+});
+
+// Validation schema for updating a coupon (admin)
+export const updateCouponSchema = Joi.object({
+  ...couponFields,
+  scope: couponScopeSchema.optional(),
+  fundedBy: Joi.string().valid('platform', 'vendor').optional()
+}).min(1);
+
+// Validation schema for creating a coupon on the vendor's own listings (always vendor-funded)
+export const createVendorCouponSchema = Joi.object({
+  ...couponFields,
+  code: couponFields.code.required(),
+  discountType: couponFields.discountType.required(),
+  discountValue: couponFields.discountValue.required(),
+  scope: Joi.object({
+    categories: Joi.array().items(Joi.string()).optional(),
+    brands: Joi.array().items(Joi.string()).optional()
+  }).optional()
+});
+
+// Validation schema for updating a vendor's coupon
+export const updateVendorCouponSchema = Joi.object({
+  ...couponFields,
+  scope: Joi.object({
+    categories: Joi.array().items(Joi.string()).optional(),
+    brands: Joi.array().items(Joi.string()).optional()
+  }).optional()
+}).min(1);
+
+// Validation schema for applying a coupon to the cart
+export const applyCouponSchema = Joi.object({
+  code: Joi.string().trim().min(1).max(30).required()
+});
@@ -0,0 +1,19 @@
+import Joi from 'joi';
+import { NOTIFICATION_TEMPLATES } from '../services/notificationTemplates';
+
+// Validation schema for updating notification preferences
+export const notificationPreferenceSchema = Joi.object({
+  channels: Joi.object({
+    email: Joi.boolean().optional(),
+    sms: Joi.boolean().optional(),
+    push: Joi.boolean().optional()
+  }).optional(),
+  mutedEvents: Joi.array().items(Joi.string().valid(...Object.keys(NOTIFICATION_TEMPLATES))).optional(),
+  pushTokens: Joi.array().items(Joi.string().max(500)).max(10).optional()
+}).min(1);
+
+// Validation schema for marking inbox entries as read
+export const markInboxReadSchema = Joi.object({
+  ids: Joi.array().items(Joi.string().hex().length(24)).min(1).max(100),
+  all: Joi.boolean().valid(true)
+}).xor('ids', 'all');
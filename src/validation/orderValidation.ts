@@ -0,0 +1,57 @@
+import Joi from 'joi';
+
+// Validation schema for a line (or part of a line) being cancelled
+const cancelItemSchema = Joi.object({
+  vendorProductId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required()
+});
+
+// Validation schema for cancelling an order, optionally limited to some of its items
+export const cancelOrderSchema = Joi.object({
+  reason: Joi.string().max(500).allow('').optional(),
+  items: Joi.array().items(cancelItemSchema).min(1).optional(),
+  refundTo: Joi.string().valid('source', 'wallet').optional()
+});
+
+// Validation schema for cancelling items of an order (admin)
+export const cancelOrderItemsSchema = Joi.object({
+  reason: Joi.string().max(500).allow('').optional(),
+  items: Joi.array().items(cancelItemSchema).min(1).required(),
+  refundTo: Joi.string().valid('source', 'wallet').optional()
+});
+
+// Validation schema for opening a return (items may arrive as a JSON string alongside multipart photos)
+export const createReturnSchema = Joi.object({
+  reason: Joi.string().min(1).max(1000).required(),
+  items: Joi.alternatives().try(
+    Joi.array().items(Joi.object({
+      vendorProductId: Joi.string().required(),
+      quantity: Joi.number().integer().min(1).required(),
+      reason: Joi.string().max(500).optional()
+    })).min(1),
+    Joi.string()
+  ).required()
+});
+
+// Validation schema for vendor/admin updates of a return request
+export const updateReturnStatusSchema = Joi.object({
+  status: Joi.string().valid('approved', 'rejected', 'pickup_scheduled', 'picked_up', 'received').required(),
+  note: Joi.string().max(500).allow('').optional(),
+  rejectionReason: Joi.string().max(500).when('status', { is: 'rejected', then: Joi.required() }),
+  pickup: Joi.object({
+    scheduledFor: Joi.date().optional(),
+    carrier: Joi.string().max(100).optional(),
+    trackingNumber: Joi.string().max(100).optional()
+  }).when('status', { is: 'pickup_scheduled', then: Joi.required() }),
+  items: Joi.array().items(Joi.object({
+    vendorProductId: Joi.string().required(),
+    condition: Joi.string().valid('sealed', 'opened', 'damaged').required()
+  })).optional()
+});
+
+// Validation schema for booking or recording the shipment of a vendor group
+export const createShipmentSchema = Joi.object({
+  carrier: Joi.string().trim().max(100).optional(),
+  awbNumber: Joi.string().trim().max(100).optional(),
+  trackingUrl: Joi.string().uri().max(500).optional()
+});
@@ -0,0 +1,13 @@
+import Joi from 'joi';
+
+// Validation schema for uploading a prescription (files are sent as multipart form data)
+export const uploadPrescriptionSchema = Joi.object({
+  patientName: Joi.string().max(100).optional(),
+  doctorName: Joi.string().max(100).optional(),
+  notes: Joi.string().max(500).optional()
+});
+
+// Validation schema for rejecting a prescription
+export const rejectPrescriptionSchema = Joi.object({
+  reason: Joi.string().min(1).max(500).required()
+});
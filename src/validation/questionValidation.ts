@@ -0,0 +1,23 @@
+import Joi from 'joi';
+
+// Validation schema for asking a question about a product
+export const askQuestionSchema = Joi.object({
+  productId: Joi.string().hex().length(24).required(),
+  question: Joi.string().trim().min(5).max(1000).required()
+});
+
+// Validation schema for answering a question (vendor or admin)
+export const answerQuestionSchema = Joi.object({
+  answer: Joi.string().trim().min(1).max(2000).required()
+});
+
+// Validation schema for moderating a question (admin)
+export const moderateQuestionSchema = Joi.object({
+  status: Joi.string().valid('approved', 'rejected').required(),
+  moderationNote: Joi.string().trim().max(500).optional()
+});
+
+// Validation schema for hiding or restoring an answer (admin)
+export const moderateAnswerSchema = Joi.object({
+  status: Joi.string().valid('approved', 'rejected').required()
+});
@@ -0,0 +1,18 @@
+import Joi from 'joi';
+
+// Validation schema for initiating a product recall
+export const createRecallSchema = Joi.object({
+  productId: Joi.string().required(),
+  reason: Joi.string().min(1).max(1000).required(),
+  batchNumbers: Joi.array().items(Joi.string().min(1).max(50)).optional(),
+  batchRange: Joi.object({
+    from: Joi.string().min(1).max(50).required(),
+    to: Joi.string().min(1).max(50).required()
+  }).optional()
+});
+
+// Validation schema for updating the recall status of an affected order
+export const updateRecallOrderSchema = Joi.object({
+  status: Joi.string().valid('pending', 'notified', 'return_requested', 'returned', 'resolved', 'unreachable').optional(),
+  notes: Joi.string().max(1000).allow('').optional()
+}).or('status', 'notes');
@@ -0,0 +1,26 @@
+import Joi from 'joi';
+
+const objectId = Joi.string().hex().length(24);
+
+// Validation schema for reviewing a product or a vendor
+export const createReviewSchema = Joi.object({
+  targetType: Joi.string().valid('product', 'vendor').required(),
+  productId: objectId.when('targetType', { is: 'product', then: Joi.required(), otherwise: Joi.forbidden() }),
+  vendorId: objectId.when('targetType', { is: 'vendor', then: Joi.required(), otherwise: Joi.optional() }),
+  rating: Joi.number().integer().min(1).max(5).required(),
+  title: Joi.string().trim().max(150).optional(),
+  comment: Joi.string().trim().max(2000).optional()
+});
+
+// Validation schema for editing a review
+export const updateReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  title: Joi.string().trim().max(150).allow('').optional(),
+  comment: Joi.string().trim().max(2000).allow('').optional()
+}).min(1);
+
+// Validation schema for moderating a review (admin)
+export const moderateReviewSchema = Joi.object({
+  status: Joi.string().valid('approved', 'rejected').required(),
+  moderationNote: Joi.string().trim().max(500).when('status', { is: 'rejected', then: Joi.required(), otherwise: Joi.optional() })
+});
@@ -0,0 +1,23 @@
+import Joi from 'joi';
+
+// Validation schema for creating a search synonym group
+export const createSynonymSchema = Joi.object({
+  terms: Joi.array().items(Joi.string().trim().min(1).max(100)).min(2).max(20).required(),
+  isActive: Joi.boolean().default(true)
+});
+
+// Validation schema for updating a search synonym group
+export const updateSynonymSchema = Joi.object({
+  terms: Joi.array().items(Joi.string().trim().min(1).max(100)).min(2).max(20).optional(),
+  isActive: Joi.boolean().optional()
+}).min(1);
+
+// Validation schema for blocking a search query from the popular searches
+export const blockSearchQuerySchema = Joi.object({
+  query: Joi.string().trim().min(2).max(200).required()
+});
+
+// Validation schema for blocking or unblocking a recorded search query
+export const updateSearchQuerySchema = Joi.object({
+  isBlocked: Joi.boolean().required()
+});
@@ -0,0 +1,50 @@
+import Joi from 'joi';
+
+// Validation schema for creating or replacing a shipping profile
+export const shippingProfileSchema = Joi.object({
+  baseFee: Joi.number().min(0).optional(),
+  slabBasis: Joi.string().valid('weight', 'quantity').optional(),
+  slabs: Joi.array().items(Joi.object({
+    upTo: Joi.number().min(0).allow(null).optional(),
+    fee: Joi.number().min(0).required()
+  })).optional(),
+  zones: Joi.array().items(Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    pincodePrefixes: Joi.array().items(Joi.string().pattern(/^\d{1,6}$/)).min(1).required(),
+    surcharge: Joi.number().min(0).required()
+  })).optional(),
+  freeShippingThreshold: Joi.number().min(0).allow(null).optional(),
+  coldChainSurcharge: Joi.number().min(0).optional(),
+  isActive: Joi.boolean().optional()
+});
+
+// Validation schema for creating or replacing a service area
+export const serviceAreaSchema = Joi.object({
+  mode: Joi.string().valid('all', 'pincodes', 'radius').optional(),
+  pincodes: Joi.array().items(Joi.string().pattern(/^\d{6}$/)).optional(),
+  pincodePrefixes: Joi.array().items(Joi.string().pattern(/^\d{1,5}$/)).optional(),
+  warehouse: Joi.object({
+    pincode: Joi.string().pattern(/^\d{6}$/).required(),
+    latitude: Joi.number().min(-90).max(90).optional(),
+    longitude: Joi.number().min(-180).max(180).optional()
+  }).optional(),
+  radiusKm: Joi.number().min(0).when('mode', {
+    is: 'radius',
+    then: Joi.required()
+  }),
+  handlingDays: Joi.number().integer().min(0).optional(),
+  localTransitDays: Joi.number().integer().min(0).optional(),
+  transitDays: Joi.number().integer().min(0).optional(),
+  isActive: Joi.boolean().optional()
+});
+
+// Validation schema for importing pincode directory entries (admin)
+export const pincodeLocationsSchema = Joi.object({
+  pincodes: Joi.array().items(Joi.object({
+    pincode: Joi.string().pattern(/^\d{6}$/).required(),
+    city: Joi.string().trim().optional(),
+    state: Joi.string().trim().optional(),
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required()
+  })).min(1).max(1000).required()
+});
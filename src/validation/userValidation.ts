@@ -55,4 +55,32 @@ export const adminUpdateUserSchema = Joi.object({
   state: Joi.string().max(50).optional(),
   zipCode: Joi.string().max(20).optional(),
   country: Joi.string().max(50).optional()
-});
\ No newline at end of file
+});
+// Fields of a saved address
+const addressFields = {
+  label: Joi.string().trim().max(30),
+  name: Joi.string().trim().min(1).max(100),
+  street: Joi.string().trim().min(1).max(200),
+  landmark: Joi.string().trim().max(100).allow(''),
+  city: Joi.string().trim().min(1).max(50),
+  state: Joi.string().trim().min(1).max(50),
+  zipCode: Joi.string().pattern(/^\d{6}$/).messages({ 'string.pattern.base': 'zipCode must be a valid 6-digit pincode' }),
+  country: Joi.string().trim().max(50),
+  phone: Joi.string().pattern(/^[0-9+\-\s()]+$/).min(10).max(20),
+  isDefaultShipping: Joi.boolean(),
+  isDefaultBilling: Joi.boolean()
+};
+
+// Validation schema for adding a saved address
+export const addAddressSchema = Joi.object({
+  ...addressFields,
+  name: addressFields.name.required(),
+  street: addressFields.street.required(),
+  city: addressFields.city.required(),
+  state: addressFields.state.required(),
+  zipCode: addressFields.zipCode.required(),
+  phone: addressFields.phone.required()
+});
+
+// Validation schema for updating a saved address
+export const updateAddressSchema = Joi.object(addressFields).min(1);
@@ -1,5 +1,35 @@
 import subCategory from '@/models/subCategory';
 import Joi from 'joi';
+import { DOSAGE_FORMS } from '../models/product';
+
+// Validation schema for a stock batch (lot) of a vendor product
+export const batchSchema = Joi.object({
+  batchNumber: Joi.string().min(1).max(50).required(),
+  manufactureDate: Joi.date().iso().optional(),
+  expiryDate: Joi.date().iso().when('manufactureDate', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('manufactureDate')) }).required(),
+  quantity: Joi.number().integer().min(0).required()
+});
+
+// Validation schema for updating a stock batch
+export const updateBatchSchema = Joi.object({
+  manufactureDate: Joi.date().iso().optional(),
+  expiryDate: Joi.date().iso().optional(),
+  quantity: Joi.number().integer().min(0).optional()
+});
+
+// Validation schema for the structured composition of a medicine
+export const compositionSchema = Joi.object({
+  activeIngredients: Joi.array().items(Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    strength: Joi.number().min(0).required(),
+    unit: Joi.string().valid('mg', 'mcg', 'g', 'ml', 'iu', '%').required(),
+    perAmount: Joi.number().greater(0).optional(),
+    perUnit: Joi.string().valid('ml', 'g').when('perAmount', { is: Joi.exist(), then: Joi.required(), otherwise: Joi.forbidden() })
+  })).min(1).required(),
+  dosageForm: Joi.string().valid(...DOSAGE_FORMS).required(),
+  packSize: Joi.number().greater(0).optional(),
+  packUnit: Joi.string().trim().max(20).optional()
+});
 
 // Validation schema for adding a product
 export const addProductSchema = Joi.object({
@@ -12,10 +42,18 @@ export const addProductSchema = Joi.object({
   price: Joi.number().min(0).required(),
   discount: Joi.number().min(0).max(100).default(0),
   shippingPrice: Joi.number().min(0).default(0),
-  stock: Joi.number().min(0).required(),
+  stock: Joi.number().min(0).when('batches', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+  batches: Joi.array().items(batchSchema).optional(),
   sku: Joi.string().optional(),
   globalProductId: Joi.string().optional(),
   globalProductName: Joi.string().optional(),
+  requiresPrescription: Joi.boolean().optional(),
+  isReturnable: Joi.boolean().optional(),
+  hsnCode: Joi.string().pattern(/^\d{4,8}$/).optional(),
+  gstRate: Joi.number().valid(0, 5, 12, 18, 28).optional(),
+  weightGrams: Joi.number().min(0).optional(),
+  requiresColdChain: Joi.boolean().optional(),
+  composition: compositionSchema.optional(),
   isFeatured: Joi.boolean().default(false),
   isActive: Joi.boolean().default(true),
   isOnSale: Joi.boolean().default(false),
@@ -51,6 +89,7 @@ export const vendorRegistrationSchema = Joi.object({
   businessAddress: Joi.string().min(1).max(500).required(),
   businessPhone: Joi.string().min(1).max(20).required(),
   taxId: Joi.string().optional(),
+  businessState: Joi.string().max(50).optional(),
   bankAccount: Joi.object({
     accountNumber: Joi.string().optional(),
     routingNumber: Joi.string().optional(),
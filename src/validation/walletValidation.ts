@@ -0,0 +1,8 @@
+import Joi from 'joi';
+
+// Validation schema for an admin wallet entry (positive amounts credit, negative amounts debit)
+export const walletAdjustmentSchema = Joi.object({
+  amount: Joi.number().precision(2).invalid(0).required(),
+  type: Joi.string().valid('cashback', 'adjustment').default('adjustment'),
+  reason: Joi.string().min(1).max(500).required()
+});